@@ -65,8 +65,9 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");
   res.setHeader(
     "Access-Control-Allow-Headers",
-    "Origin, X-Requested-With, Content-Type, Accept, Authorization"
+    "Origin, X-Requested-With, Content-Type, Accept, Authorization, Idempotency-Key"
   );
+  res.setHeader("Access-Control-Expose-Headers", "Idempotent-Replayed");
   // Handle preflight
   if (req.method === "OPTIONS") {
     return res.sendStatus(200);
@@ -1,4 +1,6 @@
 // Local copy of balanceTx utilities to keep server bundling self-contained
+import { roundSol } from './lamports'
+
 export function coerceNum(v: any): number {
     if (v == null) return 0
     if (typeof v === 'number') return v
@@ -58,7 +60,8 @@ export async function transactionWithReadGuard(ref: any, updateFn: UpdateFn, opt
             // ensure CAS guard
             if (Math.abs((cur as number) - readVal) > 1e-12) return undefined
             const out = updateFn(cur as number, readVal)
-            return typeof out === 'number' ? out : undefined
+            // Balances are stored as whole lamports (see lamports.ts)
+            return typeof out === 'number' ? roundSol(out) : undefined
         }, undefined, false)
 
         if (txRes && txRes.committed) {
@@ -0,0 +1,126 @@
+// Fee claims. Vault fee income accrues to the creator's `feesForCreator`
+// and to each contributor's `composition/contributors/<uid>/claimable`, and
+// referral rebates to `/referrals/<uid>/claimableSol` (see referrals.ts); a
+// claim zeroes the accrued amount, credits the user's balance and records a
+// CLAIM entry in the fee ledger (`/fees`).
+import { v4 as uuidv4 } from 'uuid'
+import { coerceNum } from './balanceTx'
+import { addSol } from './lamports'
+import { ledgerAccount, recordJournal } from './ledger'
+import { balanceRepo, feeRepo, vaultRepo } from './repositories'
+import { getStore } from './store'
+
+const TAG = '[CLAIMS]'
+
+export type ClaimRole = 'creator' | 'contributor' | 'referrer'
+
+export interface FeeClaim {
+    // null for referral rebates, which are not tied to a vault
+    vaultId: string | null
+    role: ClaimRole
+    amountSol: number
+    feeId: string
+}
+
+function now() {
+    return Date.now()
+}
+
+function claimPath(vaultId: string | null, uid: string, role: ClaimRole) {
+    if (role === 'referrer') return `/referrals/${uid}/claimableSol`
+    return role === 'creator' ? `/vaults/${vaultId}/feesForCreator` : `/vaults/${vaultId}/composition/contributors/${uid}/claimable`
+}
+
+// Atomically take the accrued amount and move it to the user's balance
+async function claim(vaultId: string | null, uid: string, role: ClaimRole): Promise<FeeClaim> {
+    const db = getStore()
+    const ref = db.ref(claimPath(vaultId, uid, role))
+    let amountSol = 0
+    const txRes = await ref.transaction((cur: any) => {
+        amountSol = coerceNum(cur)
+        // Returning null for a null snapshot lets the SDK retry against the server value
+        if (!(amountSol > 0)) return cur == null ? cur : undefined
+        return 0
+    })
+    if (!txRes.committed || !(amountSol > 0)) throw new Error('no_fees_to_claim')
+
+    if (!(await balanceRepo.guardedUpdate(uid, (cur: number) => addSol(cur, amountSol), `claim_${role}_fees`))) {
+        // Leave the fees claimable rather than lose them
+        await ref.transaction((cur: any) => addSol(coerceNum(cur), amountSol))
+        throw new Error('balance_credit_failed')
+    }
+
+    if (role === 'referrer') await db.ref(`/referrals/${uid}/claimedSol`).transaction((cur: any) => addSol(coerceNum(cur), amountSol))
+
+    const feeId = uuidv4()
+    await feeRepo.record(feeId, {
+        event: 'CLAIM',
+        role,
+        uid,
+        vaultId,
+        amountSol,
+        ts: now(),
+        status: 'confirmed'
+    })
+    const source = role === 'referrer' ? ledgerAccount.referral(uid) : ledgerAccount.vaultFees(vaultId as string)
+    await recordJournal(role === 'referrer' ? 'referral_claim' : 'fee_claim', { type: 'fee', id: feeId }, [{ from: source, to: ledgerAccount.user(uid), amountSol }])
+    console.info(TAG, 'claimed', { vaultId, uid, role, amountSol, feeId })
+    return { vaultId, role, amountSol, feeId }
+}
+
+export async function claimCreatorFees(vaultId: string, uid: string) {
+    const vault = await vaultRepo.get(vaultId)
+    if (!vault) throw new Error('vault_not_found')
+    const creatorUid = vault?.composition?.creatorUid || vault?.creatorUid
+    if (creatorUid !== uid) throw new Error('not_creator')
+    return claim(vaultId, uid, 'creator')
+}
+
+export async function claimContributorFees(vaultId: string, uid: string) {
+    const snap = await getStore().ref(`/vaults/${vaultId}/composition/contributors/${uid}`).get()
+    if (!snap.exists()) throw new Error('not_a_contributor')
+    return claim(vaultId, uid, 'contributor')
+}
+
+export async function claimReferralRebates(uid: string) {
+    return claim(null, uid, 'referrer')
+}
+
+/**
+ * Claim everything `uid` has accrued across all vaults, as creator and as
+ * contributor, plus their referral rebates. Vaults with nothing to claim are
+ * skipped; a failure on one vault is reported without stopping the rest.
+ */
+export async function claimAllFees(uid: string) {
+    const vaults = await vaultRepo.list()
+    const claims: FeeClaim[] = []
+    const failed: Array<{ vaultId: string | null, role: ClaimRole, error: string }> = []
+
+    for (const [vaultId, vault] of Object.entries<any>(vaults)) {
+        const pending: ClaimRole[] = []
+        const creatorUid = vault?.composition?.creatorUid || vault?.creatorUid
+        if (creatorUid === uid && coerceNum(vault.feesForCreator) > 0) pending.push('creator')
+        if (coerceNum(vault?.composition?.contributors?.[uid]?.claimable) > 0) pending.push('contributor')
+        for (const role of pending) {
+            try {
+                claims.push(await claim(vaultId, uid, role))
+            } catch (err: any) {
+                if (err?.message === 'no_fees_to_claim') continue
+                failed.push({ vaultId, role, error: err?.message || String(err) })
+            }
+        }
+    }
+    const rebateSnap = await getStore().ref(claimPath(null, uid, 'referrer')).get()
+    if (coerceNum(rebateSnap.val()) > 0) {
+        try {
+            claims.push(await claimReferralRebates(uid))
+        } catch (err: any) {
+            if (err?.message !== 'no_fees_to_claim') failed.push({ vaultId: null, role: 'referrer', error: err?.message || String(err) })
+        }
+    }
+    const totalSol = addSol(...claims.map((c) => c.amountSol))
+    console.info(TAG, 'claimAllFees', { uid, vaults: claims.length, totalSol, failed: failed.length })
+    return { totalSol, claims, failed }
+}
+
+export default { claimCreatorFees, claimContributorFees, claimReferralRebates, claimAllFees }
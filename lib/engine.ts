@@ -1,16 +1,95 @@
 // Server-local copy of padd-ui/engine/engine.ts with imports adjusted to server/lib
 import { v4 as uuidv4 } from 'uuid'
-import { coerceNum, transactionWithReadGuard } from './balanceTx'
 import { distributeFeeProRataSol, loadVaultComposition } from './fees'
-import { getAdminDb } from './firebaseAdmin'
+import { closeFees, getTraderFeeSchedule, openFee } from './feeSchedule'
+import { BadDebtEvent, closeShortfall, creditPlatformFees, drawInsurance, recordBadDebt, refundInsurance } from './insurance'
+import { accruedInterestSol } from './interest'
+import { addSol, roundSol } from './lamports'
+import { ledgerAccount, LedgerRef, recordJournal, Transfer } from './ledger'
+import * as mark from './mark'
 import * as math from './math'
+import { accrueVaultInterest, mintShares, recordNav, sharePriceSol } from './nav'
+import { applyUtilization, borrowAprBps, DEFAULT_RATE_MODEL } from './rates'
+import { creditReferralRebate, Referral, referralRebateSplit } from './referrals'
+import { balanceRepo, feeRepo, orderRepo, positionRepo, tradeRepo, vaultRepo } from './repositories'
+import { assessPosition, availableLiquiditySol, checkOpenRisk, DEFAULT_RISK_PARAMS, entryNotionalSol, riskParams } from './risk'
+import { finishSaga, noteSagaError, recoveryAction, resolveStep, runStep, Saga, SagaStatus, saveSagaData, startSaga } from './saga'
+import { getStore } from './store'
+import { buildTriggers, evaluateTriggers, FiredTrigger, hasTriggers, TriggerInput } from './triggers'
+import { canDeposit, canOpenPositions, vaultStatus } from './vaultStatus'
+import { processWithdrawalQueue } from './withdrawals'
 
 const TAG = '[ENGINE]'
 
+export type PositionSide = 'LONG' | 'SHORT'
+
+// Total balance an open of `collateralSol` will deduct (collateral + open fee, see feeSchedule.ts)
+export function openCostSol(collateralSol: number, openFeeSol: number) {
+    return addSol(roundSol(collateralSol), openFeeSol)
+}
+
+export interface OpenPositionOpts {
+    // Client-reported prices; the open is rejected if they stray from the server mark
+    entryPriceUsd?: number
+    solPriceUsd?: number
+    rawFrontend?: any
+    // Optional stop-loss / take-profit / trailing stop, validated against the entry price
+    triggers?: TriggerInput
+    // Fill of a FILLING limit order: the open takes the order's reserved SOL
+    // (see orders.ts) instead of deducting the full cost from the balance
+    reservation?: OrderReservation
+    // Worst entry the caller accepts (a limit order's price): a long is not
+    // opened above it, a short not below it
+    limitPriceUsd?: number
+}
+
+export interface OrderReservation {
+    orderId: string
+    reservedSol: number
+}
+
+export interface ClosePositionOpts {
+    liquidated?: boolean
+    liquidatedBy?: string
+    currentValueSol?: number
+    // Partial close: either a percentage (0-100] of the position or a token amount
+    closePct?: number
+    closeSizeToken?: number
+    // Set by the trigger watcher; re-checked against the fresh mark before settling
+    trigger?: FiredTrigger
+    // Set by a vault wind-down: always a full close. `settlePriceUsd` values the
+    // position when the token has no server mark left (e.g. it has rugged).
+    windDown?: boolean
+    settlePriceUsd?: number
+}
+
+// Fraction of the position to close; anything within dust of the full size closes it all
+export function resolveCloseFraction(sizeToken: number, opts?: ClosePositionOpts) {
+    let fraction = 1
+    if (opts?.closeSizeToken != null) {
+        if (!Number.isFinite(opts.closeSizeToken) || opts.closeSizeToken <= 0) throw new Error('invalid_close_amount')
+        fraction = opts.closeSizeToken / sizeToken
+    } else if (opts?.closePct != null) {
+        if (!Number.isFinite(opts.closePct) || opts.closePct <= 0 || opts.closePct > 100) throw new Error('invalid_close_amount')
+        fraction = opts.closePct / 100
+    }
+    if (fraction > 1 + 1e-9) throw new Error('close_amount_exceeds_position')
+    return fraction >= 1 - 1e-9 ? 1 : fraction
+}
+
 function now() {
     return Date.now()
 }
 
+// Liquidity just returned to the vault goes to queued LP withdrawals first
+async function fillQueuedWithdrawals(vaultId: string) {
+    try {
+        await processWithdrawalQueue(vaultId)
+    } catch (e) {
+        console.warn(TAG, 'processWithdrawalQueue failed', { vaultId, err: (e as any)?.message || e })
+    }
+}
+
 export async function createVault(mint: string, creatorUid: string, params: any, name?: string, currency?: string) {
     // Create a unique canonical vaultId for the vault and write the
     // canonical record under `/vaults/<vaultId>`. Do NOT write the
@@ -19,12 +98,10 @@ export async function createVault(mint: string, creatorUid: string, params: any,
     // backwards-compatible with any callers that expect `/vaults/<mint>`,
     // legacy behavior is intentionally not created here; callers should
     // resolve via canonical `vaultId` or other explicit lookups.
-    const db = getAdminDb()
     // No legacy `/vaults/<mint>` creation: we create a canonical `/vaults/<vaultId>` record
     // and a mapping at `/vaultsByMint/<mint>/<vaultId> = true`. Do not write legacy keys.
 
     const vaultId = uuidv4()
-    const vaultPath = `/vaults/${vaultId}`
     const data: any = {
         tokenMint: mint,
         creatorUid,
@@ -34,6 +111,9 @@ export async function createVault(mint: string, creatorUid: string, params: any,
         params,
         status: 'ACTIVE',
         utilBps: 0,
+        totalShares: 0,
+        accruedInterestSol: 0,
+        borrowAprWeight: 0,
         updatedAt: now(),
     }
     if (currency) data.currency = currency
@@ -43,549 +123,1265 @@ export async function createVault(mint: string, creatorUid: string, params: any,
     data.params.closeFeeBps = (data.params.closeFeeBps != null) ? data.params.closeFeeBps : 10
     data.params.ownerKeepPct = (data.params.ownerKeepPct != null) ? data.params.ownerKeepPct : 0.6
     data.params.vaultSharePct = (data.params.vaultSharePct != null) ? data.params.vaultSharePct : 0.7
+    data.params.imrBps = (data.params.imrBps != null) ? data.params.imrBps : DEFAULT_RISK_PARAMS.imrBps
+    data.params.mmrBps = (data.params.mmrBps != null) ? data.params.mmrBps : DEFAULT_RISK_PARAMS.mmrBps
+    data.params.liqBonusBps = (data.params.liqBonusBps != null) ? data.params.liqBonusBps : DEFAULT_RISK_PARAMS.liqBonusBps
+    data.params.maxLevBps = (data.params.maxLevBps != null) ? data.params.maxLevBps : DEFAULT_RISK_PARAMS.maxLevBps
+    for (const k of Object.keys(DEFAULT_RATE_MODEL) as Array<keyof typeof DEFAULT_RATE_MODEL>) {
+        data.params[k] = (data.params[k] != null) ? data.params[k] : DEFAULT_RATE_MODEL[k]
+    }
+    if (data.params.rateKinkBps <= 0 || data.params.rateKinkBps > 10000) throw new Error('rateKinkBps must be in (0, 10000]')
+    if (data.params.mmrBps >= data.params.imrBps) throw new Error('mmrBps must be below imrBps')
 
-    // Prepare multi-path update: only write the canonical vault record.
-    const updates: Record<string, any> = {}
-    updates[vaultPath] = data
-    await db.ref().update(updates)
+    // Only the canonical vault record is written
+    await vaultRepo.create(vaultId, data)
     console.info(TAG, 'createVault', { tokenMint: mint, vaultId, creatorUid, name, currency })
     return { ok: true, vault: data, vaultId }
 }
 
-export async function creatorDeposit(mint: string, amountSol: number, creatorUid: string) {
-    const path = `/vaults/${mint}`
-    const snap = await getAdminDb().ref(path).get()
-    if (!snap.exists()) throw new Error('Vault not found')
-    const v = snap.val()
-    if (v.creatorUid !== creatorUid) throw new Error('not creator')
-    const updates: Record<string, any> = {}
-    updates[`${path}/tvlSol`] = (v.tvlSol || 0) + amountSol
-    updates[`${path}/updatedAt`] = now()
-    const compCreatorPath = `${path}/composition/creator`
-    const prevCreatorSol = (v.composition && v.composition.creator && typeof v.composition.creator.sol === 'number') ? v.composition.creator.sol : 0
-    updates[compCreatorPath] = { uid: creatorUid, sol: prevCreatorSol + amountSol }
-    const eventId = uuidv4()
-    updates[`/trades/${mint}/${eventId}`] = {
-        uid: creatorUid,
-        type: 'DEPOSIT',
-        amount: amountSol,
-        priceUsd: null,
-        pnlSol: null,
-        ts: now(),
+// Mint LP shares at the current NAV for a deposit into `composition/creator` or
+// `composition/contributors/<uid>`; `pickEntry` returns (creating if needed) the entry to credit.
+async function depositIntoVault(vaultId: string, amountSol: number, uid: string, type: string, pickEntry: (v: any) => any | null) {
+    if (!Number.isFinite(amountSol) || amountSol <= 0) throw new Error('invalid_amount')
+    amountSol = roundSol(amountSol)
+    const current = await vaultRepo.get(vaultId)
+    if (!current) throw new Error('Vault not found')
+    if (!pickEntry(current)) throw new Error('not creator')
+    if (!canDeposit(current)) throw new Error('vault_not_accepting_deposits')
+
+    let shares = 0
+    let abort: string | null = null
+    const atMs = now()
+    const txRes = await vaultRepo.transaction(vaultId, (v: any) => {
+        if (v == null) return v
+        const entry = pickEntry(v)
+        if (!entry) return
+        if (!canDeposit(v)) {
+            abort = 'vault_not_accepting_deposits'
+            return
+        }
+        accrueVaultInterest(v, atMs)
+        try {
+            shares = mintShares(v, entry, amountSol, atMs)
+        } catch (e: any) {
+            abort = e?.message || String(e)
+            return
+        }
+        abort = null
+        applyUtilization(v)
+        v.updatedAt = atMs
+        return v
+    })
+    if (!txRes.committed) throw new Error(abort || 'deposit_failed')
+    const vault = txRes.snapshot.val()
+
+    // The caller has already taken `amountSol` out of the user's balance. The
+    // shares are minted, so from here on a failed write is logged rather than
+    // thrown: a throw would have the caller refund a deposit the vault holds.
+    const tradeId = uuidv4()
+    try {
+        await tradeRepo.record(vaultId, tradeId, {
+            uid,
+            type,
+            amount: amountSol,
+            shares,
+            sharePriceSol: amountSol / shares,
+            priceUsd: null,
+            pnlSol: null,
+            ts: atMs,
+        })
+        await recordJournal('vault_deposit', { type: 'trade', id: tradeId }, [{ from: ledgerAccount.user(uid), to: ledgerAccount.vault(vaultId), amountSol }])
+        await recordNav(vaultId, vault, type, atMs)
+    } catch (e) {
+        console.error(TAG, 'deposit committed but its records failed', { vaultId, uid, tradeId, amountSol, shares, err: (e as any)?.message || e })
     }
-    await getAdminDb().ref().update(updates)
-    return { ok: true }
+    await fillQueuedWithdrawals(vaultId)
+    return { ok: true, shares, totalShares: vault.totalShares, sharePriceSol: amountSol / shares }
+}
+
+export async function creatorDeposit(mint: string, amountSol: number, creatorUid: string) {
+    return depositIntoVault(mint, amountSol, creatorUid, 'DEPOSIT', (v: any) => {
+        if (v.creatorUid !== creatorUid) return null
+        v.composition = v.composition || {}
+        v.composition.creator = v.composition.creator || { uid: creatorUid, sol: 0 }
+        return v.composition.creator
+    })
 }
 
 export async function contributorDeposit(mint: string, amountSol: number, uid: string, opts?: { feeKeepPct?: number }) {
-    const path = `/vaults/${mint}`
-    const snap = await getAdminDb().ref(path).get()
-    if (!snap.exists()) throw new Error('Vault not found')
-    const v = snap.val()
-
-    const updates: Record<string, any> = {}
-    updates[`${path}/tvlSol`] = (v.tvlSol || 0) + amountSol
-    updates[`${path}/updatedAt`] = now()
-
-    const contribPath = `${path}/composition/contributors/${uid}`
-    const prev = (v.composition && v.composition.contributors && v.composition.contributors[uid] && typeof v.composition.contributors[uid].sol === 'number') ? v.composition.contributors[uid].sol : 0
-    const prevKeep = (v.composition && v.composition.contributors && v.composition.contributors[uid] && typeof v.composition.contributors[uid].keepPct === 'number') ? v.composition.contributors[uid].keepPct : undefined
-    const keepPct = (typeof opts?.feeKeepPct === 'number') ? opts!.feeKeepPct : (typeof prevKeep === 'number' ? prevKeep : 0.6)
-    updates[contribPath] = { uid, sol: prev + amountSol, keepPct }
-
-    const eventId = uuidv4()
-    updates[`/trades/${mint}/${eventId}`] = {
-        uid,
-        type: 'CONTRIBUTOR_DEPOSIT',
-        amount: amountSol,
-        priceUsd: null,
-        pnlSol: null,
-        ts: now(),
-    }
-    await getAdminDb().ref().update(updates)
-    return { ok: true }
+    return depositIntoVault(mint, amountSol, uid, 'CONTRIBUTOR_DEPOSIT', (v: any) => {
+        v.composition = v.composition || {}
+        v.composition.contributors = v.composition.contributors || {}
+        const prev = v.composition.contributors[uid]
+        const entry = prev || { uid, sol: 0 }
+        const prevKeep = typeof prev?.keepPct === 'number' ? prev.keepPct : undefined
+        entry.keepPct = (typeof opts?.feeKeepPct === 'number') ? opts!.feeKeepPct : (typeof prevKeep === 'number' ? prevKeep : 0.6)
+        v.composition.contributors[uid] = entry
+        return entry
+    })
 }
 
-export async function openLong(uid: string, mint: string, collateralSol: number, leverageBps: number, opts?: { entryPriceUsd?: number, solPriceUsd?: number, rawFrontend?: any }) {
-    let price: number | null = opts && typeof opts.entryPriceUsd === 'number' ? opts.entryPriceUsd : null
-    let solPrice: number | null = opts && typeof opts.solPriceUsd === 'number' ? opts.solPriceUsd : null
+export async function openLong(uid: string, mint: string, collateralSol: number, leverageBps: number, opts?: OpenPositionOpts) {
+    return openPosition('LONG', uid, mint, collateralSol, leverageBps, opts)
+}
+
+// Short: the vault lends token exposure worth `borrowSol`; PnL moves inversely to the mark
+export async function openShort(uid: string, mint: string, collateralSol: number, leverageBps: number, opts?: OpenPositionOpts) {
+    return openPosition('SHORT', uid, mint, collateralSol, leverageBps, opts)
+}
+
+async function openPosition(side: PositionSide, uid: string, mint: string, collateralSol: number, leverageBps: number, opts?: OpenPositionOpts) {
+    // Collateral is held in whole lamports (see lamports.ts)
+    if (Number.isFinite(collateralSol)) collateralSol = roundSol(collateralSol)
 
     // Determine token mint from the vault keyed by `mint` (caller passes vaultId here).
     // If no vault exists at that key, treat `mint` as the token mint (legacy behavior).
-    const db = getAdminDb()
     let tokenMint: string = mint
+    let vaultVal: any = null
     try {
-        const vaultSnap = await db.ref(`/vaults/${mint}`).get()
-        if (vaultSnap.exists()) {
-            const vaultVal = vaultSnap.val()
-            if (vaultVal && vaultVal.tokenMint) tokenMint = vaultVal.tokenMint
-        }
+        vaultVal = await vaultRepo.get(mint)
+        if (vaultVal && vaultVal.tokenMint) tokenMint = vaultVal.tokenMint
     } catch (e) {
         // ignore and fall back to treating `mint` as token mint
     }
 
-    if (price == null || solPrice == null) {
-        const priceSnap = await db.ref(`/price_cache/${tokenMint}`).get()
-        const solSnap = await db.ref(`/price_cache/WSOL_MINT`).get()
-        if (price == null) price = priceSnap.exists() ? priceSnap.val().priceUsd : null
-        if (solPrice == null) solPrice = solSnap.exists() ? solSnap.val().priceUsd : null
+    if (vaultVal && !canOpenPositions(vaultVal)) {
+        const err: any = new Error('vault_not_active')
+        err.vaultStatus = vaultStatus(vaultVal)
+        throw err
     }
-    if (!price || !solPrice) throw new Error('prices unavailable')
 
-    if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
-        console.error(TAG, 'invalid token price from cache', { mint, price })
-        throw new Error('invalid_price')
+    // Enforce the vault's leverage cap and initial margin requirement before touching prices or balances
+    const availableSol = vaultVal ? availableLiquiditySol(vaultVal) : undefined
+    const risk = checkOpenRisk(vaultVal?.params, collateralSol, leverageBps, availableSol)
+    if (!risk.ok) {
+        console.warn(TAG, 'openPosition rejected by vault risk limits', { side, mint, collateralSol, leverageBps, reasons: risk.reasons })
+        const err: any = new Error('risk_limit_exceeded')
+        err.reasons = risk.reasons
+        err.maxLeverageBps = risk.maxLeverageBps
+        throw err
     }
-    if (typeof solPrice !== 'number' || !Number.isFinite(solPrice) || solPrice <= 0) {
-        console.error(TAG, 'invalid sol price from cache', { solPrice })
-        throw new Error('invalid_sol_price')
+
+    // Price the entry from the server mark, as closes are; client-reported
+    // prices are only checked against it
+    const tokenMark = await mark.getTokenMarkUsd(tokenMint)
+    const solMark = await mark.getSolPriceUsd()
+    if (!tokenMark || !solMark) throw new Error('mark_unavailable')
+    const price = tokenMark.markUsd
+    const solPrice = solMark.priceUsd
+    const toleranceBps = typeof vaultVal?.params?.markToleranceBps === 'number' ? vaultVal.params.markToleranceBps : mark.DEFAULT_MARK_TOLERANCE_BPS
+    for (const [name, clientUsd, serverUsd] of [['entryPriceUsd', opts?.entryPriceUsd, price], ['solPriceUsd', opts?.solPriceUsd, solPrice]] as const) {
+        if (typeof clientUsd !== 'number' || !Number.isFinite(clientUsd)) continue
+        const devBps = mark.deviationBps(clientUsd, serverUsd)
+        if (devBps > toleranceBps) {
+            console.warn(TAG, 'openPosition client price rejected', { side, mint, name, clientUsd, serverUsd, devBps, toleranceBps })
+            const err: any = new Error('price_out_of_tolerance')
+            err.field = name
+            err.serverPriceUsd = serverUsd
+            err.clientPriceUsd = clientUsd
+            err.toleranceBps = toleranceBps
+            throw err
+        }
     }
-    const borrowSol = math.computeBorrowSol(collateralSol, leverageBps)
+    const limitPriceUsd = opts?.limitPriceUsd
+    if (typeof limitPriceUsd === 'number' && (side === 'SHORT' ? price < limitPriceUsd : price > limitPriceUsd)) {
+        console.warn(TAG, 'openPosition mark past limit', { side, mint, limitPriceUsd, markUsd: price })
+        const err: any = new Error('limit_not_met')
+        err.limitPriceUsd = limitPriceUsd
+        err.serverPriceUsd = price
+        throw err
+    }
+    const borrowSol = roundSol(math.computeBorrowSol(collateralSol, leverageBps), 'down')
     const sizeToken = math.computeSizeToken(collateralSol, borrowSol, solPrice, price)
 
     if (!Number.isFinite(sizeToken) || sizeToken <= 0 || sizeToken > 1e9) {
         console.error(TAG, 'computed invalid sizeToken', { collateralSol, borrowSol, solPrice, price, sizeToken })
         throw new Error('invalid_size_computed')
     }
+    const triggers = opts?.triggers ? buildTriggers(side, price, opts.triggers) : null
     const posId = uuidv4()
     const entryPriceUsd = price
     const entryTs = now()
-    const interestAprBps = 1000
 
     const position = {
-        side: 'LONG',
+        side,
         collateralSol,
         borrowSol,
+        entryNotionalSol: addSol(collateralSol, borrowSol),
         sizeToken,
         entryPriceUsd,
         entryTs,
-        debtAprBps: interestAprBps,
+        // Fixed for the life of the position from the vault's utilization after this borrow
+        debtAprBps: 0,
         status: 'OPEN',
         lastMarkUsd: price,
         unrealizedPnlSol: 0,
+        triggers,
+        // Borrow is counted in the vault's NAV (see nav.ts); older positions took it out of tvlSol
+        bookedInNav: true,
     }
-    const borrowUsd = borrowSol * solPrice
 
-    const vaultRef = getAdminDb().ref(`/vaults/${mint}`)
-    try {
-        const beforeSnap = await vaultRef.get()
-        const beforeVal = beforeSnap.exists() ? beforeSnap.val() : null
-        try { console.info(TAG, 'vault before borrow tx', JSON.stringify({ mint, beforeVal })) } catch (e) { console.info(TAG, 'vault before borrow tx', { mint, beforeVal }) }
-    } catch (e) {
-        console.warn(TAG, 'failed to read vault before tx', { mint, err: e })
-    }
-    const txResult = await vaultRef.transaction((v: any) => {
-        if (v == null) return v
-        const tvlSol = v.tvlSol || 0
-        const prevBorrows = v.totalBorrowsSol || 0
-        const available = tvlSol - prevBorrows
-        if (available < borrowSol) {
-            return
-        }
-        v.totalBorrowsSol = prevBorrows + borrowSol
-        v.tvlSol = tvlSol - borrowSol
-        if (typeof v.tvlUsd === 'number') {
-            v.tvlUsd = Math.max(0, (v.tvlUsd || 0) - borrowUsd)
+    // Open fee from the vault's fee schedule less the trader's discounts, charged on top of the collateral
+    const vaultParams = (await vaultRepo.getParams(mint)) || {}
+    const traderFees = await getTraderFeeSchedule(vaultParams, uid)
+    const feeBreak: any = { ...openFee(traderFees.schedule, collateralSol, borrowSol, solPrice), feeTier: traderFees.feeTier.tier }
+
+    let composition = await loadVaultComposition(tokenMint)
+    // If composition is empty, fallback to using the vault's creatorUid
+    // so the entire vault share is allocated to that creator automatically.
+    let vaultCreatorUid: string | null = null
+    if (!composition || (!composition.creator && !(composition.contributors && composition.contributors.length > 0))) {
+        try {
+            const vault = await vaultRepo.get(mint)
+            if (vault && vault.creatorUid) {
+                vaultCreatorUid = vault.creatorUid
+                // Use a nominal `sol` of 1 for the synthetic composition when needed
+                composition = { creator: { uid: vault.creatorUid, sol: 1 } }
+                console.info(TAG, 'fee distribution fallback used vault.creatorUid', { mint, creatorUid: vault.creatorUid })
+                try { console.info(TAG, 'distribution source (engine)', JSON.stringify({ mint, vaultCreatorUid: vault.creatorUid, composition })) } catch (e) { console.info(TAG, 'distribution source (engine)', { mint, vaultCreatorUid: vault.creatorUid, composition }) }
+            }
+        } catch (fbErr) {
+            console.warn(TAG, 'failed to fetch vault for composition fallback', { mint, err: fbErr })
         }
-        if (typeof v.tvl === 'number') {
-            v.tvl = Math.max(0, (v.tvl || 0) - borrowUsd)
+    }
+    // Log composition just before distribution to help debug creator allocation
+    try { console.info(TAG, 'distribution composition (engine) before distributeFeeProRataSol', JSON.stringify({ mint, composition, vaultCreatorUid })) } catch (e) { console.info(TAG, 'distribution composition (engine) before distributeFeeProRataSol', { mint, composition, vaultCreatorUid }) }
+    // If we have an authoritative vault creator, allocate the vault share directly to them
+    let ownerDistrib: any = null
+    if (vaultCreatorUid) {
+        ownerDistrib = {
+            totalFeeSol: feeBreak.feeVaultSol,
+            platformSol: 0,
+            creatorSol: feeBreak.feeVaultSol,
+            contributors: [],
+            allocatedSum: feeBreak.feeVaultSol
         }
-        v.updatedAt = now()
-        return v
-    }, undefined, false)
-    try {
-        const afterSnap = await vaultRef.get()
-        const afterVal = afterSnap.exists() ? afterSnap.val() : null
-        try { console.info(TAG, 'vault after borrow tx', JSON.stringify({ mint, committed: txResult?.committed, afterVal })) } catch (e) { console.info(TAG, 'vault after borrow tx', { mint, committed: txResult?.committed, afterVal }) }
-    } catch (e) {
-        console.warn(TAG, 'failed to read vault after tx', { mint, err: e })
+        console.info(TAG, 'authoritative allocation used (engine)', { mint, vaultCreatorUid, creatorSol: ownerDistrib.creatorSol })
+    } else {
+        // Distribute only the vault's share among creator/contributors (owner keep = 100%)
+        ownerDistrib = distributeFeeProRataSol(feeBreak.feeVaultSol, composition, 1.0, 1.0)
     }
-
-    if (!txResult.committed) {
-        throw new Error('insufficient vault capital')
+    // Combine platform amounts: platform gets feePlatformSol plus any platform portion from ownerDistrib
+    const distrib: any = {
+        totalFeeSol: feeBreak.feeSol,
+        platformSol: addSol(feeBreak.feePlatformSol || 0, ownerDistrib.platformSol || 0),
+        creatorSol: ownerDistrib.creatorSol || 0,
+        contributors: ownerDistrib.contributors || [],
+        allocatedSum: (feeBreak.feeSol)
+    }
+    // A referred trader's referrer gets their share out of the platform's part
+    if (traderFees.referral) {
+        const rebate = referralRebateSplit(distrib.platformSol, traderFees.referrerShareBps)
+        distrib.platformSol = rebate.platformSol
+        distrib.referrerUid = traderFees.referral.referrerUid
+        distrib.referrerSol = rebate.referrerSol
     }
 
+    const feeToCollect = feeBreak.feeSol
+    const totalToDeduct = addSol(collateralSol, feeToCollect)
     const tradeId = uuidv4()
 
-    // Declare feeBreak/distrib in outer scope so they are available after the try
-    let feeBreak: any = null
-    let distrib: any = null
+    // Everything after this point runs as a saga (see saga.ts), so a crash
+    // part way through is completed or undone by sagaRecovery
+    const saga = await startSaga<OpenSagaData>('open', { uid, vaultId: mint, posId }, {
+        tradeId,
+        feeId: uuidv4(),
+        totalToDeduct,
+        borrowSol,
+        debtAprBps: 0,
+        reservation: opts?.reservation ?? null,
+        position,
+        trade: {
+            uid,
+            type: `OPEN ${position.side}`,
+            posId,
+            collateralSol,
+            borrowedSol: borrowSol,
+            totalSol: addSol(collateralSol || 0, borrowSol || 0),
+            amount: collateralSol,
+            priceUsd: entryPriceUsd,
+            pnlSol: null,
+            ts: now(),
+            rawFrontend: opts && opts.rawFrontend ? opts.rawFrontend : null,
+        },
+        distrib,
+        referral: traderFees.referral ?? null,
+        notionalSol: feeBreak.notionalSol,
+        feeRecord: {
+            tradeId,
+            event: 'OPEN',
+            uid,
+            mint,
+            notionalUsd: feeBreak.notionalUsd,
+            feeUsd: feeBreak.feeUsd,
+            feeSol: feeBreak.feeSol,
+            feeTier: feeBreak.feeTier,
+            discountBps: feeBreak.discountBps,
+            distrib,
+            usedSolPrice: feeBreak.usedSolPrice,
+            ts: Date.now(),
+            status: 'confirmed'
+        },
+    })
 
     try {
-        const notionalUsd = entryPriceUsd * sizeToken
-        const priceSol = solPrice
-        const vaultParamsSnap = await getAdminDb().ref(`/vaults/${mint}/params`).get()
-        const vaultParams = vaultParamsSnap.exists() ? vaultParamsSnap.val() : {}
-        const feeBps = typeof vaultParams.openFeeBps === 'number' ? vaultParams.openFeeBps : 10
-        const vaultSharePct = typeof vaultParams.vaultSharePct === 'number' ? vaultParams.vaultSharePct : 0.7
-        const ownerKeepPct = typeof vaultParams.ownerKeepPct === 'number' ? vaultParams.ownerKeepPct : 0.6
-
-        // Charge trader 10% of their collateral (in SOL) as the total fee.
-        // feeSol = collateralSol * 0.10
-        const feeSol = (collateralSol || 0) * 0.10
-        const feeUsd = feeSol * priceSol
-        const feeVaultSol = feeSol * vaultSharePct
-        const feePlatformSol = feeSol - feeVaultSol
-        feeBreak = {
-            notionalUsd,
-            feeBps,
-            feeUsd,
-            feeSol,
-            feeVaultSol,
-            feePlatformSol,
-            usedSolPrice: priceSol
-        }
-
-        let composition = await loadVaultComposition(tokenMint)
-        // If composition is empty, fallback to using the vault's creatorUid
-        // so the entire vault share is allocated to that creator automatically.
-        let vaultCreatorUid: string | null = null
-        if (!composition || (!composition.creator && !(composition.contributors && composition.contributors.length > 0))) {
+        await runStep(saga, 'borrow', async () => {
             try {
-                const vaultSnap = await getAdminDb().ref(`/vaults/${mint}`).get()
-                if (vaultSnap.exists()) {
-                    const vault = vaultSnap.val()
-                    if (vault && vault.creatorUid) {
-                        vaultCreatorUid = vault.creatorUid
-                        // Use a nominal `sol` of 1 for the synthetic composition when needed
-                        composition = { creator: { uid: vault.creatorUid, sol: 1 } }
-                        console.info(TAG, 'fee distribution fallback used vault.creatorUid', { mint, creatorUid: vault.creatorUid })
-                        try { console.info(TAG, 'distribution source (engine)', JSON.stringify({ mint, vaultCreatorUid: vault.creatorUid, composition })) } catch (e) { console.info(TAG, 'distribution source (engine)', { mint, vaultCreatorUid: vault.creatorUid, composition }) }
-                    }
+                const beforeVal = await vaultRepo.get(mint)
+                try { console.info(TAG, 'vault before borrow tx', JSON.stringify({ mint, beforeVal })) } catch (e) { console.info(TAG, 'vault before borrow tx', { mint, beforeVal }) }
+            } catch (e) {
+                console.warn(TAG, 'failed to read vault before tx', { mint, err: e })
+            }
+            let borrowAbort: string | null = null
+            const txResult = await vaultRepo.transaction(mint, (v: any) => {
+                if (v == null) return v
+                // The vault may have been paused since it was read above
+                if (!canOpenPositions(v)) {
+                    borrowAbort = 'vault_not_active'
+                    return
+                }
+                borrowAbort = null
+                const prevBorrows = v.totalBorrowsSol || 0
+                const available = availableLiquiditySol(v)
+                if (available < borrowSol) {
+                    return
                 }
-            } catch (fbErr) {
-                console.warn(TAG, 'failed to fetch vault for composition fallback', { mint, err: fbErr })
+                // Lent SOL stays part of the vault's capital (`tvlSol`); only borrows move
+                v.totalBorrowsSol = addSol(prevBorrows, borrowSol)
+                applyUtilization(v)
+                // Book this borrow's interest into the vault NAV at the rate the position is charged
+                accrueVaultInterest(v, entryTs)
+                v.borrowAprWeight = (v.borrowAprWeight || 0) + borrowSol * borrowAprBps(v.params, v.utilBps)
+                v.updatedAt = now()
+                return v
+            }, false)
+            try {
+                const afterVal = await vaultRepo.get(mint)
+                try { console.info(TAG, 'vault after borrow tx', JSON.stringify({ mint, committed: txResult?.committed, afterVal })) } catch (e) { console.info(TAG, 'vault after borrow tx', { mint, committed: txResult?.committed, afterVal }) }
+            } catch (e) {
+                console.warn(TAG, 'failed to read vault after tx', { mint, err: e })
             }
-        }
-        // Log composition just before distribution to help debug creator allocation
-        try { console.info(TAG, 'distribution composition (engine) before distributeFeeProRataSol', JSON.stringify({ mint, composition, vaultCreatorUid })) } catch (e) { console.info(TAG, 'distribution composition (engine) before distributeFeeProRataSol', { mint, composition, vaultCreatorUid }) }
-        // If we have an authoritative vault creator, allocate the vault share directly to them
-        let ownerDistrib: any = null
-        if (vaultCreatorUid) {
-            ownerDistrib = {
-                totalFeeSol: feeBreak.feeVaultSol,
-                platformSol: 0,
-                creatorSol: feeBreak.feeVaultSol,
-                contributors: [],
-                allocatedSum: feeBreak.feeVaultSol
+
+            if (!txResult.committed) {
+                throw new Error(borrowAbort || 'insufficient vault capital')
+            }
+            const borrowedVault = txResult.snapshot.val()
+            return { debtAprBps: borrowAprBps(borrowedVault?.params, borrowedVault?.utilBps || 0) }
+        })
+        position.debtAprBps = saga.data.debtAprBps
+
+        const reservation = saga.data.reservation
+        if (reservation) {
+            await runStep(saga, 'consume', () => consumeReservation(saga))
+            // The fee may have moved since the order was placed; the balance covers any difference
+            const topupSol = addSol(totalToDeduct, -reservation.reservedSol)
+            if (topupSol > 0) {
+                await runStep(saga, 'topup', async () => {
+                    if (!(await balanceRepo.debit(uid, topupSol, 'order_fill_topup'))) throw new Error('insufficient_balance')
+                })
             }
-            console.info(TAG, 'authoritative allocation used (engine)', { mint, vaultCreatorUid, creatorSol: ownerDistrib.creatorSol })
         } else {
-            // Distribute only the vault's share among creator/contributors (owner keep = 100%)
-            ownerDistrib = distributeFeeProRataSol(feeBreak.feeVaultSol, composition, 1.0, 1.0)
-        }
-        // Combine platform amounts: platform gets feePlatformSol plus any platform portion from ownerDistrib
-        distrib = {
-            totalFeeSol: feeBreak.feeSol,
-            platformSol: (feeBreak.feePlatformSol || 0) + (ownerDistrib.platformSol || 0),
-            creatorSol: ownerDistrib.creatorSol || 0,
-            contributors: ownerDistrib.contributors || [],
-            allocatedSum: (feeBreak.feeSol)
-        }
+            await runStep(saga, 'deduct', async () => {
+                try {
+                    const balVal = await balanceRepo.get(uid)
+                    console.info(TAG, 'balance deduction attempt', { uid, collateralSol, feeToCollect, totalToDeduct, balanceBefore: balVal })
+                } catch (readErr) {
+                    console.warn(TAG, 'failed to read balance before deduction tx', readErr)
+                }
 
-        const balanceRef = getAdminDb().ref(`/users/${uid}/balance`)
-        const feeToCollect = feeBreak.feeSol
-        const totalToDeduct = collateralSol + feeToCollect
+                // NOTE: client will perform balance validation. Rely on the atomic
+                // transaction below to fail if the balance is insufficient instead
+                // of performing a pre-check here which can introduce race conditions.
 
-        try {
-            const balSnap = await balanceRef.get()
-            const balVal = balSnap.exists() ? balSnap.val() : null
-            console.info(TAG, 'balance deduction attempt', { uid, collateralSol, feeToCollect, totalToDeduct, balanceBefore: balVal })
-        } catch (readErr) {
-            console.warn(TAG, 'failed to read balance before deduction tx', readErr)
-        }
+                // Debug: log fee breakdown and a fresh balance read so we can inspect
+                // exact values leading to any `insufficient_balance` errors.
+                try {
+                    // Stringify to avoid logger truncation in hosting platforms
+                    try { console.info(TAG, 'feeBreak', JSON.stringify(feeBreak)) } catch (sErr) { console.info(TAG, 'feeBreak', feeBreak) }
+                    const curVal = await balanceRepo.get(uid)
+                    try { console.info(TAG, 'balance before deduction tx (fresh read)', JSON.stringify({ uid, totalToDeduct, balance: curVal })) } catch (sErr) { console.info(TAG, 'balance before deduction tx (fresh read)', { uid, totalToDeduct, balance: curVal }) }
+                } catch (dbgErr) {
+                    console.warn(TAG, 'failed to perform debug balance read', dbgErr)
+                }
 
-        // NOTE: client will perform balance validation. Rely on the atomic
-        // transaction below to fail if the balance is insufficient instead
-        // of performing a pre-check here which can introduce race conditions.
+                const debited = await balanceRepo.debit(uid, totalToDeduct, 'collateral_and_fee_deduction')
 
-        // Debug: log fee breakdown and a fresh balance read so we can inspect
-        // exact values leading to any `insufficient_balance` errors.
-        try {
-            // Stringify to avoid logger truncation in hosting platforms
-            try { console.info(TAG, 'feeBreak', JSON.stringify(feeBreak)) } catch (sErr) { console.info(TAG, 'feeBreak', feeBreak) }
-            const curSnap = await balanceRef.get()
-            const curVal = curSnap.exists() ? curSnap.val() : null
-            try { console.info(TAG, 'balance before deduction tx (fresh read)', JSON.stringify({ uid, totalToDeduct, balance: curVal })) } catch (sErr) { console.info(TAG, 'balance before deduction tx (fresh read)', { uid, totalToDeduct, balance: curVal }) }
-        } catch (dbgErr) {
-            console.warn(TAG, 'failed to perform debug balance read', dbgErr)
+                if (!debited) {
+                    // Read current balance to include in the error for debugging/client handling
+                    let curVal: any = null
+                    try {
+                        curVal = await balanceRepo.get(uid)
+                    } catch { /* ignore */ }
+
+                    try { console.warn(TAG, 'collateral+fee deduction failed - current balance', JSON.stringify({ uid, curVal, required: totalToDeduct })) } catch (e) { console.warn(TAG, 'collateral+fee deduction failed - current balance', { uid, curVal, required: totalToDeduct }) }
+
+                    const err: any = new Error('insufficient_balance')
+                    err.feeBreak = feeBreak
+                    err.currentBalance = curVal
+                    err.required = totalToDeduct
+                    throw err
+                }
+            })
         }
 
-        const txRes = await transactionWithReadGuard(balanceRef, (cur: number) => {
-            if (cur < totalToDeduct) return undefined
-            return cur - totalToDeduct
-        }, { attempts: 6, backoffMs: 50, tag: 'collateral_and_fee_deduction' })
+        await runStep(saga, 'position', () => writeOpenPosition(saga))
+    } catch (err) {
+        await compensateOpen(saga, err).catch((e) => console.error(TAG, 'open compensation failed, left for recovery', { sagaId: saga.sagaId, err: e }))
+        throw err
+    }
 
-        if (!txRes || !(txRes as any).committed) {
-            // Read current balance to include in the error for debugging/client handling
-            let curVal: any = null
-            try {
-                const curSnap = await balanceRef.get()
-                curVal = curSnap.exists() ? curSnap.val() : null
-            } catch { /* ignore */ }
+    // The position is open; fees that fail to credit here are credited by recovery
+    try {
+        await completeOpen(saga)
+    } catch (err) {
+        console.error(TAG, 'open fee crediting failed, left for recovery', { sagaId: saga.sagaId, err })
+        await noteSagaError(saga, err)
+    }
 
-            try { console.warn(TAG, 'collateral+fee deduction failed - current balance', JSON.stringify({ uid, curVal, required: totalToDeduct })) } catch (e) { console.warn(TAG, 'collateral+fee deduction failed - current balance', { uid, curVal, required: totalToDeduct }) }
+    // Return fee breakdown and distribution so clients can display/record fees
+    return { ok: true, posId, position, feeBreak, distrib }
+}
 
-            const err: any = new Error('insufficient_balance')
-            err.feeBreak = feeBreak
-            err.currentBalance = curVal
-            err.required = totalToDeduct
-            throw err
-        }
+interface OpenSagaData {
+    tradeId: string
+    feeId: string
+    totalToDeduct: number
+    borrowSol: number
+    // Set by the borrow step
+    debtAprBps: number
+    reservation: OrderReservation | null
+    position: any
+    trade: any
+    distrib: any
+    referral: Referral | null
+    notionalSol: number
+    feeRecord: any
+}
 
-        const db = getAdminDb()
-        if (distrib.creatorSol > 0) {
-            const creatorRef = db.ref(`/vaults/${mint}/feesForCreator`)
-            await creatorRef.transaction((curr: any) => {
-                const cur = coerceNum(curr)
-                return cur + distrib.creatorSol
-            })
-        }
+// Write the position and its trade together; the open's commit step
+async function writeOpenPosition(saga: Saga<OpenSagaData>) {
+    const { uid, vaultId: mint, posId } = saga
+    const d = saga.data
+    await getStore().ref().update({
+        [positionRepo.path(uid, mint, posId)]: { ...d.position, debtAprBps: d.debtAprBps },
+        [tradeRepo.path(mint, d.tradeId)]: d.trade,
+    })
+}
 
-        for (const c of distrib.contributors) {
-            const contribPath = `/vaults/${mint}/composition/contributors/${c.uid}/claimable`
-            const contribRef = db.ref(contribPath)
-            await contribRef.transaction((curr: any) => {
-                const cur = coerceNum(curr)
-                return cur + (c.sol || 0)
-            })
+// Take a FILLING order's reservation for this open; fails once the order was settled otherwise
+async function consumeReservation(saga: Saga<OpenSagaData>) {
+    const res = await orderRepo.transaction(saga.vaultId, saga.data.reservation!.orderId, (o: any) => {
+        if (o == null) return o
+        if (o.status !== 'FILLING' || o.consumedBy) return
+        o.consumedBy = saga.sagaId
+        return o
+    })
+    if (!res.committed || res.snapshot.val()?.consumedBy !== saga.sagaId) throw new Error('order_not_fillable')
+}
+
+// Credit the fees of an open whose position has been written
+async function completeOpen(saga: Saga<OpenSagaData>) {
+    const { uid, vaultId: mint } = saga
+    const d = saga.data
+    const distrib = d.distrib
+    const contributors: any[] = distrib.contributors || []
+
+    // A filled order's reservation pays for the open; anything it over-reserved goes back to the balance
+    const reservation = d.reservation
+    if (reservation) {
+        await runStep(saga, 'order_journal', async () => {
+            await recordJournal('order_fill', { type: 'order', id: reservation.orderId }, [{ from: ledgerAccount.orders(mint), to: ledgerAccount.user(uid), amountSol: reservation.reservedSol }])
+        })
+        const excessSol = addSol(reservation.reservedSol, -d.totalToDeduct)
+        if (excessSol > 0) {
+            await runStep(saga, 'reservation_refund', () => balanceRepo.credit(uid, excessSol))
         }
+    }
 
-        const platformRef = db.ref(`/platform/treasury/fees`)
-        await platformRef.transaction((curr: any) => {
-            const cur = coerceNum(curr)
-            return cur + distrib.platformSol
+    if (distrib.creatorSol > 0) {
+        await runStep(saga, 'creator_fee', async () => {
+            await vaultRepo.creditCreatorFees(mint, distrib.creatorSol)
+        })
+    }
+    for (const [i, c] of contributors.entries()) {
+        await runStep(saga, `contributor_fee_${i}`, async () => {
+            await vaultRepo.creditContributorFees(mint, c.uid, c.sol || 0)
         })
+    }
+    if (distrib.referrerUid && d.referral) {
+        await runStep(saga, 'referral_rebate', () => creditReferralRebate(d.referral!, uid, distrib.referrerSol, d.notionalSol, 'open_fee'))
+    }
 
-        const feeId = uuidv4()
-        await db.ref(`/fees/${feeId}`).set({
-            tradeId,
-            event: 'OPEN',
-            uid,
-            mint,
-            notionalUsd,
-            feeUsd: feeBreak.feeUsd,
-            feeSol: feeBreak.feeSol,
-            distrib,
-            usedSolPrice: feeBreak.usedSolPrice,
-            ts: Date.now(),
-            status: 'confirmed'
+    const user = ledgerAccount.user(uid)
+    const tradeRef: LedgerRef = { type: 'trade', id: d.tradeId }
+    await runStep(saga, 'journal', async () => {
+        await recordJournal('position_open', tradeRef, [
+            { from: user, to: ledgerAccount.margin(mint), amountSol: d.position.collateralSol },
+            { from: user, to: ledgerAccount.vaultFees(mint), amountSol: addSol(distrib.creatorSol, ...contributors.map((c: any) => c.sol || 0)) },
+            { from: user, to: ledgerAccount.referral(distrib.referrerUid), amountSol: distrib.referrerSol || 0 },
+            { from: user, to: ledgerAccount.treasury, amountSol: distrib.platformSol },
+        ])
+    })
+    await runStep(saga, 'platform_fee', async () => {
+        await creditPlatformFees(distrib.platformSol, 'open_fee', tradeRef)
+    })
+    await runStep(saga, 'fee_record', () => feeRepo.record(d.feeId, d.feeRecord))
+    await finishSaga(saga, 'DONE')
+}
+
+// Undo an open that stopped before its position was written: refund the
+// balance deduction (or hand a filled order back its reservation) and return
+// the borrow to the vault
+async function compensateOpen(saga: Saga<OpenSagaData>, cause?: any) {
+    const d = saga.data
+    if (saga.steps.deduct === 'done') {
+        await runStep(saga, 'refund', async () => {
+            await balanceRepo.credit(saga.uid, d.totalToDeduct)
         })
-    } catch (feeErr) {
-        try {
-            await vaultRef.transaction((v: any) => {
+    }
+    if (saga.steps.topup === 'done') {
+        await runStep(saga, 'topup_refund', () => balanceRepo.credit(saga.uid, addSol(d.totalToDeduct, -d.reservation!.reservedSol)))
+    }
+    if (saga.steps.consume === 'done') {
+        await runStep(saga, 'unconsume', async () => {
+            await orderRepo.transaction(saga.vaultId, d.reservation!.orderId, (o: any) => {
+                if (o == null) return o
+                if (o.consumedBy !== saga.sagaId) return
+                o.consumedBy = null
+                return o
+            })
+        })
+    }
+    if (saga.steps.borrow === 'done') {
+        await runStep(saga, 'unborrow', async () => {
+            await vaultRepo.transaction(saga.vaultId, (v: any) => {
                 if (v == null) return v
-                v.totalBorrowsSol = Math.max(0, (v.totalBorrowsSol || 0) - borrowSol)
-                v.tvlSol = (v.tvlSol || 0) + borrowSol
-                if (typeof v.tvlUsd === 'number') v.tvlUsd = Math.max(0, (v.tvlUsd || 0) + borrowUsd)
-                if (typeof v.tvl === 'number') v.tvl = Math.max(0, (v.tvl || 0) + borrowUsd)
+                v.totalBorrowsSol = Math.max(0, addSol(v.totalBorrowsSol || 0, -d.borrowSol))
+                accrueVaultInterest(v, now())
+                v.borrowAprWeight = Math.max(0, (v.borrowAprWeight || 0) - d.borrowSol * d.debtAprBps)
+                applyUtilization(v)
                 v.updatedAt = now()
                 return v
             })
-        } catch (revertErr) {
-            console.error('Failed to revert vault after fee error', revertErr)
-        }
-        throw feeErr
+        })
     }
+    await finishSaga(saga, 'COMPENSATED', cause ? (cause?.message || String(cause)) : null)
+}
 
-    const updates: Record<string, any> = {}
-    updates[`/positions/${uid}/${mint}/${posId}`] = position
+export async function closeLong(uid: string, vaultId: string, posId: string, opts?: ClosePositionOpts) {
+    return closePosition(uid, vaultId, posId, { ...opts, side: 'LONG' })
+}
 
-    const totalSol = (collateralSol || 0) + (borrowSol || 0)
-    updates[`/trades/${mint}/${tradeId}`] = {
-        uid,
-        type: `OPEN ${position.side}`,
-        posId,
-        collateralSol,
-        borrowedSol: borrowSol,
-        totalSol,
-        amount: collateralSol,
-        priceUsd: entryPriceUsd,
-        pnlSol: null,
-        ts: now(),
-        rawFrontend: opts && opts.rawFrontend ? opts.rawFrontend : null,
-    }
+export async function closeShort(uid: string, vaultId: string, posId: string, opts?: ClosePositionOpts) {
+    return closePosition(uid, vaultId, posId, { ...opts, side: 'SHORT' })
+}
 
-    await getAdminDb().ref().update(updates)
-    // Return fee breakdown and distribution so clients can display/record fees
-    return { ok: true, posId, position, feeBreak, distrib }
+// Times a close re-values a position that changed while it was being valued
+const CLOSE_ATTEMPTS = 3
+
+/**
+ * Close a position of either side, fully or partially. When `opts.side` is
+ * given the position must match it; the liquidation keeper closes without a
+ * side. A partial close settles `fraction` of collateral, borrow, size and
+ * accrued interest and leaves the remainder OPEN.
+ */
+export async function closePosition(uid: string, vaultId: string, posId: string, opts?: ClosePositionOpts & { side?: PositionSide }) {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await closePositionOnce(uid, vaultId, posId, opts)
+        } catch (err: any) {
+            if (err?.message !== 'position_changed' || attempt >= CLOSE_ATTEMPTS) throw err
+            console.warn(TAG, 'position changed while closing, re-valuing', { uid, vaultId, posId, attempt })
+        }
+    }
 }
 
-export async function closeLong(uid: string, vaultId: string, posId: string, opts?: { liquidated?: boolean, currentValueSol?: number, solPriceUsd?: number, markUsd?: number }) {
-    const db = getAdminDb()
+async function closePositionOnce(uid: string, vaultId: string, posId: string, opts?: ClosePositionOpts & { side?: PositionSide }) {
     const liquidated = opts?.liquidated ?? false
 
     // 1. Fetch position
-    const posPath = `/positions/${uid}/${vaultId}/${posId}`
-    const posSnap = await db.ref(posPath).get()
-    if (!posSnap.exists()) {
+    const position = await positionRepo.get(uid, vaultId, posId)
+    if (!position) {
         throw new Error('position_not_found')
     }
-    const position = posSnap.val()
     if (position.status !== 'OPEN') {
         throw new Error('position_not_open')
     }
-
-    // 2. Validate currentValueSol from frontend (required for normal close, optional for liquidation)
-    const currentValueSol = opts?.currentValueSol ?? 0
-    if (!liquidated && (typeof currentValueSol !== 'number' || !Number.isFinite(currentValueSol) || currentValueSol < 0)) {
-        throw new Error('currentValueSol_required')
+    const side: PositionSide = position.side === 'SHORT' ? 'SHORT' : 'LONG'
+    if (opts?.side && opts.side !== side) {
+        throw new Error('position_side_mismatch')
     }
 
+    // Liquidations, fired triggers and wind-downs always close the whole position
+    const trigger: FiredTrigger | null = (!liquidated && opts?.trigger) ? { ...opts.trigger } : null
+    const windDown = !liquidated && !!opts?.windDown
+    const fraction = (liquidated || trigger || windDown) ? 1 : resolveCloseFraction(position.sizeToken, opts)
+    const partial = fraction < 1
+
     // Get vault for reference
-    const vaultSnap = await db.ref(`/vaults/${vaultId}`).get()
-    if (!vaultSnap.exists()) {
+    const vault = await vaultRepo.get(vaultId)
+    if (!vault) {
         throw new Error('vault_not_found')
     }
+    const tokenMint: string = vault.tokenMint || vaultId
 
-    const { collateralSol, borrowSol, sizeToken, entryPriceUsd } = position
-    const notionalSol = collateralSol + borrowSol  // Original position size in SOL
+    // 2. Value the position from the server mark. The client-reported
+    // `currentValueSol` is only checked against it, never paid out.
+    let valuation: mark.PositionValuation
+    try {
+        valuation = await mark.valuePositionSol(tokenMint, position.sizeToken, { side: position.side, buybackSol: entryNotionalSol(position) })
+    } catch (e: any) {
+        if (!(windDown && opts?.settlePriceUsd != null && e?.message === 'mark_unavailable')) throw e
+        valuation = await mark.valueAtPriceSol(position.sizeToken, opts.settlePriceUsd)
+    }
+    const clientValueSol = (typeof opts?.currentValueSol === 'number' && Number.isFinite(opts.currentValueSol)) ? opts.currentValueSol : null
+    if (!liquidated && clientValueSol != null) {
+        const toleranceBps = typeof vault.params?.markToleranceBps === 'number' ? vault.params.markToleranceBps : mark.DEFAULT_MARK_TOLERANCE_BPS
+        const devBps = mark.deviationBps(clientValueSol, valuation.valueSol)
+        if (devBps > toleranceBps) {
+            console.warn(TAG, 'closePosition client value rejected', { side, uid, vaultId, posId, clientValueSol, serverValueSol: valuation.valueSol, devBps, toleranceBps })
+            const err: any = new Error('current_value_out_of_tolerance')
+            err.serverValueSol = valuation.valueSol
+            err.clientValueSol = clientValueSol
+            err.toleranceBps = toleranceBps
+            throw err
+        }
+    }
+    const currentValueSol = valuation.valueSol
+    const priceSource = valuation.source
+    const markUsd = valuation.markUsd
+    const solPriceUsd = valuation.solPriceUsd
+    const closedAt = now()
 
-    // 3. Return borrowed SOL to vault - ALWAYS happens regardless of liquidation
-    const vaultRef = db.ref(`/vaults/${vaultId}`)
-    await vaultRef.transaction((v: any) => {
-        if (v == null) return v
-        // Add borrow back to TVL
-        v.tvlSol = (v.tvlSol || 0) + borrowSol
-        // Subtract from totalBorrowsSol
-        v.totalBorrowsSol = Math.max(0, (v.totalBorrowsSol || 0) - borrowSol)
-        v.updatedAt = now()
-        return v
-    })
+    // A liquidation is only allowed once the margin ratio is under the vault's mmrBps
+    const health = assessPosition(position, vault.params, currentValueSol, closedAt)
+    if (liquidated && !health.liquidatable) {
+        const err: any = new Error('position_not_liquidatable')
+        err.mrBps = health.mrBps
+        err.mmrBps = health.mmrBps
+        throw err
+    }
+    // The watcher fires on a cached mark; only settle if the fresh mark still crosses a trigger
+    if (trigger) {
+        const check = (markUsd != null && hasTriggers(position.triggers)) ? evaluateTriggers(side, position.triggers, markUsd, closedAt) : { fired: null }
+        if (!check.fired) {
+            const err: any = new Error('trigger_not_hit')
+            err.markUsd = markUsd
+            throw err
+        }
+        trigger.markUsd = markUsd!
+    }
 
-    // 4. Calculate PnL and handle payouts
-    let pnlSol = 0
+    const { entryPriceUsd } = position
+    // Amounts settled by this close (the whole position unless partial), in whole lamports
+    const portionSol = (sol: number) => partial ? roundSol(sol * fraction) : roundSol(sol)
+    const collateralSol = portionSol(position.collateralSol)
+    const borrowSol = portionSol(position.borrowSol)
+    const sizeToken = position.sizeToken * fraction
+    const notionalSol = portionSol(entryNotionalSol(position))  // Entry size in SOL of the closed portion
+    const closedValueSol = currentValueSol * fraction
+
+    // 3. Calculate PnL and borrow interest. The vault is the trader's counterparty:
+    // it keeps whatever collateral the trader loses and pays out what they gain.
+    // Interest owed rounds up and trader PnL rounds down (see lamports.ts)
+    const interestSol = roundSol(health.interestSol * fraction, 'up')
     let creatorFeeSol = 0
     let platformFeeSol = 0
-    let userPayoutSol = 0
+    let referrerSol = 0
+    let liquidationBonusSol = 0
+    // Longs gain when the position value rises above the entry notional, shorts when it falls
+    const pnlSol = roundSol(side === 'SHORT' ? notionalSol - closedValueSol : closedValueSol - notionalSol, 'down')
+    const equitySol = Math.max(0, addSol(collateralSol, pnlSol))
+    const interestPaidSol = Math.min(interestSol, equitySol)
+    const vaultPnlSol = addSol(collateralSol, -equitySol)
+    let userPayoutSol = addSol(equitySol, -interestPaidSol)
+
+    // Booked interest the trader cannot pay is bad debt: the insurance fund
+    // covers what it can and the vault's LPs absorb the rest
+    const shortfall = closeShortfall(collateralSol, pnlSol, interestSol, interestPaidSol, !!position.bookedInNav)
+
+    // Close and performance fees from the vault's fee schedule, with the trader's
+    // discounts. Liquidations pay the liquidation bonus instead. The LPs' share
+    // of the close fee stays in the vault.
+    const traderFees = liquidated ? null : await getTraderFeeSchedule(vault.params, uid)
+    const feeTier = traderFees ? traderFees.feeTier : null
+    const discountBps = traderFees ? traderFees.schedule.discountBps : 0
+    const referrerUid = traderFees?.referral ? traderFees.referral.referrerUid : null
+    const fees = traderFees ? closeFees(traderFees.schedule, closedValueSol, pnlSol, userPayoutSol, solPriceUsd ?? 0) : null
+    const closeFeeSol = fees ? fees.closeFee.feeSol : 0
+    const closeFeeVaultSol = fees ? fees.closeFee.feeVaultSol : 0
 
     if (liquidated) {
-        // LIQUIDATION: User loses everything, vault gets its borrow back (already done above)
-        // PnL is the full loss (negative of collateral since they lose it all)
-        pnlSol = -collateralSol
-        userPayoutSol = 0  // User gets nothing
-
-        console.info(TAG, 'closeLong LIQUIDATION', {
-            uid, vaultId, posId,
-            currentValueSol, borrowSol, collateralSol,
-            userLoss: collateralSol
-        })
-    } else {
-        // NORMAL CLOSE: Calculate PnL and distribute
-        pnlSol = currentValueSol - notionalSol
+        // LIQUIDATION: the liquidation bonus (liqBonusBps of the position value) is taken
+        // from what is left of the trader's equity; the trader keeps any remainder.
+        const { liqBonusBps } = riskParams(vault.params)
+        liquidationBonusSol = Math.min(roundSol((closedValueSol * liqBonusBps) / 10000, 'up'), userPayoutSol)
+        userPayoutSol = addSol(userPayoutSol, -liquidationBonusSol)
 
-        console.info(TAG, 'closeLong calculation', {
-            uid, vaultId, posId,
-            currentValueSol, notionalSol, collateralSol, borrowSol,
-            pnlSol
+        console.info(TAG, 'closePosition LIQUIDATION', {
+            side, uid, vaultId, posId,
+            currentValueSol, borrowSol, collateralSol, interestSol, interestPaidSol,
+            mrBps: health.mrBps, mmrBps: health.mmrBps, liquidationBonusSol, userPayoutSol
+        })
+    } else if (fees) {
+        // NORMAL CLOSE: close fee, plus performance fees on positive PnL
+        console.info(TAG, 'closePosition calculation', {
+            side, uid, vaultId, posId,
+            currentValueSol, fraction, closedValueSol, notionalSol, collateralSol, borrowSol,
+            pnlSol, interestSol, interestPaidSol
         })
 
-        // Calculate fees (only from positive PnL)
-        userPayoutSol = currentValueSol  // Start with full current value
-
-        if (pnlSol > 0) {
-            // 10% of PnL goes to creator
-            creatorFeeSol = pnlSol * 0.10
-            // 5% of PnL goes to platform
-            platformFeeSol = pnlSol * 0.05
-            // User gets currentValue minus fees
-            userPayoutSol = currentValueSol - creatorFeeSol - platformFeeSol
+        creatorFeeSol = fees.creatorPerfFeeSol
+        platformFeeSol = addSol(fees.platformPerfFeeSol, fees.closeFee.feePlatformSol)
+        userPayoutSol = addSol(userPayoutSol, -fees.totalFeeSol)
+        // A referred trader's referrer gets their share out of the platform's part
+        if (traderFees?.referral) {
+            const rebate = referralRebateSplit(platformFeeSol, traderFees.referrerShareBps)
+            platformFeeSol = rebate.platformSol
+            referrerSol = rebate.referrerSol
         }
-        // If pnlSol <= 0, no fees taken, user just gets currentValueSol
 
-        console.info(TAG, 'closeLong fees', {
-            pnlSol, creatorFeeSol, platformFeeSol, userPayoutSol,
+        console.info(TAG, 'closePosition fees', {
+            pnlSol, closeFeeSol, closeFeeVaultSol, creatorFeeSol, platformFeeSol, referrerSol, interestPaidSol, userPayoutSol,
             pnlPositive: pnlSol > 0
         })
+    }
 
-        // Add creator fee to vault's feesForCreator
-        if (creatorFeeSol > 0) {
-            const creatorFeeRef = db.ref(`/vaults/${vaultId}/feesForCreator`)
-            await creatorFeeRef.transaction((curr: any) => {
-                const cur = coerceNum(curr)
-                return cur + creatorFeeSol
+    // 4. Settle. Everything from the claim on runs as a saga (see saga.ts), so
+    // a crash part way through is completed or undone by sagaRecovery
+    const saga = await startSaga<CloseSagaData>('close', { uid, vaultId, posId }, { tradeId: uuidv4(), feeId: uuidv4(), insuranceCoveredSol: 0, sharePriceSol: null, plan: null })
+    const { tradeId } = saga.data
+    let settledVault: any = null
+    try {
+        // Claim the position so a concurrent close (user or keeper) cannot settle it
+        // twice, and only as valued: a margin change or another partial close in
+        // the meantime sends the close back to re-value it
+        await runStep(saga, 'claim', async () => {
+            let abort = 'position_not_open'
+            const claimRes = await positionRepo.transaction(uid, vaultId, posId, (cur: any) => {
+                if (cur == null) return cur
+                if (cur.status !== 'OPEN') {
+                    abort = 'position_not_open'
+                    return
+                }
+                if (cur.collateralSol !== position.collateralSol || cur.borrowSol !== position.borrowSol || cur.sizeToken !== position.sizeToken) {
+                    abort = 'position_changed'
+                    return
+                }
+                cur.status = 'CLOSING'
+                return cur
             })
-        }
+            if (!claimRes.committed || claimRes.snapshot.val()?.status !== 'CLOSING') {
+                throw new Error(abort)
+            }
+        })
 
-        // Add platform fee to treasury
-        if (platformFeeSol > 0) {
-            const platformRef = db.ref(`/platform/treasury/fees`)
-            await platformRef.transaction((curr: any) => {
-                const cur = coerceNum(curr)
-                return cur + platformFeeSol
-            })
-        }
+        await runStep(saga, 'insurance', async () => ({ insuranceCoveredSol: await drawInsurance(shortfall.shortfallSol) }))
+        const insuranceCoveredSol = saga.data.insuranceCoveredSol
+        const socializedSol = addSol(shortfall.shortfallSol, -insuranceCoveredSol)
 
-        // Credit user balance with payout (currentValue minus fees)
-        if (userPayoutSol > 0) {
-            const balanceRef = db.ref(`/users/${uid}/balance`)
-            await balanceRef.transaction((curr: any) => {
-                const cur = coerceNum(curr)
-                return cur + userPayoutSol
+        // Everything left to write once the vault has settled, so recovery can finish the close
+        const margin = ledgerAccount.margin(vaultId)
+        const vaultAccount = ledgerAccount.vault(vaultId)
+        await saveSagaData(saga, {
+            plan: {
+                creatorFeeSol,
+                referral: traderFees?.referral ?? null,
+                referrerSol,
+                closedValueSol,
+                platformCreditSol: liquidated ? liquidationBonusSol : platformFeeSol,
+                // The keeper is platform-operated, so the liquidation bonus accrues to the treasury
+                platformCreditSource: liquidated ? 'liquidation_bonus' : 'close_fee',
+                userPayoutSol,
+                // The closed collateral leaves the position's margin: the vault takes its
+                // PnL, the interest and its close fee share, the rest is fees and payout
+                journal: [
+                    { from: margin, to: vaultAccount, amountSol: addSol(vaultPnlSol, interestPaidSol, closeFeeVaultSol) },
+                    { from: ledgerAccount.insurance, to: vaultAccount, amountSol: insuranceCoveredSol },
+                    { from: margin, to: ledgerAccount.vaultFees(vaultId), amountSol: creatorFeeSol },
+                    ...(referrerUid ? [{ from: margin, to: ledgerAccount.referral(referrerUid), amountSol: referrerSol }] : []),
+                    { from: margin, to: ledgerAccount.treasury, amountSol: addSol(platformFeeSol, liquidationBonusSol) },
+                    { from: margin, to: ledgerAccount.user(uid), amountSol: userPayoutSol },
+                ],
+                // A partial close shrinks the position and reopens it, carrying the
+                // unpaid share of accrued interest forward from `closedAt`
+                positionUpdate: partial ? {
+                    status: 'OPEN',
+                    collateralSol: addSol(position.collateralSol, -collateralSol),
+                    borrowSol: addSol(position.borrowSol, -borrowSol),
+                    entryNotionalSol: addSol(entryNotionalSol(position), -notionalSol),
+                    sizeToken: position.sizeToken * (1 - fraction),
+                    interestAccruedSol: health.interestSol * (1 - fraction),
+                    interestCheckpointTs: closedAt,
+                    lastMarkUsd: markUsd,
+                    realizedPnlSol: (position.realizedPnlSol || 0) + pnlSol,
+                    interestPaidSol: (position.interestPaidSol || 0) + interestPaidSol,
+                    partialCloses: (position.partialCloses || 0) + 1,
+                    updatedAt: closedAt,
+                } : {
+                    status: 'CLOSED',
+                    closedAt,
+                    closeMarkUsd: markUsd,
+                    closeSolPriceUsd: solPriceUsd,
+                    closePriceSource: priceSource,
+                    currentValueSol,
+                    realizedPnlSol: (position.realizedPnlSol || 0) + pnlSol,
+                    accruedInterestSol: (position.interestPaidSol || 0) + interestSol,
+                    interestPaidSol: (position.interestPaidSol || 0) + interestPaidSol,
+                    closeMrBps: health.mrBps,
+                    closeTrigger: trigger,
+                    liquidationBonusSol,
+                    liquidated,
+                    windDown
+                },
+                trade: {
+                    uid,
+                    type: liquidated ? 'LIQUIDATE' : (windDown ? `WIND_DOWN CLOSE ${side}` : (partial ? `PARTIAL CLOSE ${side}` : `CLOSE ${side}`)),
+                    side,
+                    posId,
+                    closedFraction: fraction,
+                    remainingSizeToken: partial ? position.sizeToken * (1 - fraction) : 0,
+                    collateralSol,
+                    borrowedSol: borrowSol,
+                    sizeToken,
+                    entryPriceUsd,
+                    currentValueSol,
+                    closedValueSol,
+                    clientValueSol,
+                    closeMarkUsd: markUsd,
+                    closeSolPriceUsd: solPriceUsd,
+                    priceSource,
+                    pnlSol,
+                    vaultPnlSol,
+                    interestSol: interestPaidSol,
+                    closeFeeSol,
+                    creatorFeeSol,
+                    platformFeeSol,
+                    referrerUid,
+                    referrerSol,
+                    liquidationBonusSol,
+                    badDebtSol: shortfall.shortfallSol,
+                    insuranceCoveredSol,
+                    liquidatedBy: liquidated ? (opts?.liquidatedBy ?? 'user') : null,
+                    trigger,
+                    mrBps: health.mrBps,
+                    userPayoutSol,
+                    ts: now()
+                },
+                fee: {
+                    tradeId,
+                    event: liquidated ? 'LIQUIDATE' : (windDown ? 'WIND_DOWN_CLOSE' : (partial ? 'PARTIAL_CLOSE' : 'CLOSE')),
+                    uid,
+                    vaultId,
+                    pnlSol,
+                    closeFeeSol,
+                    closeFeeVaultSol,
+                    feeTier: feeTier ? feeTier.tier : null,
+                    discountBps,
+                    creatorFeeSol,
+                    platformFeeSol,
+                    referrerUid,
+                    referrerSol,
+                    interestSol: interestPaidSol,
+                    vaultPnlSol,
+                    liquidationBonusSol,
+                    badDebtSol: shortfall.shortfallSol,
+                    insuranceCoveredSol,
+                    userPayoutSol,
+                    usedSolPrice: solPriceUsd,
+                    priceSource,
+                    ts: now(),
+                    status: 'confirmed'
+                },
+                badDebt: shortfall.shortfallSol > 0 ? {
+                    vaultId, uid, posId, tradeId, liquidated,
+                    ...shortfall,
+                    coveredSol: insuranceCoveredSol,
+                    socializedSol,
+                    ts: closedAt,
+                } : null,
+            },
+        })
+
+        // Return borrowed SOL to the vault - ALWAYS happens regardless of liquidation -
+        // and settle trader PnL and interest into its NAV. This is the close's commit step.
+        await runStep(saga, 'settle', async () => {
+            const settleRes = await vaultRepo.transaction(vaultId, (v: any) => {
+                if (v == null) return v
+                accrueVaultInterest(v, closedAt)
+                v.tvlSol = addSol(v.tvlSol || 0, vaultPnlSol, interestPaidSol, insuranceCoveredSol, closeFeeVaultSol)
+                v.totalBorrowsSol = Math.max(0, addSol(v.totalBorrowsSol || 0, -borrowSol))
+                if (position.bookedInNav) {
+                    v.borrowAprWeight = Math.max(0, (v.borrowAprWeight || 0) - borrowSol * (position.debtAprBps || 0))
+                    // Interest booked on this borrow is now realized (or written off if the trader could not pay it)
+                    v.accruedInterestSol = Math.max(0, (v.accruedInterestSol || 0) - interestSol)
+                } else {
+                    // Opened before NAV accounting: its borrow was taken out of tvlSol, so put it back
+                    v.tvlSol = addSol(v.tvlSol, borrowSol)
+                }
+                applyUtilization(v)
+                v.updatedAt = now()
+                return v
             })
-        }
+            settledVault = settleRes.snapshot.val()
+            return { sharePriceSol: settledVault ? sharePriceSol(settledVault, closedAt) : null }
+        })
+    } catch (err) {
+        await compensateClose(saga, err).catch((e) => console.error(TAG, 'close compensation failed, left for recovery', { sagaId: saga.sagaId, err: e }))
+        throw err
     }
+    const insuranceCoveredSol = saga.data.insuranceCoveredSol
+    await recordNav(vaultId, settledVault, liquidated ? 'LIQUIDATE' : 'CLOSE', closedAt)
+    await fillQueuedWithdrawals(vaultId)
 
-    // 5. Update position status to CLOSED
-    await db.ref(posPath).update({
-        status: 'CLOSED',
-        closedAt: now(),
-        closeMarkUsd: opts?.markUsd ?? null,
-        closeSolPriceUsd: opts?.solPriceUsd ?? null,
-        currentValueSol,
-        realizedPnlSol: pnlSol,
-        liquidated
+    // 5. Fees, payout, journal and records. The vault has settled, so a
+    // failure here is left for recovery to finish rather than failing the close.
+    try {
+        await completeClose(saga)
+    } catch (err) {
+        console.error(TAG, 'close completion failed, left for recovery', { sagaId: saga.sagaId, err })
+        await noteSagaError(saga, err)
+    }
+
+    console.info(TAG, 'closePosition completed', {
+        side, uid, vaultId, posId, fraction, currentValueSol, pnlSol, interestPaidSol, closeFeeSol, creatorFeeSol, platformFeeSol, userPayoutSol
     })
 
-    // 10. Record trade
-    const tradeId = uuidv4()
-    await db.ref(`/trades/${vaultId}/${tradeId}`).set({
-        uid,
-        type: liquidated ? 'LIQUIDATE' : 'CLOSE LONG',
+    return {
+        ok: true,
         posId,
-        collateralSol,
-        borrowedSol: borrowSol,
-        sizeToken,
-        entryPriceUsd,
+        partial,
+        closedFraction: fraction,
+        tradeId,
         currentValueSol,
-        closeMarkUsd: opts?.markUsd ?? null,
-        closeSolPriceUsd: opts?.solPriceUsd ?? null,
+        closedValueSol,
+        priceSource,
+        markUsd,
+        solPriceUsd,
         pnlSol,
+        interestSol: interestPaidSol,
+        closeFeeSol,
+        discountBps,
         creatorFeeSol,
         platformFeeSol,
-        userPayoutSol,
-        ts: now()
+        referrerSol,
+        liquidationBonusSol,
+        badDebtSol: shortfall.shortfallSol,
+        insuranceCoveredSol,
+        liquidated,
+        trigger,
+        windDown,
+        userPayoutSol
+    }
+}
+
+interface ClosePlan {
+    creatorFeeSol: number
+    referral: Referral | null
+    referrerSol: number
+    closedValueSol: number
+    platformCreditSol: number
+    platformCreditSource: string
+    userPayoutSol: number
+    journal: Transfer[]
+    positionUpdate: Record<string, any>
+    trade: Record<string, any>
+    fee: Record<string, any>
+    badDebt: Omit<BadDebtEvent, 'eventId' | 'sharePriceSol'> | null
+}
+
+interface CloseSagaData {
+    tradeId: string
+    feeId: string
+    // Set by the insurance and settle steps
+    insuranceCoveredSol: number
+    sharePriceSol: number | null
+    // Stored before the vault settles
+    plan: ClosePlan | null
+}
+
+// Write what is left of a close once its vault settlement has landed
+async function completeClose(saga: Saga<CloseSagaData>) {
+    const { uid, vaultId, posId } = saga
+    const { tradeId, feeId } = saga.data
+    const plan = saga.data.plan!
+    const tradeRef: LedgerRef = { type: 'trade', id: tradeId }
+
+    // Add creator fee to vault's feesForCreator
+    if (plan.creatorFeeSol > 0) {
+        await runStep(saga, 'creator_fee', async () => {
+            await vaultRepo.creditCreatorFees(vaultId, plan.creatorFeeSol)
+        })
+    }
+    if (plan.referral) {
+        await runStep(saga, 'referral_rebate', () => creditReferralRebate(plan.referral!, uid, plan.referrerSol, plan.closedValueSol, 'close_fee'))
+    }
+    // Platform fee or liquidation bonus to the treasury (and its slice to the insurance fund)
+    await runStep(saga, 'platform_fee', async () => {
+        await creditPlatformFees(plan.platformCreditSol, plan.platformCreditSource, tradeRef)
     })
 
-    // 11. Record fee entry
-    const feeId = uuidv4()
-    await db.ref(`/fees/${feeId}`).set({
-        tradeId,
-        event: liquidated ? 'LIQUIDATE' : 'CLOSE',
+    // Credit user balance with payout (equity minus interest, fees and any liquidation bonus)
+    if (plan.userPayoutSol > 0) {
+        await runStep(saga, 'payout', async () => {
+            await balanceRepo.credit(uid, plan.userPayoutSol)
+        })
+    }
+
+    await runStep(saga, 'journal', async () => {
+        await recordJournal('position_close', tradeRef, plan.journal)
+    })
+    await runStep(saga, 'position', () => positionRepo.update(uid, vaultId, posId, plan.positionUpdate))
+    await runStep(saga, 'trade', () => tradeRepo.record(vaultId, tradeId, plan.trade))
+    await runStep(saga, 'fee_record', () => feeRepo.record(feeId, plan.fee))
+    if (plan.badDebt) {
+        await runStep(saga, 'bad_debt', async () => {
+            await recordBadDebt({ ...plan.badDebt!, sharePriceSol: saga.data.sharePriceSol })
+        })
+    }
+    await finishSaga(saga, 'DONE')
+}
+
+// Undo a close that stopped before the vault settled: return any insurance
+// drawn and reopen the position
+async function compensateClose(saga: Saga<CloseSagaData>, cause?: any) {
+    if (saga.steps.insurance === 'done' && saga.data.insuranceCoveredSol > 0) {
+        await runStep(saga, 'insurance_refund', () => refundInsurance(saga.data.insuranceCoveredSol))
+    }
+    if (saga.steps.claim === 'done') {
+        await runStep(saga, 'reopen', async () => {
+            await positionRepo.transactionStatus(saga.uid, saga.vaultId, saga.posId, (cur: any) => {
+                if (cur == null) return cur
+                if (cur !== 'CLOSING') return
+                return 'OPEN'
+            })
+        })
+    }
+    await finishSaga(saga, 'COMPENSATED', cause ? (cause?.message || String(cause)) : null)
+}
+
+// Whether an in-doubt step's write landed, where the data shows it; null when it cannot be told
+async function probeStep(saga: Saga, step: string): Promise<boolean | null> {
+    const position = () => positionRepo.get(saga.uid, saga.vaultId, saga.posId)
+    if (step === 'fee_record') return feeRepo.exists(saga.data.feeId)
+    if (saga.kind === 'open') {
+        if (step === 'position') return (await position()) != null
+        // Only this saga sets or clears the order's consumedBy
+        if (step === 'consume' || step === 'unconsume') {
+            const order = await orderRepo.get(saga.vaultId, saga.data.reservation.orderId)
+            return (order?.consumedBy === saga.sagaId) === (step === 'consume')
+        }
+    } else {
+        if (step === 'trade') return tradeRepo.exists(saga.vaultId, saga.data.tradeId)
+        // Both the close and the compensation move the position out of CLOSING
+        if (step === 'position' || step === 'reopen') return (await position())?.status !== 'CLOSING'
+    }
+    return null
+}
+
+/**
+ * Complete or compensate an open or close left half-finished by a crash (see
+ * saga.ts). Returns the status the saga ends in.
+ */
+export async function recoverSaga(saga: Saga): Promise<SagaStatus> {
+    let next = recoveryAction(saga)
+    while (next.action === 'resolve') {
+        const landed = await probeStep(saga, next.step)
+        if (landed == null) {
+            await finishSaga(saga, 'STUCK', `step_in_doubt:${next.step}`)
+            return saga.status
+        }
+        await resolveStep(saga, next.step, landed)
+        next = recoveryAction(saga)
+    }
+    console.info(TAG, 'recovering saga', { sagaId: saga.sagaId, kind: saga.kind, action: next.action, steps: saga.steps })
+    if (saga.kind === 'open') {
+        if (next.action === 'complete') await completeOpen(saga)
+        else await compensateOpen(saga)
+    } else if (next.action === 'complete') {
+        await fillQueuedWithdrawals(saga.vaultId)
+        await completeClose(saga)
+    } else {
+        await compensateClose(saga)
+    }
+    return saga.status
+}
+
+// Top up collateral on an open position from the user's balance
+export async function addMargin(uid: string, vaultId: string, posId: string, amountSol: number) {
+    if (!Number.isFinite(amountSol) || amountSol <= 0) throw new Error('invalid_amount')
+    amountSol = roundSol(amountSol)
+    const current = await positionRepo.get(uid, vaultId, posId)
+    if (!current) throw new Error('position_not_found')
+    if (current.status !== 'OPEN') throw new Error('position_not_open')
+
+    if (!(await balanceRepo.debit(uid, amountSol, 'margin_add'))) throw new Error('insufficient_balance')
+
+    const posRes = await positionRepo.transaction(uid, vaultId, posId, (p: any) => {
+        if (p == null) return p
+        if (p.status !== 'OPEN') return
+        p.entryNotionalSol = entryNotionalSol(p)
+        p.collateralSol = addSol(p.collateralSol || 0, amountSol)
+        p.marginAddedSol = addSol(p.marginAddedSol || 0, amountSol)
+        p.updatedAt = now()
+        return p
+    })
+    if (!posRes.committed || !posRes.snapshot.exists()) {
+        // Position closed between the read and the update: give the funds back
+        await balanceRepo.guardedUpdate(uid, (cur: number) => cur + amountSol, 'margin_add_refund')
+        throw new Error('position_not_open')
+    }
+    const position = posRes.snapshot.val()
+
+    const tradeId = uuidv4()
+    await tradeRepo.record(vaultId, tradeId, {
         uid,
-        vaultId,
-        pnlSol,
-        creatorFeeSol,
-        platformFeeSol,
-        userPayoutSol,
-        usedSolPrice: opts?.solPriceUsd ?? null,
+        type: 'MARGIN_ADD',
+        side: position.side,
+        posId,
+        amount: amountSol,
+        collateralSol: position.collateralSol,
+        priceUsd: null,
+        pnlSol: null,
         ts: now(),
-        status: 'confirmed'
     })
+    await recordJournal('margin_add', { type: 'trade', id: tradeId }, [{ from: ledgerAccount.user(uid), to: ledgerAccount.margin(vaultId), amountSol }])
+    console.info(TAG, 'addMargin', { uid, vaultId, posId, amountSol, collateralSol: position.collateralSol })
+    return { ok: true, posId, tradeId, collateralSol: position.collateralSol }
+}
 
-    console.info(TAG, 'closeLong completed', {
-        uid, vaultId, posId, currentValueSol, pnlSol, creatorFeeSol, platformFeeSol, userPayoutSol
+/**
+ * Withdraw collateral from an open position back to the user's balance. The
+ * position is marked server-side and the withdrawal must leave its margin
+ * ratio at or above the vault's `imrBps`.
+ */
+export async function removeMargin(uid: string, vaultId: string, posId: string, amountSol: number) {
+    if (!Number.isFinite(amountSol) || amountSol <= 0) throw new Error('invalid_amount')
+    amountSol = roundSol(amountSol)
+    const position = await positionRepo.get(uid, vaultId, posId)
+    if (!position) throw new Error('position_not_found')
+    if (position.status !== 'OPEN') throw new Error('position_not_open')
+
+    const vault = await vaultRepo.get(vaultId)
+    if (!vault) throw new Error('vault_not_found')
+    const valuation = await mark.valuePositionSol(vault.tokenMint || vaultId, position.sizeToken, { side: position.side, buybackSol: entryNotionalSol(position) })
+    const health = assessPosition(position, vault.params, valuation.valueSol, now())
+    const { imrBps } = riskParams(vault.params)
+
+    // Equity above the initial margin on the current value, never more than the posted collateral
+    const maxWithdrawSol = Math.max(0, Math.min(position.collateralSol, health.equitySol - (valuation.valueSol * imrBps) / 10000))
+    if (amountSol > maxWithdrawSol) {
+        const err: any = new Error('margin_withdraw_exceeds_max')
+        err.maxWithdrawSol = maxWithdrawSol
+        err.mrBps = health.mrBps
+        err.imrBps = imrBps
+        throw err
+    }
+
+    // Only commit if the position is unchanged since it was valued
+    const readCollateral = position.collateralSol
+    const posRes = await positionRepo.transaction(uid, vaultId, posId, (p: any) => {
+        if (p == null) return p
+        if (p.status !== 'OPEN' || p.collateralSol !== readCollateral) return
+        p.entryNotionalSol = entryNotionalSol(p)
+        p.collateralSol = addSol(p.collateralSol, -amountSol)
+        p.marginRemovedSol = addSol(p.marginRemovedSol || 0, amountSol)
+        p.updatedAt = now()
+        return p
     })
+    if (!posRes.committed || !posRes.snapshot.exists()) throw new Error('position_changed')
 
-    return {
-        ok: true,
+    if (!(await balanceRepo.guardedUpdate(uid, (cur: number) => cur + amountSol, 'margin_remove'))) {
+        // Could not credit the user: put the collateral back on the position,
+        // unless a close has claimed it since and settles without this margin
+        const restoreRes = await positionRepo.transaction(uid, vaultId, posId, (p: any) => {
+            if (p == null) return p
+            if (p.status !== 'OPEN') return
+            p.collateralSol = addSol(p.collateralSol || 0, amountSol)
+            p.marginRemovedSol = Math.max(0, addSol(p.marginRemovedSol || 0, -amountSol))
+            p.updatedAt = now()
+            return p
+        })
+        if (restoreRes.committed && restoreRes.snapshot.exists()) throw new Error('balance_credit_failed')
+        // The margin is no longer on the position, so it can only go to the user
+        if (!(await balanceRepo.guardedUpdate(uid, (cur: number) => cur + amountSol, 'margin_remove_retry'))) {
+            console.error(TAG, 'removeMargin could not credit or restore the margin', { uid, vaultId, posId, amountSol })
+            throw new Error('balance_credit_failed')
+        }
+    }
+
+    const collateralSol = addSol(readCollateral, -amountSol)
+    const mrBpsAfter = valuation.valueSol > 0 ? Math.floor(((health.equitySol - amountSol) / valuation.valueSol) * 10000) : 0
+    const tradeId = uuidv4()
+    await tradeRepo.record(vaultId, tradeId, {
+        uid,
+        type: 'MARGIN_REMOVE',
+        side: position.side,
         posId,
-        currentValueSol,
-        pnlSol,
-        creatorFeeSol,
-        platformFeeSol,
-        userPayoutSol
+        amount: amountSol,
+        collateralSol,
+        mrBps: mrBpsAfter,
+        priceUsd: valuation.markUsd,
+        priceSource: valuation.source,
+        pnlSol: null,
+        ts: now(),
+    })
+    await recordJournal('margin_remove', { type: 'trade', id: tradeId }, [{ from: ledgerAccount.margin(vaultId), to: ledgerAccount.user(uid), amountSol }])
+    console.info(TAG, 'removeMargin', { uid, vaultId, posId, amountSol, collateralSol, mrBpsAfter, imrBps })
+    return { ok: true, posId, tradeId, collateralSol, mrBps: mrBpsAfter, maxWithdrawSol: maxWithdrawSol - amountSol }
+}
+
+/**
+ * Set, replace or clear the SL/TP/trailing triggers on an open position.
+ * Fields left undefined keep their current value; `null` clears one.
+ * Validated against the current server mark (entry price if unpriced).
+ */
+export async function setTriggers(uid: string, vaultId: string, posId: string, input: TriggerInput) {
+    const position = await positionRepo.get(uid, vaultId, posId)
+    if (!position) throw new Error('position_not_found')
+    if (position.status !== 'OPEN') throw new Error('position_not_open')
+    const side: PositionSide = position.side === 'SHORT' ? 'SHORT' : 'LONG'
+
+    const vault = await vaultRepo.get(vaultId)
+    const tokenMint: string = vault?.tokenMint || vaultId
+    const tokenMark = await mark.getTokenMarkUsd(tokenMint)
+    const refPriceUsd = tokenMark?.markUsd ?? position.lastMarkUsd ?? position.entryPriceUsd
+    const triggers = buildTriggers(side, refPriceUsd, input, position.triggers, now())
+
+    const txRes = await positionRepo.transaction(uid, vaultId, posId, (p: any) => {
+        if (p == null) return p
+        if (p.status !== 'OPEN') return
+        p.triggers = triggers
+        p.updatedAt = now()
+        return p
+    })
+    if (!txRes.committed || !txRes.snapshot.exists()) throw new Error('position_not_open')
+    console.info(TAG, 'setTriggers', { uid, vaultId, posId, side, refPriceUsd, triggers })
+    return { ok: true, posId, side, refPriceUsd, triggers }
+}
+
+// Every OPEN position under `/positions`, optionally limited to one vault
+export async function listOpenPositions(opts?: { vaultId?: string }) {
+    const all = await positionRepo.listAll()
+    const out: Array<{ uid: string, vaultId: string, posId: string, position: any }> = []
+    for (const [uid, byVault] of Object.entries<any>(all || {})) {
+        for (const [vaultId, byPos] of Object.entries<any>(byVault || {})) {
+            if (opts?.vaultId && vaultId !== opts.vaultId) continue
+            for (const [posId, position] of Object.entries<any>(byPos || {})) {
+                if (position && position.status === 'OPEN') out.push({ uid, vaultId, posId, position })
+            }
+        }
     }
+    return out
+}
+
+// Read a position with its live borrow cost so clients can show carrying cost
+export async function getPosition(uid: string, vaultId: string, posId: string) {
+    const position = await positionRepo.get(uid, vaultId, posId)
+    if (!position) throw new Error('position_not_found')
+    // Closed positions keep the interest figure fixed at close time
+    const accrued = position.status === 'OPEN' ? accruedInterestSol(position, now()) : (position.accruedInterestSol ?? 0)
+    return { ...position, posId, vaultId, accruedInterestSol: accrued }
 }
 
-export default { createVault, creatorDeposit, contributorDeposit, openLong, closeLong }
+export default { openCostSol, createVault, creatorDeposit, contributorDeposit, openLong, openShort, closeLong, closeShort, closePosition, addMargin, removeMargin, setTriggers, listOpenPositions, getPosition }
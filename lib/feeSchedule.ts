@@ -0,0 +1,147 @@
+// Trading fee schedule. Every fee a trade pays is computed here from the
+// vault's params, falling back to the platform defaults in `/platform/config`,
+// so the preflight quote and the engine charge the same amounts:
+//   - open fee:  openFeeBps of the position notional, split vaultSharePct to
+//                the vault's LPs and the rest to the platform
+//   - close fee: closeFeeBps of the closed position value, split the same way
+//   - performance fee: perfFeeBps of trader profit to the vault creator plus
+//                platformPerfFeeBps to the platform
+// A trader's volume tier discount (feeTiers.ts) and referee discount
+// (referrals.ts) come off the open and close fee rates, which are clamped to
+// [minFeeUsd, maxFeeUsd] as in calculateFeesUsdToSol. Fees round up to whole
+// lamports and the vault share rounds down, the platform taking the remainder
+// (see lamports.ts).
+import { calculateFeesUsdToSol } from './fees'
+import { getTraderFeeTier } from './feeTiers'
+import { addSol, roundSol } from './lamports'
+import { getPlatformConfig, PlatformConfig } from './platformConfig'
+import { getReferral } from './referrals'
+
+export interface FeeSchedule {
+    // After the trader's discounts
+    openFeeBps: number
+    closeFeeBps: number
+    perfFeeBps: number
+    platformPerfFeeBps: number
+    // LPs' share of open and close fees
+    vaultSharePct: number
+    minFeeUsd: number
+    // null when uncapped
+    maxFeeUsd: number | null
+    discountBps: number
+}
+
+export interface TradeFee {
+    notionalSol: number
+    notionalUsd: number
+    feeBps: number
+    feeUsd: number
+    feeSol: number
+    feeVaultSol: number
+    feePlatformSol: number
+    usedSolPrice: number
+    // Trader discount already applied to feeBps
+    discountBps: number
+}
+
+export interface CloseFees {
+    closeFee: TradeFee
+    creatorPerfFeeSol: number
+    platformPerfFeeSol: number
+    // Everything the close takes out of the trader's payout
+    totalFeeSol: number
+}
+
+const DEFAULT_VAULT_SHARE_PCT = 0.7
+
+function bps(v: any, fallback: number) {
+    return typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : fallback
+}
+
+export function feeSchedule(vaultParams: any, platform: PlatformConfig, discountBps = 0): FeeSchedule {
+    const p = vaultParams || {}
+    const vaultSharePct = typeof p.vaultSharePct === 'number' && p.vaultSharePct >= 0 && p.vaultSharePct <= 1 ? p.vaultSharePct : DEFAULT_VAULT_SHARE_PCT
+    const discount = Math.max(0, Math.min(10000, discountBps || 0))
+    const discounted = (feeBps: number) => (feeBps * (10000 - discount)) / 10000
+    return {
+        openFeeBps: discounted(bps(p.openFeeBps, platform.openFeeBps)),
+        closeFeeBps: discounted(bps(p.closeFeeBps, platform.closeFeeBps)),
+        perfFeeBps: bps(p.perfFeeBps, platform.perfFeeBps),
+        platformPerfFeeBps: platform.platformPerfFeeBps,
+        vaultSharePct,
+        minFeeUsd: platform.minFeeUsd,
+        maxFeeUsd: platform.maxFeeUsd > 0 ? platform.maxFeeUsd : null,
+        discountBps: discount,
+    }
+}
+
+// Discounts stack: each applies to what the previous one left
+export function combineDiscountBps(...discounts: number[]) {
+    const kept = discounts.reduce((k, d) => k * (1 - Math.max(0, Math.min(10000, d || 0)) / 10000), 1)
+    return Math.round((1 - kept) * 10000 * 100) / 100
+}
+
+// Fee schedule for a vault's params under the current platform defaults, less a discount
+export async function getFeeSchedule(vaultParams: any, discountBps = 0) {
+    return feeSchedule(vaultParams, await getPlatformConfig(), discountBps)
+}
+
+/**
+ * The fee schedule `uid` trades a vault at: its params less the trader's
+ * volume tier and referee discounts. Also returns the tier and referral so
+ * callers can book the referrer's rebate (`referrerShareBps`).
+ */
+export async function getTraderFeeSchedule(vaultParams: any, uid: string | null | undefined) {
+    const platform = await getPlatformConfig()
+    const feeTier = await getTraderFeeTier(uid)
+    const referral = await getReferral(uid)
+    const referralDiscountBps = referral ? platform.refereeDiscountBps : 0
+    const schedule = feeSchedule(vaultParams, platform, combineDiscountBps(feeTier.discountBps, referralDiscountBps))
+    return { schedule, feeTier, referral, referralDiscountBps, referrerShareBps: platform.referrerShareBps }
+}
+
+function splitFee(schedule: FeeSchedule, feeSol: number, solPriceUsd: number) {
+    const feeVaultSol = roundSol(feeSol * schedule.vaultSharePct, 'down')
+    return { feeUsd: feeSol * solPriceUsd, feeSol, feeVaultSol, feePlatformSol: addSol(feeSol, -feeVaultSol) }
+}
+
+// `feeBps` of a SOL notional, capped in USD and rounded up to a whole lamport.
+// Without a SOL price (0) the USD caps cannot apply and the fee is uncapped.
+function tradeFee(schedule: FeeSchedule, notionalSol: number, feeBps: number, solPriceUsd: number): TradeFee {
+    const notionalUsd = notionalSol * solPriceUsd
+    const rawSol = solPriceUsd > 0
+        ? calculateFeesUsdToSol(notionalUsd, feeBps, solPriceUsd, schedule.vaultSharePct, { minFeeUsd: schedule.minFeeUsd, maxFeeUsd: schedule.maxFeeUsd ?? undefined }).feeSol
+        : (Math.max(0, notionalSol) * feeBps) / 10000
+    const feeSol = rawSol > 0 ? roundSol(rawSol, 'up') : 0
+    return { notionalSol, notionalUsd, feeBps, ...splitFee(schedule, feeSol, solPriceUsd), usedSolPrice: solPriceUsd, discountBps: schedule.discountBps }
+}
+
+// Open fee on a position of `collateralSol` plus `borrowSol`, charged on top of the collateral
+export function openFee(schedule: FeeSchedule, collateralSol: number, borrowSol: number, solPriceUsd: number): TradeFee {
+    return tradeFee(schedule, addSol(collateralSol, borrowSol), schedule.openFeeBps, solPriceUsd)
+}
+
+/**
+ * Fees on closing a position worth `closedValueSol` with `pnlSol` profit.
+ * They come out of `payoutSol` (what the trader would otherwise receive) in
+ * order - close fee, creator then platform performance fee - and are capped
+ * by what is left of it, so a close never charges more than it pays.
+ */
+export function closeFees(schedule: FeeSchedule, closedValueSol: number, pnlSol: number, payoutSol: number, solPriceUsd: number): CloseFees {
+    let left = Math.max(0, payoutSol)
+    const take = (sol: number) => {
+        const taken = Math.min(roundSol(sol, 'up'), left)
+        left = addSol(left, -taken)
+        return taken
+    }
+
+    const quoted = tradeFee(schedule, closedValueSol, schedule.closeFeeBps, solPriceUsd)
+    const closeFeeSol = take(quoted.feeSol)
+    const closeFee = closeFeeSol === quoted.feeSol ? quoted : { ...quoted, ...splitFee(schedule, closeFeeSol, solPriceUsd) }
+
+    const creatorPerfFeeSol = pnlSol > 0 ? take((pnlSol * schedule.perfFeeBps) / 10000) : 0
+    const platformPerfFeeSol = pnlSol > 0 ? take((pnlSol * schedule.platformPerfFeeBps) / 10000) : 0
+    return { closeFee, creatorPerfFeeSol, platformPerfFeeSol, totalFeeSol: addSol(closeFeeSol, creatorPerfFeeSol, platformPerfFeeSol) }
+}
+
+export default { feeSchedule, combineDiscountBps, getFeeSchedule, getTraderFeeSchedule, openFee, closeFees }
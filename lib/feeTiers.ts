@@ -0,0 +1,82 @@
+// Volume fee tiers. A trader's rolling 30-day notional volume - the SOL size
+// of every open plus the SOL value of every close, from their `/trades`
+// records - places them in one of the platform config's `feeTiers`, whose
+// discount comes off their open and close fees (see feeSchedule.ts).
+//
+// Trades are stored per vault, so the vaults to scan are the ones the trader
+// holds or has held positions in (`/positions/<uid>`).
+import { addSol } from './lamports'
+import { FeeTier, getPlatformConfig } from './platformConfig'
+import { getStore } from './store'
+
+const TAG = '[FEE_TIERS]'
+
+export const VOLUME_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+
+export interface TraderFeeTier {
+    volumeSol: number
+    windowMs: number
+    // Index into the platform's feeTiers; -1 when the volume is below the first tier
+    tier: number
+    minVolumeSol: number
+    discountBps: number
+    // Volume needed for the next tier, null at the top
+    nextTier: FeeTier | null
+}
+
+const CLOSE_TYPES = new Set(['LIQUIDATE', 'CLOSE LONG', 'CLOSE SHORT', 'PARTIAL CLOSE LONG', 'PARTIAL CLOSE SHORT', 'WIND_DOWN CLOSE LONG', 'WIND_DOWN CLOSE SHORT'])
+
+// Notional SOL a trade record counts for; 0 for deposits, margin changes and payouts
+export function tradeVolumeSol(trade: any): number {
+    const type = String(trade?.type || '')
+    let sol = 0
+    if (type === 'OPEN LONG' || type === 'OPEN SHORT') sol = Number(trade.totalSol)
+    else if (CLOSE_TYPES.has(type)) sol = Number(trade.closedValueSol)
+    return Number.isFinite(sol) && sol > 0 ? sol : 0
+}
+
+export function feeTierFor(volumeSol: number, tiers: FeeTier[]) {
+    let tier = -1
+    tiers.forEach((t, i) => {
+        if (volumeSol >= t.minVolumeSol) tier = i
+    })
+    return {
+        tier,
+        minVolumeSol: tier >= 0 ? tiers[tier].minVolumeSol : 0,
+        discountBps: tier >= 0 ? tiers[tier].discountBps : 0,
+        nextTier: tier + 1 < tiers.length ? tiers[tier + 1] : null,
+    }
+}
+
+// `uid`'s trade volume over the window ending at `atMs`
+export async function rollingVolumeSol(uid: string, atMs = Date.now()) {
+    const db = getStore()
+    const posSnap = await db.ref(`/positions/${uid}`).get()
+    const vaultIds = Object.keys(posSnap.exists() ? posSnap.val() : {})
+    const since = atMs - VOLUME_WINDOW_MS
+    const volumes: number[] = []
+    for (const vaultId of vaultIds) {
+        const snap = await db.ref(`/trades/${vaultId}`).orderByChild('ts').startAt(since).get()
+        snap.forEach((child: any) => {
+            const trade = child.val()
+            if (trade?.uid === uid && trade.ts <= atMs) volumes.push(tradeVolumeSol(trade))
+        })
+    }
+    return addSol(...volumes)
+}
+
+// The fee tier `uid` trades at now. A failed lookup falls back to no discount rather than blocking the trade.
+export async function getTraderFeeTier(uid: string | null | undefined): Promise<TraderFeeTier> {
+    const { feeTiers } = await getPlatformConfig()
+    let volumeSol = 0
+    if (uid) {
+        try {
+            volumeSol = await rollingVolumeSol(uid)
+        } catch (e) {
+            console.warn(TAG, 'failed to compute trader volume, no discount applied', { uid, err: e })
+        }
+    }
+    return { volumeSol, windowMs: VOLUME_WINDOW_MS, ...feeTierFor(volumeSol, feeTiers) }
+}
+
+export default { VOLUME_WINDOW_MS, tradeVolumeSol, feeTierFor, rollingVolumeSol, getTraderFeeTier }
@@ -1,5 +1,7 @@
 // Server-local copy of padd-ui/engine/fees.ts
-import { getAdminDb } from './firebaseAdmin';
+import { distributeFeeProRata } from '../utils/fees';
+import { toLamports, toSol } from './lamports';
+import { vaultRepo } from './repositories';
 
 export interface FeeSolBreakdown {
     notionalUsd: number;
@@ -43,58 +45,57 @@ export interface DistributionSolResult {
     allocatedSum: number
 }
 
+/**
+ * SOL wrapper over the lamport-based `distributeFeeProRata` in utils/fees.ts:
+ * the fee and the owners' weights are converted to integer lamports, split
+ * there (rounding remainder to the platform) and converted back, so the
+ * returned amounts are whole lamports that sum exactly to `totalFeeSol`.
+ */
 export function distributeFeeProRataSol(totalFeeSol: number, composition: VaultCompositionSol, creatorKeepPct = 0.6, contributorKeepPct = 0.6): DistributionSolResult {
-    if (!totalFeeSol || totalFeeSol <= 0) {
+    const totalFeeLamports = totalFeeSol > 0 ? toLamports(totalFeeSol) : 0
+    if (totalFeeLamports <= 0) {
         return { totalFeeSol: 0, platformSol: 0, creatorSol: 0, contributors: [], allocatedSum: 0 }
     }
 
-    const creatorSol = composition.creator?.sol ?? 0
-    const contribTotal = (composition.contributors || []).reduce((s, c) => s + (c.sol || 0), 0)
-    const totalCapital = creatorSol + contribTotal
-    if (totalCapital <= 0) {
-        return { totalFeeSol, platformSol: totalFeeSol, creatorSol: 0, contributors: [], allocatedSum: totalFeeSol }
+    const owner = (e: any) => ({ uid: e.uid, lamports: toLamports(e.sol || 0, 'down'), keepPct: typeof e.keepPct === 'number' ? e.keepPct : undefined })
+    const res = distributeFeeProRata(totalFeeLamports, {
+        creator: composition.creator ? owner(composition.creator) : null,
+        contributors: (composition.contributors || []).map(owner),
+    }, creatorKeepPct, contributorKeepPct)
+
+    return {
+        totalFeeSol: toSol(res.totalFeeLamports),
+        platformSol: toSol(res.platformLamports),
+        creatorSol: toSol(res.creatorLamports),
+        contributors: res.contributors.map((c) => ({ uid: c.uid, sol: toSol(c.lamports) })),
+        allocatedSum: toSol(res.allocatedSum),
     }
+}
 
-    let platformAcc = 0
-    let creatorAcc = 0
-    const contributorsAcc: Array<{ uid: string; sol: number }> = []
-    let allocatedPortion = 0
-
-    function allocateOwner(ownerSol: number, keepPct: number) {
-        const ownerPortion = (totalFeeSol * ownerSol) / totalCapital
-        allocatedPortion += ownerPortion
-        const ownerKeep = ownerPortion * keepPct
-        const ownerPlatform = ownerPortion - ownerKeep
-        return { ownerPortion, ownerKeep, ownerPlatform }
-    }
-
-    if (composition.creator) {
-        const creatorKeep = (typeof (composition as any).creator?.keepPct === 'number') ? (composition as any).creator.keepPct : creatorKeepPct
-        const { ownerKeep, ownerPlatform } = allocateOwner(creatorSol, creatorKeep)
-        creatorAcc += ownerKeep
-        platformAcc += ownerPlatform
-    }
-
-    for (const c of composition.contributors || []) {
-        const contribKeep = (typeof (c as any).keepPct === 'number') ? (c as any).keepPct : contributorKeepPct
-        const { ownerKeep, ownerPlatform } = allocateOwner(c.sol, contribKeep)
-        contributorsAcc.push({ uid: c.uid, sol: ownerKeep })
-        platformAcc += ownerPlatform
-    }
-
-    const remainder = totalFeeSol - allocatedPortion
-    if (remainder > 0) platformAcc += remainder
-
-    const allocatedSum = creatorAcc + platformAcc + contributorsAcc.reduce((s, c) => s + c.sol, 0)
+// LP shares are the pro-rata weight once a vault has share accounting; before that, raw deposits
+function lpWeight(entry: any) {
+    return typeof entry.shares === 'number' ? entry.shares : entry.sol
+}
 
-    return { totalFeeSol, platformSol: platformAcc, creatorSol: creatorAcc, contributors: contributorsAcc, allocatedSum }
+// RTDB stores contributors as a map keyed by uid; the distribution helpers expect an array.
+// `sol` on the result is the entry's pro-rata weight (see lpWeight).
+export function normalizeComposition(raw: any): VaultCompositionSol {
+    if (!raw || typeof raw !== 'object') return {}
+    const out: VaultCompositionSol = {}
+    if (raw.creator && raw.creator.uid) out.creator = { ...raw.creator, sol: lpWeight(raw.creator) }
+    const contributors = Array.isArray(raw.contributors) ? raw.contributors : Object.values(raw.contributors || {})
+    const list = contributors
+        .filter((c: any) => c && c.uid)
+        .map((c: any) => ({ ...c, sol: lpWeight(c) }))
+        .filter((c: any) => typeof c.sol === 'number' && c.sol > 0)
+    if (list.length) out.contributors = list
+    return out
 }
 
 export async function loadVaultComposition(mint: string): Promise<VaultCompositionSol> {
-    const db = getAdminDb()
-    const snap = await db.ref(`/vaults/${mint}/composition`).get()
-    if (!snap.exists()) return {}
-    return snap.val()
+    const raw = await vaultRepo.getComposition(mint);
+    if (!raw) return {};
+    return normalizeComposition(raw);
 }
 
-export default { calculateFeesUsdToSol, distributeFeeProRataSol, loadVaultComposition }
+export default { calculateFeesUsdToSol, distributeFeeProRataSol, normalizeComposition, loadVaultComposition }
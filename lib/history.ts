@@ -0,0 +1,174 @@
+// Read APIs for position and trade history. Positions live at
+// `/positions/<uid>/<vaultId>/<posId>` and trades at `/trades/<vaultId>/<tradeId>`.
+// Lists are newest first and paged with an opaque cursor that encodes the
+// last item's timestamp and id, so a page is stable while new items arrive.
+// Open positions are returned with live unrealized PnL and accrued interest.
+import { accruedInterestSol } from './interest'
+import { roundSol } from './lamports'
+import * as mark from './mark'
+import { computePnlSol } from './math'
+import { getStore } from './store'
+
+const TAG = '[HISTORY]'
+
+export const DEFAULT_PAGE_LIMIT = 50
+export const MAX_PAGE_LIMIT = 200
+
+export interface HistoryQuery {
+    cursor?: string | null
+    limit?: number
+    // Inclusive time range in ms (position entryTs, trade ts)
+    from?: number
+    to?: number
+}
+
+export interface PositionQuery extends HistoryQuery {
+    vaultId?: string
+    status?: 'OPEN' | 'CLOSED'
+}
+
+export interface HistoryPage<T> {
+    items: T[]
+    nextCursor: string | null
+}
+
+interface CursorKey {
+    ts: number
+    id: string
+}
+
+export function encodeCursor(key: CursorKey) {
+    return Buffer.from(JSON.stringify([key.ts, key.id])).toString('base64url')
+}
+
+export function decodeCursor(raw: string): CursorKey {
+    try {
+        const [ts, id] = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'))
+        if (typeof ts === 'number' && Number.isFinite(ts) && typeof id === 'string') return { ts, id }
+    } catch { /* fall through */ }
+    throw new Error('invalid_cursor')
+}
+
+export function pageLimit(limit?: number) {
+    const n = Math.floor(Number(limit))
+    return Number.isFinite(n) && n > 0 ? Math.min(n, MAX_PAGE_LIMIT) : DEFAULT_PAGE_LIMIT
+}
+
+// Newest first; ties on ts go by id, descending, matching RTDB's key order reversed
+function newerFirst(a: CursorKey, b: CursorKey) {
+    if (a.ts !== b.ts) return b.ts - a.ts
+    return a.id < b.id ? 1 : a.id > b.id ? -1 : 0
+}
+
+/**
+ * One page of `items`, newest first, within the query's time range and after
+ * its cursor. `key` gives each item's timestamp and unique id.
+ */
+export function paginate<T>(items: T[], key: (item: T) => CursorKey, query: HistoryQuery = {}): HistoryPage<T> {
+    const limit = pageLimit(query.limit)
+    const after = query.cursor ? decodeCursor(query.cursor) : null
+    const matching = items
+        .map((item) => ({ item, k: key(item) }))
+        .filter(({ k }) => (query.from == null || k.ts >= query.from) && (query.to == null || k.ts <= query.to))
+        .filter(({ k }) => !after || newerFirst(after, k) < 0)
+        .sort((a, b) => newerFirst(a.k, b.k))
+    const page = matching.slice(0, limit)
+    const nextCursor = matching.length > limit ? encodeCursor(page[page.length - 1].k) : null
+    return { items: page.map(({ item }) => item), nextCursor }
+}
+
+function tradeKey(t: any): CursorKey {
+    return { ts: Number(t.ts) || 0, id: t.tradeId }
+}
+
+function positionKey(p: any): CursorKey {
+    return { ts: Number(p.entryTs) || 0, id: p.posId }
+}
+
+// A vault's trades in the query's range, bounded by its cursor; `limit` caps the read
+async function readTrades(vaultId: string, query: HistoryQuery, limit?: number) {
+    let ref: any = getStore().ref(`/trades/${vaultId}`).orderByChild('ts')
+    if (query.from != null) ref = ref.startAt(query.from)
+    const after = query.cursor ? decodeCursor(query.cursor) : null
+    if (after && (query.to == null || after.ts <= query.to)) ref = ref.endAt(after.ts, after.id)
+    else if (query.to != null) ref = ref.endAt(query.to)
+    // One extra for the cursor item itself (endAt is inclusive) and one to tell if there is a next page
+    if (limit != null) ref = ref.limitToLast(limit + 2)
+    const snap = await ref.get()
+    const trades: any[] = []
+    snap.forEach((child: any) => {
+        trades.push({ ...child.val(), tradeId: child.key, vaultId })
+    })
+    return trades
+}
+
+export async function listVaultTrades(vaultId: string, query: HistoryQuery = {}): Promise<HistoryPage<any>> {
+    const trades = await readTrades(vaultId, query, pageLimit(query.limit))
+    return paginate(trades, tradeKey, query)
+}
+
+// A user's trades across the vaults they have held positions in
+export async function listUserTrades(uid: string, query: HistoryQuery & { vaultId?: string } = {}): Promise<HistoryPage<any>> {
+    const posSnap = await getStore().ref(`/positions/${uid}`).get()
+    const vaultIds = query.vaultId ? [query.vaultId] : Object.keys(posSnap.exists() ? posSnap.val() : {})
+    const trades: any[] = []
+    for (const vaultId of vaultIds) {
+        for (const t of await readTrades(vaultId, query)) {
+            if (t.uid === uid) trades.push(t)
+        }
+    }
+    return paginate(trades, tradeKey, query)
+}
+
+/**
+ * Mark an open position at the current server price: unrealized PnL (rounded
+ * down, as the engine settles it) and interest accrued so far. Positions with
+ * no mark available get null PnL.
+ */
+async function withLivePnl(position: any, vaults: Record<string, any>, marks: Record<string, { markUsd: number } | null>, solPriceUsd: number | null, atMs: number) {
+    if (position.status !== 'OPEN') return position
+    if (!(position.vaultId in vaults)) {
+        const vSnap = await getStore().ref(`/vaults/${position.vaultId}`).get()
+        vaults[position.vaultId] = vSnap.exists() ? vSnap.val() : null
+    }
+    const tokenMint: string = vaults[position.vaultId]?.tokenMint || position.vaultId
+    if (!(tokenMint in marks)) marks[tokenMint] = await mark.getTokenMarkUsd(tokenMint)
+    const tokenMark = marks[tokenMint]
+    const priced = !!tokenMark && !!solPriceUsd
+    const side = position.side === 'SHORT' ? 'SHORT' : 'LONG'
+    return {
+        ...position,
+        markUsd: priced ? tokenMark!.markUsd : null,
+        solPriceUsd,
+        unrealizedPnlSol: priced ? roundSol(computePnlSol(position.sizeToken, position.entryPriceUsd, tokenMark!.markUsd, solPriceUsd!, side), 'down') : null,
+        accruedInterestSol: accruedInterestSol(position, atMs),
+        markedAt: atMs,
+    }
+}
+
+// A user's positions, open and closed, optionally for one vault or status
+export async function listPositions(uid: string, query: PositionQuery = {}): Promise<HistoryPage<any>> {
+    const db = getStore()
+    const snap = await db.ref(query.vaultId ? `/positions/${uid}/${query.vaultId}` : `/positions/${uid}`).get()
+    const byVault: Record<string, any> = query.vaultId ? { [query.vaultId]: snap.exists() ? snap.val() : {} } : (snap.exists() ? snap.val() : {})
+    const positions: any[] = []
+    for (const [vaultId, byPos] of Object.entries<any>(byVault || {})) {
+        for (const [posId, position] of Object.entries<any>(byPos || {})) {
+            if (!position || (query.status && position.status !== query.status)) continue
+            positions.push({ ...position, uid, vaultId, posId })
+        }
+    }
+    const page = paginate(positions, positionKey, query)
+
+    const atMs = Date.now()
+    const hasOpen = page.items.some((p) => p.status === 'OPEN')
+    const sol = hasOpen ? await mark.getSolPriceUsd() : null
+    if (hasOpen && !sol) console.warn(TAG, 'no SOL price, open positions returned without PnL', { uid })
+    const vaults: Record<string, any> = {}
+    const marks: Record<string, { markUsd: number } | null> = {}
+    const items: any[] = []
+    for (const p of page.items) items.push(await withLivePnl(p, vaults, marks, sol ? sol.priceUsd : null, atMs))
+    return { items, nextCursor: page.nextCursor }
+}
+
+export default { encodeCursor, decodeCursor, pageLimit, paginate, listVaultTrades, listUserTrades, listPositions }
@@ -0,0 +1,112 @@
+// Idempotency keys for engine mutations. A client that sends an
+// `Idempotency-Key` header can retry a request safely: the first request
+// with a key claims `/idempotency/<uid>/<sha256(key)>` and stores its
+// response there; any retry with the same key gets that response back
+// without the engine running again. Records expire after IDEMPOTENCY_TTL_MS.
+//
+// Server errors (5xx) are not stored: the key is released so the client can
+// retry. A retry while the first request is still running is rejected, as is
+// reusing a key for a different request. The claim is only held for
+// IDEMPOTENCY_PENDING_MS, so a key whose request died without finishing can
+// be claimed again.
+import { createHash, randomUUID } from 'crypto'
+import { getStore } from './store'
+
+const TAG = '[IDEMPOTENCY]'
+
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000
+// Well past the time any engine request takes
+export const IDEMPOTENCY_PENDING_MS = Number(process.env.IDEMPOTENCY_PENDING_MS) || 60000
+const MAX_KEY_LENGTH = 255
+
+export type IdempotencyStart =
+    | { state: 'new', token: string }
+    | { state: 'replay', statusCode: number, body: any }
+    | { state: 'in_progress' }
+    | { state: 'mismatch' }
+
+export function isValidIdempotencyKey(key: any): key is string {
+    return typeof key === 'string' && key.length > 0 && key.length <= MAX_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key)
+}
+
+function sha256(s: string) {
+    return createHash('sha256').update(s).digest('hex')
+}
+
+// JSON with object keys sorted, so the same body always hashes the same
+function stableJson(v: any): string {
+    if (Array.isArray(v)) return `[${v.map(stableJson).join(',')}]`
+    if (v && typeof v === 'object') return `{${Object.keys(v).sort().filter((k) => v[k] !== undefined).map((k) => `${JSON.stringify(k)}:${stableJson(v[k])}`).join(',')}}`
+    return JSON.stringify(v ?? null)
+}
+
+// Identifies the request a key was first used for
+export function requestFingerprint(method: string, path: string, body: any) {
+    return sha256(`${method.toUpperCase()} ${path} ${stableJson(body ?? {})}`)
+}
+
+// Responses worth replaying; a server error may not have run the mutation at all
+export function isReplayableStatus(statusCode: number) {
+    return statusCode < 500
+}
+
+function recordRef(uid: string, key: string) {
+    return getStore().ref(`/idempotency/${uid}/${sha256(key)}`)
+}
+
+// Whether `rec` still holds its key at `atMs`: a stored response until it expires, a claim until its lease runs out
+export function isKeyHeld(rec: any, atMs: number) {
+    if (rec == null || !(rec.expiresAt > atMs)) return false
+    return rec.status !== 'PENDING' || (rec.pendingUntil ?? rec.createdAt + IDEMPOTENCY_PENDING_MS) > atMs
+}
+
+/**
+ * Claim `key` for a request by `uid`, or report why it cannot run: a stored
+ * response to replay, the first request still running, or the key having been
+ * used for a different request. The returned token identifies the claim to
+ * `finishIdempotent` and `releaseIdempotent`.
+ */
+export async function startIdempotent(uid: string, key: string, fingerprint: string): Promise<IdempotencyStart> {
+    const token = randomUUID()
+    const atMs = Date.now()
+    const txRes = await recordRef(uid, key).transaction((cur: any) => {
+        if (isKeyHeld(cur, atMs)) return
+        return { status: 'PENDING', token, fingerprint, createdAt: atMs, pendingUntil: atMs + IDEMPOTENCY_PENDING_MS, expiresAt: atMs + IDEMPOTENCY_TTL_MS }
+    })
+    const rec = txRes.snapshot.val()
+    if (txRes.committed && rec?.token === token) return { state: 'new', token }
+    if (!rec) return { state: 'in_progress' }
+    if (rec.fingerprint !== fingerprint) return { state: 'mismatch' }
+    if (rec.status === 'DONE') return { state: 'replay', statusCode: rec.statusCode, body: JSON.parse(rec.bodyJson) }
+    return { state: 'in_progress' }
+}
+
+// Store the response for replays, or release the key after a server error.
+// A claim that lapsed and was taken by a retry is left to that retry.
+export async function finishIdempotent(uid: string, key: string, token: string, statusCode: number, body: any) {
+    if (!isReplayableStatus(statusCode)) return releaseIdempotent(uid, key, token)
+    try {
+        await recordRef(uid, key).transaction((cur: any) => {
+            if (cur == null) return cur
+            if (cur.token !== token || cur.status !== 'PENDING') return
+            return { ...cur, status: 'DONE', statusCode, bodyJson: JSON.stringify(body ?? null), completedAt: Date.now() }
+        })
+    } catch (e) {
+        console.error(TAG, 'failed to store idempotent response', { uid, statusCode, err: e })
+    }
+}
+
+// Give up a claim without storing a response, so the client can retry with the key
+export async function releaseIdempotent(uid: string, key: string, token: string) {
+    try {
+        await recordRef(uid, key).transaction((cur: any) => {
+            if (cur == null) return cur
+            if (cur.token !== token || cur.status !== 'PENDING') return
+            return null
+        })
+    } catch (e) {
+        console.error(TAG, 'failed to release idempotency key', { uid, err: e })
+    }
+}
+
+export default { IDEMPOTENCY_TTL_MS, IDEMPOTENCY_PENDING_MS, isValidIdempotencyKey, requestFingerprint, isReplayableStatus, isKeyHeld, startIdempotent, finishIdempotent, releaseIdempotent }
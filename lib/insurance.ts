@@ -0,0 +1,157 @@
+// Platform insurance fund and bad debt. A slice of every platform fee
+// (`insuranceFundBps` in the platform config) is paid into the fund at
+// `/platform/insurance` instead of `/platform/treasury/fees`.
+//
+// A close leaves bad debt when the vault writes off value it had booked. The
+// vault is the trader's counterparty and its lent SOL stays in tvlSol, so a
+// trader loss beyond their collateral is only PnL it never receives; what it
+// loses is borrow interest it booked into NAV that the trader's equity could
+// not pay. The fund pays the vault as much of that shortfall as it holds; the
+// rest is socialized across the vault's LPs as a lower share price. Every
+// event is written to `/bad_debt/<eventId>` for audit.
+import { v4 as uuidv4 } from 'uuid'
+import { coerceNum } from './balanceTx'
+import { addSol, roundSol } from './lamports'
+import { ledgerAccount, LedgerRef, recordJournal } from './ledger'
+import { getPlatformConfig } from './platformConfig'
+import { treasuryRepo } from './repositories'
+import { getStore } from './store'
+
+const TAG = '[INSURANCE]'
+
+export interface InsuranceFund {
+    fundSol: number
+    contributedSol: number
+    paidOutSol: number
+    updatedAt: number | null
+}
+
+export interface CloseShortfall {
+    // Trader loss beyond their collateral
+    lossShortfallSol: number
+    // Accrued borrow interest the trader's equity could not pay
+    unpaidInterestSol: number
+    // What the vault had booked and writes off: the bad debt
+    shortfallSol: number
+}
+
+export interface BadDebtEvent {
+    eventId: string
+    vaultId: string
+    uid: string
+    posId: string
+    tradeId: string | null
+    liquidated: boolean
+    lossShortfallSol: number
+    unpaidInterestSol: number
+    shortfallSol: number
+    coveredSol: number
+    socializedSol: number
+    sharePriceSol: number | null
+    ts: number
+}
+
+// The insurance slice rounds down to a whole lamport; the treasury takes the remainder
+export function insuranceSplit(amountSol: number, insuranceFundBps: number) {
+    const insuranceSol = amountSol > 0 ? roundSol((amountSol * Math.max(0, Math.min(10000, insuranceFundBps))) / 10000, 'down') : 0
+    return { insuranceSol, treasurySol: addSol(amountSol, -insuranceSol) }
+}
+
+/**
+ * What a closing trader owes beyond what their collateral covers, and how
+ * much of it the vault had booked. Only unpaid interest booked into NAV
+ * (`interestBooked`, false for positions opened before NAV accounting) is
+ * written off; the borrowed principal is never lost, as it either stayed in
+ * tvlSol or is returned to it in full.
+ */
+export function closeShortfall(collateralSol: number, pnlSol: number, interestSol: number, interestPaidSol: number, interestBooked = true): CloseShortfall {
+    const lossShortfallSol = Math.max(0, -addSol(collateralSol, pnlSol))
+    const unpaidInterestSol = Math.max(0, addSol(interestSol, -interestPaidSol))
+    return { lossShortfallSol, unpaidInterestSol, shortfallSol: interestBooked ? unpaidInterestSol : 0 }
+}
+
+function insuranceRef() {
+    return getStore().ref('/platform/insurance')
+}
+
+/**
+ * Credit a platform fee: the configured slice goes to the insurance fund and
+ * the remainder to the treasury. The caller journals the fee into the
+ * treasury; the insurance slice is journaled here against `ref`.
+ */
+export async function creditPlatformFees(amountSol: number, source: string, ref: LedgerRef) {
+    if (!(amountSol > 0)) return { insuranceSol: 0, treasurySol: 0 }
+    const { insuranceFundBps } = await getPlatformConfig()
+    const { insuranceSol, treasurySol } = insuranceSplit(amountSol, insuranceFundBps)
+    if (insuranceSol > 0) {
+        await insuranceRef().transaction((f: any) => {
+            const fund = f || {}
+            fund.fundSol = addSol(coerceNum(fund.fundSol), insuranceSol)
+            fund.contributedSol = addSol(coerceNum(fund.contributedSol), insuranceSol)
+            fund.updatedAt = Date.now()
+            return fund
+        })
+        await recordJournal('insurance_allocation', ref, [{ from: ledgerAccount.treasury, to: ledgerAccount.insurance, amountSol: insuranceSol }])
+    }
+    if (treasurySol > 0) {
+        await treasuryRepo.credit(treasurySol)
+    }
+    console.info(TAG, 'platform fees credited', { source, amountSol, insuranceSol, treasurySol })
+    return { insuranceSol, treasurySol }
+}
+
+// Take up to `amountSol` out of the fund; returns what it could pay
+export async function drawInsurance(amountSol: number) {
+    if (!(amountSol > 0)) return 0
+    let paid = 0
+    const txRes = await insuranceRef().transaction((f: any) => {
+        if (f == null) {
+            paid = 0
+            return f
+        }
+        paid = roundSol(Math.min(amountSol, Math.max(0, coerceNum(f.fundSol))), 'down')
+        if (!(paid > 0)) return
+        f.fundSol = addSol(coerceNum(f.fundSol), -paid)
+        f.paidOutSol = addSol(coerceNum(f.paidOutSol), paid)
+        f.updatedAt = Date.now()
+        return f
+    })
+    return txRes.committed ? paid : 0
+}
+
+// Put back a draw whose close was abandoned before it settled
+export async function refundInsurance(amountSol: number) {
+    if (!(amountSol > 0)) return
+    await insuranceRef().transaction((f: any) => {
+        const fund = f || {}
+        fund.fundSol = addSol(coerceNum(fund.fundSol), amountSol)
+        fund.paidOutSol = Math.max(0, addSol(coerceNum(fund.paidOutSol), -amountSol))
+        fund.updatedAt = Date.now()
+        return fund
+    })
+}
+
+export async function recordBadDebt(event: Omit<BadDebtEvent, 'eventId'>) {
+    const entry: BadDebtEvent = { eventId: uuidv4(), ...event }
+    await getStore().ref(`/bad_debt/${entry.eventId}`).set(entry)
+    console.warn(TAG, 'bad debt', { vaultId: entry.vaultId, posId: entry.posId, shortfallSol: entry.shortfallSol, coveredSol: entry.coveredSol, socializedSol: entry.socializedSol })
+    return entry
+}
+
+export async function getInsuranceFund(): Promise<InsuranceFund> {
+    const snap = await insuranceRef().get()
+    const f = snap.exists() ? snap.val() : {}
+    return { fundSol: coerceNum(f.fundSol), contributedSol: coerceNum(f.contributedSol), paidOutSol: coerceNum(f.paidOutSol), updatedAt: f.updatedAt ?? null }
+}
+
+// Bad debt events, newest first, optionally for one vault
+export async function listBadDebt(opts?: { vaultId?: string, limit?: number }) {
+    const limit = Math.max(1, Math.min(opts?.limit ?? 100, 1000))
+    const base = getStore().ref('/bad_debt')
+    const snap = opts?.vaultId ? await base.orderByChild('vaultId').equalTo(opts.vaultId).get() : await base.orderByChild('ts').limitToLast(limit).get()
+    return Object.values<BadDebtEvent>(snap.exists() ? snap.val() : {})
+        .sort((a, b) => b.ts - a.ts)
+        .slice(0, limit)
+}
+
+export default { insuranceSplit, closeShortfall, creditPlatformFees, drawInsurance, refundInsurance, recordBadDebt, getInsuranceFund, listBadDebt }
@@ -0,0 +1,35 @@
+// Borrow interest accrual for leveraged positions
+import { computeInterestSol } from './math'
+
+export interface InterestBearingPosition {
+    borrowSol: number
+    debtAprBps?: number
+    entryTs: number
+    // interest accrued up to `interestCheckpointTs` but not yet charged
+    interestAccruedSol?: number
+    interestCheckpointTs?: number
+}
+
+/**
+ * Interest owed on a position at `atMs`: the checkpointed amount plus
+ * interest on the current `borrowSol` since the last checkpoint (or entry).
+ */
+export function accruedInterestSol(position: InterestBearingPosition, atMs = Date.now()) {
+    const sinceTs = typeof position.interestCheckpointTs === 'number' ? position.interestCheckpointTs : position.entryTs
+    const dtSeconds = Math.max(0, (atMs - (sinceTs || atMs)) / 1000)
+    const pending = computeInterestSol(position.borrowSol || 0, position.debtAprBps || 0, dtSeconds)
+    return (position.interestAccruedSol || 0) + pending
+}
+
+/**
+ * Fold interest accrued so far into the position. Call before any event that
+ * changes `borrowSol` so later accrual starts from the new principal.
+ */
+export function checkpointInterest(position: InterestBearingPosition, atMs = Date.now()) {
+    return {
+        interestAccruedSol: accruedInterestSol(position, atMs),
+        interestCheckpointTs: atMs,
+    }
+}
+
+export default { accruedInterestSol, checkpointInterest }
@@ -0,0 +1,152 @@
+// Server-side liquidation keeper. Periodically marks every open position
+// against the current price and liquidates those whose margin ratio has
+// fallen below the vault's `mmrBps`.
+import { closePosition, listOpenPositions } from './engine'
+import * as mark from './mark'
+import { assessPosition, PositionHealth } from './risk'
+import { getStore } from './store'
+
+const TAG = '[KEEPER]'
+
+export interface PositionRisk extends PositionHealth {
+    uid: string
+    vaultId: string
+    posId: string
+    tokenMint: string
+    side: string
+    markUsd: number
+    solPriceUsd: number
+}
+
+export interface KeeperRunResult {
+    dryRun: boolean
+    scanned: number
+    unpriced: number
+    liquidatable: PositionRisk[]
+    liquidated: Array<{ uid: string, vaultId: string, posId: string, ok: boolean, error?: string }>
+    ts: number
+}
+
+class LiquidationKeeper {
+    private interval: NodeJS.Timeout | null = null
+    private running = false
+    private lastRun: KeeperRunResult | null = null
+    private readonly intervalMs = Number(process.env.KEEPER_INTERVAL_MS) || 15000
+    readonly dryRun = process.env.KEEPER_DRY_RUN === 'true'
+
+    start() {
+        if (this.interval) return
+        console.log(TAG, `Starting liquidation keeper (interval ${this.intervalMs}ms, dryRun=${this.dryRun})`)
+        this.interval = setInterval(() => {
+            this.runOnce().catch((err) => console.error(TAG, 'run failed', err))
+        }, this.intervalMs)
+    }
+
+    stop() {
+        if (this.interval) {
+            clearInterval(this.interval)
+            this.interval = null
+            console.log(TAG, 'Liquidation keeper stopped')
+        }
+    }
+
+    getStatus() {
+        return { active: !!this.interval, intervalMs: this.intervalMs, dryRun: this.dryRun, lastRun: this.lastRun }
+    }
+
+    /**
+     * Mark every open position (optionally for one vault). Positions whose
+     * token has no server-side mark are skipped and counted as `unpriced`.
+     */
+    async scanPositions(opts?: { vaultId?: string }): Promise<{ positions: PositionRisk[], unpriced: number }> {
+        const db = getStore()
+        const open = await listOpenPositions({ vaultId: opts?.vaultId })
+        const vaults: Record<string, any> = {}
+        const marks: Record<string, { markUsd: number } | null> = {}
+        const sol = await mark.getSolPriceUsd()
+        const positions: PositionRisk[] = []
+        let unpriced = 0
+        const atMs = Date.now()
+
+        for (const { uid, vaultId, posId, position } of open) {
+            if (!(vaultId in vaults)) {
+                const vSnap = await db.ref(`/vaults/${vaultId}`).get()
+                vaults[vaultId] = vSnap.exists() ? vSnap.val() : null
+            }
+            const vault = vaults[vaultId]
+            if (!vault) continue
+            const tokenMint: string = vault.tokenMint || vaultId
+            if (!(tokenMint in marks)) marks[tokenMint] = await mark.getTokenMarkUsd(tokenMint)
+            const tokenMark = marks[tokenMint]
+            if (!sol || !tokenMark) {
+                unpriced++
+                continue
+            }
+            const valueSol = (position.sizeToken * tokenMark.markUsd) / sol.priceUsd
+            const health = assessPosition(position, vault.params, valueSol, atMs)
+            positions.push({
+                ...health,
+                uid,
+                vaultId,
+                posId,
+                tokenMint,
+                side: position.side || 'LONG',
+                markUsd: tokenMark.markUsd,
+                solPriceUsd: sol.priceUsd,
+            })
+        }
+        return { positions, unpriced }
+    }
+
+    /**
+     * Positions at or near liquidation: margin ratio under `mmrBps + bufferBps`.
+     * Sorted with the least healthy first.
+     */
+    async listAtRisk(opts?: { vaultId?: string, bufferBps?: number }) {
+        const bufferBps = opts?.bufferBps ?? 0
+        const { positions, unpriced } = await this.scanPositions({ vaultId: opts?.vaultId })
+        const atRisk = positions
+            .filter((p) => p.mrBps < p.mmrBps + bufferBps)
+            .sort((a, b) => (a.mrBps - a.mmrBps) - (b.mrBps - b.mmrBps))
+        return { positions: atRisk, unpriced }
+    }
+
+    async runOnce(opts?: { dryRun?: boolean }): Promise<KeeperRunResult> {
+        const dryRun = opts?.dryRun ?? this.dryRun
+        if (this.running) {
+            console.warn(TAG, 'previous run still in progress, skipping')
+            return this.lastRun ?? { dryRun, scanned: 0, unpriced: 0, liquidatable: [], liquidated: [], ts: Date.now() }
+        }
+        this.running = true
+        try {
+            const { positions, unpriced } = await this.scanPositions()
+            const liquidatable = positions.filter((p) => p.liquidatable)
+            const liquidated: KeeperRunResult['liquidated'] = []
+
+            for (const p of liquidatable) {
+                if (dryRun) {
+                    console.info(TAG, '[dry-run] would liquidate', { uid: p.uid, vaultId: p.vaultId, posId: p.posId, mrBps: p.mrBps, mmrBps: p.mmrBps })
+                    continue
+                }
+                try {
+                    // closePosition re-marks the position and re-checks mmrBps before settling
+                    await closePosition(p.uid, p.vaultId, p.posId, { liquidated: true, liquidatedBy: 'keeper' })
+                    liquidated.push({ uid: p.uid, vaultId: p.vaultId, posId: p.posId, ok: true })
+                } catch (err: any) {
+                    console.warn(TAG, 'liquidation failed', { uid: p.uid, vaultId: p.vaultId, posId: p.posId, err: err?.message || err })
+                    liquidated.push({ uid: p.uid, vaultId: p.vaultId, posId: p.posId, ok: false, error: err?.message || String(err) })
+                }
+            }
+
+            this.lastRun = { dryRun, scanned: positions.length, unpriced, liquidatable, liquidated, ts: Date.now() }
+            if (liquidatable.length) {
+                console.info(TAG, 'run complete', { dryRun, scanned: positions.length, unpriced, liquidatable: liquidatable.length, liquidated: liquidated.filter((l) => l.ok).length })
+            }
+            return this.lastRun
+        } finally {
+            this.running = false
+        }
+    }
+}
+
+export const liquidationKeeper = new LiquidationKeeper()
@@ -0,0 +1,75 @@
+// One-off migration of SOL amounts written before lamport accounting (see
+// lamports.ts). Finds every engine amount that is not a whole number of
+// lamports and rounds it to the nearest lamport; the dust involved is below
+// one lamport per field. Accruals (`accruedInterestSol`) and share counts are
+// not amounts and are left alone. scripts/migrate_lamports.ts runs it.
+import { roundSol } from './lamports'
+
+export interface LamportFix {
+    path: string
+    from: number
+    to: number
+}
+
+// Amount fields on a vault record, relative to `/vaults/<vaultId>`
+const VAULT_FIELDS = ['tvlSol', 'totalBorrowsSol', 'feesForCreator', 'pendingFeesSol']
+// Amount fields on a composition entry
+const ENTRY_FIELDS = ['sol', 'claimable']
+const INSURANCE_FIELDS = ['fundSol', 'contributedSol', 'paidOutSol']
+const POSITION_FIELDS = ['collateralSol', 'borrowSol', 'entryNotionalSol']
+const ORDER_FIELDS = ['collateralSol', 'reservedSol']
+
+export interface LamportMigrationInput {
+    users?: Record<string, any> | null
+    vaults?: Record<string, any> | null
+    positions?: Record<string, any> | null
+    orders?: Record<string, any> | null
+    treasuryFees?: number | null
+    insurance?: Record<string, any> | null
+}
+
+function check(out: LamportFix[], path: string, v: any) {
+    if (typeof v !== 'number' || !Number.isFinite(v)) return
+    const to = roundSol(v)
+    if (to !== v) out.push({ path, from: v, to })
+}
+
+function checkFields(out: LamportFix[], base: string, obj: any, fields: string[]) {
+    if (!obj || typeof obj !== 'object') return
+    for (const f of fields) check(out, `${base}/${f}`, obj[f])
+}
+
+// Every amount in `data` that needs rounding, with its database path
+export function lamportMigrationFixes(data: LamportMigrationInput): LamportFix[] {
+    const out: LamportFix[] = []
+    for (const [uid, u] of Object.entries(data.users || {})) check(out, `/users/${uid}/balance`, u?.balance)
+
+    for (const [vaultId, v] of Object.entries(data.vaults || {})) {
+        const base = `/vaults/${vaultId}`
+        checkFields(out, base, v, VAULT_FIELDS)
+        checkFields(out, `${base}/composition/creator`, v?.composition?.creator, ENTRY_FIELDS)
+        for (const [key, c] of Object.entries<any>(v?.composition?.contributors || {})) {
+            checkFields(out, `${base}/composition/contributors/${key}`, c, ENTRY_FIELDS)
+        }
+    }
+
+    // Only open positions and resting orders still move balances or vault capital
+    for (const [uid, byVault] of Object.entries<any>(data.positions || {})) {
+        for (const [vaultId, byPos] of Object.entries<any>(byVault || {})) {
+            for (const [posId, p] of Object.entries<any>(byPos || {})) {
+                if (p?.status === 'OPEN') checkFields(out, `/positions/${uid}/${vaultId}/${posId}`, p, POSITION_FIELDS)
+            }
+        }
+    }
+    for (const [vaultId, byOrder] of Object.entries<any>(data.orders || {})) {
+        for (const [orderId, o] of Object.entries<any>(byOrder || {})) {
+            if (o?.status === 'OPEN') checkFields(out, `/orders/${vaultId}/${orderId}`, o, ORDER_FIELDS)
+        }
+    }
+
+    check(out, '/platform/treasury/fees', data.treasuryFees)
+    checkFields(out, '/platform/insurance', data.insurance, INSURANCE_FIELDS)
+    return out
+}
+
+export default { lamportMigrationFixes }
@@ -0,0 +1,68 @@
+// Integer lamport accounting for engine amounts.
+//
+// Balances and vault/fee amounts stay in their existing SOL fields
+// (`/users/<uid>/balance`, `tvlSol`, `totalBorrowsSol`, `feesForCreator`,
+// `claimable`, `/platform/treasury/fees`, ...) so current readers keep
+// working, but every value the engine writes there is a whole number of
+// lamports: amounts are converted to integer lamports, combined with integer
+// math and converted back only at the write. Since a lamport-aligned SOL
+// value converts back to the same integer, repeated updates never drift.
+//
+// Rounding policy when a SOL amount has to become lamports:
+//   - 'up':      amounts a user pays (fees, interest owed, reservations)
+//   - 'down':    amounts paid out to a user (payouts, withdrawals, fee shares)
+//   - 'nearest': amounts given as input (deposits, collateral, margin)
+// When an amount is split, every part but one is rounded down and the last
+// part takes the remainder, so the parts always sum exactly to the whole.
+//
+// Integer lamports stay exact in a JS number up to 2^53 (about 9 million SOL).
+
+export const LAMPORTS_PER_SOL = 1_000_000_000
+
+export type Rounding = 'nearest' | 'down' | 'up'
+
+// Float noise below this many lamports (e.g. 0.3 * 1e9 = 299999999.99999994) is not a real fraction
+const EPSILON_LAMPORTS = 1e-6
+
+export function toLamports(sol: number, rounding: Rounding = 'nearest'): number {
+    if (!Number.isFinite(sol)) throw new Error('invalid_amount')
+    const raw = sol * LAMPORTS_PER_SOL
+    const nearest = Math.round(raw)
+    if (rounding === 'nearest' || Math.abs(raw - nearest) < EPSILON_LAMPORTS) return nearest
+    return rounding === 'down' ? Math.floor(raw) : Math.ceil(raw)
+}
+
+export function toSol(lamports: number): number {
+    return lamports / LAMPORTS_PER_SOL
+}
+
+// `sol` rounded to a whole number of lamports
+export function roundSol(sol: number, rounding: Rounding = 'nearest') {
+    return toSol(toLamports(sol, rounding))
+}
+
+// Lamport-exact sum of SOL amounts (each already lamport-aligned or rounded to nearest)
+export function addSol(...amounts: number[]) {
+    return toSol(amounts.reduce((s, a) => s + toLamports(a || 0), 0))
+}
+
+// `lamports * fraction`, rounded to whole lamports
+export function mulLamports(lamports: number, fraction: number, rounding: Rounding = 'down') {
+    return toLamports(toSol(lamports) * fraction, rounding)
+}
+
+/**
+ * Split `totalLamports` into parts proportional to `weights`. Every part is
+ * rounded down and the remainder goes to the part at `remainderIndex`
+ * (default: the last), so the parts sum exactly to the total.
+ */
+export function splitLamports(totalLamports: number, weights: number[], remainderIndex = weights.length - 1) {
+    if (!weights.length) return []
+    const totalWeight = weights.reduce((s, w) => s + Math.max(0, w), 0)
+    const parts = weights.map((w) => (totalWeight > 0 ? Math.floor(totalLamports * (Math.max(0, w) / totalWeight)) : 0))
+    const allocated = parts.reduce((s, p) => s + p, 0)
+    parts[remainderIndex] += totalLamports - allocated
+    return parts
+}
+
+export default { LAMPORTS_PER_SOL, toLamports, toSol, roundSol, addSol, mulLamports, splitLamports }
@@ -0,0 +1,251 @@
+// Double-entry journal of every SOL balance movement. Balances are still kept
+// in place (`/users/<uid>/balance`, `tvlSol`, treasury, ...) for the engine to
+// read; each mutation also appends a journal entry explaining it:
+//   /ledger/entries/<entryId>            { reason, ref, postings, ts }
+//   /ledger/accounts/<account>/<entryId> entry ts, the per-account index
+// Every entry's debits equal its credits. An account's balance is its credits
+// less its debits, so moving SOL from A to B debits A and credits B.
+//
+// Accounts:
+//   user:<uid>        a user's balance
+//   vault:<vaultId>   vault capital (tvlSol)
+//   margin:<vaultId>  collateral held by open positions on the vault
+//   orders:<vaultId>  balance reserved by resting limit orders
+//   fees:<vaultId>    fees owed to the vault's creator and contributors
+//   referral:<uid>    a referrer's unclaimed rebates
+//   treasury, insurance
+//   external          SOL from outside the engine (opening balances)
+//
+// Entries are written after the balance change commits. A failed journal
+// write is logged with the full entry and never fails the operation: the SOL
+// has already moved, and surfacing an error would invite a retry that moves
+// it twice.
+import { v4 as uuidv4 } from 'uuid'
+import { coerceNum } from './balanceTx'
+import { addSol, toLamports } from './lamports'
+import { getStore } from './store'
+
+const TAG = '[LEDGER]'
+
+export type LedgerReason =
+    | 'vault_create_deposit'
+    | 'vault_deposit'
+    | 'position_open'
+    | 'position_close'
+    | 'margin_add'
+    | 'margin_remove'
+    | 'order_reserve'
+    | 'order_release'
+    | 'order_fill'
+    | 'fee_claim'
+    | 'referral_claim'
+    | 'vault_withdraw'
+    | 'wind_down_payout'
+    | 'insurance_allocation'
+    | 'opening_balance'
+
+export interface LedgerRef {
+    type: 'trade' | 'fee' | 'order' | 'position' | 'withdrawal' | 'vault' | 'migration'
+    id: string
+}
+
+export interface Transfer {
+    from: string
+    to: string
+    amountSol: number
+}
+
+export interface Posting {
+    account: string
+    debitSol: number
+    creditSol: number
+}
+
+export interface JournalEntry {
+    entryId: string
+    reason: LedgerReason
+    ref: LedgerRef
+    postings: Posting[]
+    ts: number
+}
+
+export const ledgerAccount = {
+    user: (uid: string) => `user:${uid}`,
+    vault: (vaultId: string) => `vault:${vaultId}`,
+    margin: (vaultId: string) => `margin:${vaultId}`,
+    orders: (vaultId: string) => `orders:${vaultId}`,
+    vaultFees: (vaultId: string) => `fees:${vaultId}`,
+    referral: (uid: string) => `referral:${uid}`,
+    treasury: 'treasury',
+    insurance: 'insurance',
+    external: 'external',
+}
+
+/**
+ * Net `transfers` into one posting per account. A negative amount moves SOL
+ * the other way; accounts that net to zero are left out.
+ */
+export function postingsFor(transfers: Transfer[]): Posting[] {
+    const net = new Map<string, number>()
+    for (const t of transfers) {
+        if (!t.amountSol) continue
+        net.set(t.from, addSol(net.get(t.from) ?? 0, -t.amountSol))
+        net.set(t.to, addSol(net.get(t.to) ?? 0, t.amountSol))
+    }
+    const postings: Posting[] = []
+    for (const [account, sol] of net) {
+        if (sol !== 0) postings.push({ account, debitSol: sol < 0 ? -sol : 0, creditSol: sol > 0 ? sol : 0 })
+    }
+    return postings
+}
+
+export function isBalanced(postings: Posting[]) {
+    const debits = postings.reduce((s, p) => s + toLamports(p.debitSol), 0)
+    const credits = postings.reduce((s, p) => s + toLamports(p.creditSol), 0)
+    return debits === credits
+}
+
+// Credits less debits of `account` over `entries`
+export function accountBalance(entries: JournalEntry[], account: string) {
+    const amounts: number[] = []
+    for (const e of entries) {
+        for (const p of e.postings || []) {
+            if (p.account === account) amounts.push(coerceNum(p.creditSol), -coerceNum(p.debitSol))
+        }
+    }
+    return addSol(...amounts)
+}
+
+/**
+ * Append a journal entry for `transfers`. Returns the entry, or null when
+ * nothing moved or the write failed (logged; see above).
+ */
+export async function recordJournal(reason: LedgerReason, ref: LedgerRef, transfers: Transfer[]): Promise<JournalEntry | null> {
+    const postings = postingsFor(transfers)
+    if (!postings.length) return null
+    const entry: JournalEntry = { entryId: uuidv4(), reason, ref, postings, ts: Date.now() }
+    if (!isBalanced(postings)) {
+        console.error(TAG, 'unbalanced journal entry not written', entry)
+        return null
+    }
+    const updates: Record<string, any> = { [`/ledger/entries/${entry.entryId}`]: entry }
+    for (const p of postings) updates[`/ledger/accounts/${p.account}/${entry.entryId}`] = entry.ts
+    try {
+        await getStore().ref().update(updates)
+    } catch (e) {
+        console.error(TAG, 'journal write failed', { entry, err: e })
+        return null
+    }
+    return entry
+}
+
+// Where an account's in-place balance is stored, for comparison with the journal
+async function storedBalanceSol(account: string): Promise<number | null> {
+    const sep = account.indexOf(':')
+    const kind = sep < 0 ? account : account.slice(0, sep)
+    const id = sep < 0 ? '' : account.slice(sep + 1)
+    const db = getStore()
+    const read = async (path: string) => {
+        const snap = await db.ref(path).get()
+        return snap.exists() ? snap.val() : null
+    }
+    if (kind === 'user') return coerceNum(await read(`/users/${id}/balance`))
+    if (kind === 'vault') return coerceNum(await read(`/vaults/${id}/tvlSol`))
+    if (kind === 'referral') return coerceNum(await read(`/referrals/${id}/claimableSol`))
+    if (kind === 'treasury') return coerceNum(await read('/platform/treasury/fees'))
+    if (kind === 'insurance') return coerceNum(await read('/platform/insurance/fundSol'))
+    if (kind === 'fees') {
+        const vault = await read(`/vaults/${id}`)
+        const claimable = Object.values<any>(vault?.composition?.contributors || {}).map((c) => coerceNum(c?.claimable))
+        return addSol(coerceNum(vault?.feesForCreator), ...claimable)
+    }
+    return null
+}
+
+/**
+ * Rebuild `account`'s balance from its journal entries, alongside the stored
+ * balance where there is one. A non-zero `driftSol` means the stored balance
+ * moved without a journal entry.
+ */
+export async function rebuildAccountBalance(account: string) {
+    const db = getStore()
+    const idxSnap = await db.ref(`/ledger/accounts/${account}`).get()
+    const entryIds = Object.keys(idxSnap.exists() ? idxSnap.val() : {})
+    const entries: JournalEntry[] = []
+    for (const entryId of entryIds) {
+        const snap = await db.ref(`/ledger/entries/${entryId}`).get()
+        if (snap.exists()) entries.push(snap.val())
+        else console.warn(TAG, 'indexed journal entry missing', { account, entryId })
+    }
+    const balanceSol = accountBalance(entries, account)
+    const storedSol = await storedBalanceSol(account)
+    return {
+        account,
+        balanceSol,
+        entries: entries.length,
+        lastEntryAt: entries.reduce((m, e) => Math.max(m, e.ts || 0), 0) || null,
+        storedSol,
+        driftSol: storedSol == null ? null : addSol(storedSol, -balanceSol),
+    }
+}
+
+// An account's journal entries, newest first
+export async function listAccountEntries(account: string, opts?: { limit?: number }) {
+    const limit = Math.max(1, Math.min(opts?.limit ?? 100, 1000))
+    const db = getStore()
+    const idxSnap = await db.ref(`/ledger/accounts/${account}`).orderByValue().limitToLast(limit).get()
+    const entries: JournalEntry[] = []
+    for (const entryId of Object.keys(idxSnap.exists() ? idxSnap.val() : {})) {
+        const snap = await db.ref(`/ledger/entries/${entryId}`).get()
+        if (snap.exists()) entries.push(snap.val())
+    }
+    return entries.sort((a, b) => b.ts - a.ts)
+}
+
+export interface OpeningBalanceInput {
+    users?: Record<string, any> | null
+    vaults?: Record<string, any> | null
+    positions?: Record<string, any> | null
+    orders?: Record<string, any> | null
+    referrals?: Record<string, any> | null
+    treasuryFees?: number | null
+    insurance?: Record<string, any> | null
+}
+
+/**
+ * Transfers from `external` that open the journal at the balances stored
+ * before it existed. scripts/seed_ledger.ts books them once as an
+ * `opening_balance` entry.
+ */
+export function openingBalanceTransfers(data: OpeningBalanceInput): Transfer[] {
+    const out: Transfer[] = []
+    const open = (to: string, amountSol: any) => {
+        const sol = coerceNum(amountSol)
+        if (sol !== 0) out.push({ from: ledgerAccount.external, to, amountSol: sol })
+    }
+    for (const [uid, u] of Object.entries<any>(data.users || {})) open(ledgerAccount.user(uid), u?.balance)
+    for (const [vaultId, v] of Object.entries<any>(data.vaults || {})) {
+        open(ledgerAccount.vault(vaultId), v?.tvlSol)
+        const claimable = Object.values<any>(v?.composition?.contributors || {}).map((c) => coerceNum(c?.claimable))
+        open(ledgerAccount.vaultFees(vaultId), addSol(coerceNum(v?.feesForCreator), ...claimable))
+    }
+    const margin = new Map<string, number>()
+    for (const byVault of Object.values<any>(data.positions || {})) {
+        for (const [vaultId, byPos] of Object.entries<any>(byVault || {})) {
+            for (const p of Object.values<any>(byPos || {})) {
+                if (p?.status === 'OPEN') margin.set(vaultId, addSol(margin.get(vaultId) ?? 0, coerceNum(p.collateralSol)))
+            }
+        }
+    }
+    for (const [vaultId, sol] of margin) open(ledgerAccount.margin(vaultId), sol)
+    for (const [vaultId, byOrder] of Object.entries<any>(data.orders || {})) {
+        const reserved = Object.values<any>(byOrder || {}).filter((o) => o?.status === 'OPEN').map((o) => coerceNum(o.reservedSol))
+        open(ledgerAccount.orders(vaultId), addSol(...reserved))
+    }
+    for (const [uid, r] of Object.entries<any>(data.referrals || {})) open(ledgerAccount.referral(uid), r?.claimableSol)
+    open(ledgerAccount.treasury, data.treasuryFees)
+    open(ledgerAccount.insurance, data.insurance?.fundSol)
+    return out
+}
+
+export default { ledgerAccount, postingsFor, isBalanced, accountBalance, recordJournal, rebuildAccountBalance, listAccountEntries, openingBalanceTransfers }
@@ -0,0 +1,232 @@
+// Vault lifecycle operations: status changes by the creator or an admin and
+// the wind-down that retires a vault (states and rules live in vaultStatus.ts).
+//
+// A wind-down force-closes every remaining position, then burns every LP's
+// shares and pays the vault's capital out pro-rata. It can be re-run: a
+// position that fails to settle, or an LP whose balance credit fails, leaves
+// the vault CLOSE_ONLY so the next run picks up where this one stopped.
+import { v4 as uuidv4 } from 'uuid'
+import { transactionWithReadGuard } from './balanceTx'
+import { closePosition, listOpenPositions } from './engine'
+import { addSol, splitLamports, toLamports, toSol } from './lamports'
+import { ledgerAccount, recordJournal } from './ledger'
+import { compositionEntries, ensureShares, recordNav } from './nav'
+import { cancelOrder, listVaultOrders } from './orders'
+import { applyUtilization } from './rates'
+import { getStore } from './store'
+import { canTransition, VaultStatus, vaultStatus } from './vaultStatus'
+import { listWithdrawals } from './withdrawals'
+
+const TAG = '[LIFECYCLE]'
+
+export interface LifecycleActor {
+    uid: string
+    admin?: boolean
+}
+
+export interface WindDownPayout {
+    uid: string
+    shares: number
+    amountSol: number
+    ok: boolean
+    error?: string
+}
+
+function now() {
+    return Date.now()
+}
+
+async function loadVault(vaultId: string) {
+    const snap = await getStore().ref(`/vaults/${vaultId}`).get()
+    if (!snap.exists()) throw new Error('vault_not_found')
+    return snap.val()
+}
+
+// Vault management (status, params) is open to the vault creator and engine admins
+export function assertCanManage(vault: any, actor: LifecycleActor) {
+    if (actor.admin) return
+    const creatorUid = vault?.composition?.creatorUid || vault?.creatorUid
+    if (creatorUid !== actor.uid) throw new Error('not_creator')
+}
+
+async function cancelOpenOrders(vaultId: string) {
+    let cancelled = 0
+    for (const order of await listVaultOrders(vaultId, { status: 'OPEN' })) {
+        try {
+            await cancelOrder(order.uid, vaultId, order.orderId)
+            cancelled++
+        } catch (err: any) {
+            console.warn(TAG, 'cancel order failed', { vaultId, orderId: order.orderId, err: err?.message || err })
+        }
+    }
+    return cancelled
+}
+
+/**
+ * Move a vault to `to` (ACTIVE, PAUSED or CLOSE_ONLY). Going CLOSE_ONLY
+ * cancels the vault's resting limit orders and refunds their reservations.
+ */
+export async function setVaultStatus(vaultId: string, to: VaultStatus, actor: LifecycleActor, opts?: { reason?: string }) {
+    assertCanManage(await loadVault(vaultId), actor)
+    if (to === 'WOUND_DOWN') throw new Error('use_wind_down')
+
+    let from: VaultStatus = 'ACTIVE'
+    let abort: string | null = null
+    const atMs = now()
+    const txRes = await getStore().ref(`/vaults/${vaultId}`).transaction((v: any) => {
+        if (v == null) return v
+        from = vaultStatus(v)
+        if (!canTransition(from, to)) {
+            abort = 'invalid_status_transition'
+            return
+        }
+        abort = null
+        v.status = to
+        v.statusChangedAt = atMs
+        v.statusChangedBy = actor.uid
+        v.statusReason = opts?.reason ?? null
+        v.updatedAt = atMs
+        return v
+    })
+    if (!txRes.committed || !txRes.snapshot.exists()) {
+        const err: any = new Error(abort || 'vault_not_found')
+        err.from = from
+        err.to = to
+        throw err
+    }
+
+    const cancelledOrders = to === 'CLOSE_ONLY' ? await cancelOpenOrders(vaultId) : 0
+    console.info(TAG, 'setVaultStatus', { vaultId, from, to, by: actor.uid, admin: !!actor.admin, cancelledOrders })
+    return { vaultId, from, to, cancelledOrders }
+}
+
+// Burn every LP's shares and take their pro-rata slice of `tvlSol` out of the vault.
+// The slices are split in whole lamports and sum exactly to the vault's capital.
+async function takeLpPayouts(vaultId: string, atMs: number) {
+    let payouts: Array<{ uid: string, shares: number, amountSol: number }> = []
+    let abort: string | null = null
+    const txRes = await getStore().ref(`/vaults/${vaultId}`).transaction((v: any) => {
+        if (v == null) return v
+        if ((v.totalBorrowsSol || 0) > 1e-9) {
+            abort = 'positions_still_open'
+            return
+        }
+        abort = null
+        ensureShares(v)
+        // With nothing lent out there is no interest left to collect; pay out the SOL actually held
+        v.accruedInterestSol = 0
+        v.borrowAprWeight = 0
+        v.interestCheckpointTs = atMs
+        const capitalLamports = toLamports(Math.max(0, v.tvlSol || 0), 'down')
+        const holders = compositionEntries(v).filter((entry) => (entry.shares || 0) > 0)
+        const parts = splitLamports(capitalLamports, holders.map((entry) => entry.shares))
+        payouts = []
+        holders.forEach((entry, i) => {
+            payouts.push({ uid: entry.uid, shares: entry.shares, amountSol: toSol(parts[i]) })
+            entry.shares = 0
+            entry.sol = 0
+            entry.queuedShares = 0
+        })
+        v.totalShares = 0
+        v.tvlSol = 0
+        v.withdrawQueueShares = 0
+        delete v.withdrawQueueFills
+        applyUtilization(v)
+        v.updatedAt = atMs
+        return v
+    })
+    if (!txRes.committed) throw new Error(abort || 'wind_down_failed')
+    return { payouts, vault: txRes.snapshot.val() }
+}
+
+// Give a payout that could not be credited back to the LP as shares, so a later run pays it
+async function restorePayout(vaultId: string, p: { uid: string, shares: number, amountSol: number }) {
+    await getStore().ref(`/vaults/${vaultId}`).transaction((v: any) => {
+        if (v == null) return v
+        const entry = compositionEntries(v).find((e) => e.uid === p.uid)
+        if (entry) {
+            entry.shares = (entry.shares || 0) + p.shares
+            entry.sol = addSol(entry.sol || 0, p.amountSol)
+        }
+        v.totalShares = (v.totalShares || 0) + p.shares
+        v.tvlSol = addSol(v.tvlSol || 0, p.amountSol)
+        return v
+    })
+}
+
+/**
+ * Retire a CLOSE_ONLY vault: settle every open position at the server mark
+ * (or at `settlePriceUsd` when the token has none), cancel queued
+ * withdrawals, pay every LP out and mark the vault WOUND_DOWN.
+ */
+export async function windDownVault(vaultId: string, actor: LifecycleActor, opts?: { settlePriceUsd?: number }) {
+    const vault = await loadVault(vaultId)
+    assertCanManage(vault, actor)
+    const status = vaultStatus(vault)
+    if (status === 'WOUND_DOWN') throw new Error('vault_wound_down')
+    if (status !== 'CLOSE_ONLY') throw new Error('vault_not_close_only')
+    const db = getStore()
+
+    await cancelOpenOrders(vaultId)
+
+    const closed: Array<{ uid: string, posId: string, userPayoutSol: number }> = []
+    const failed: Array<{ uid: string, posId: string, error: string }> = []
+    for (const { uid, posId } of await listOpenPositions({ vaultId })) {
+        try {
+            const res = await closePosition(uid, vaultId, posId, { windDown: true, settlePriceUsd: opts?.settlePriceUsd })
+            closed.push({ uid, posId, userPayoutSol: res.userPayoutSol })
+        } catch (err: any) {
+            failed.push({ uid, posId, error: err?.message || String(err) })
+        }
+    }
+    if (failed.length) {
+        console.warn(TAG, 'windDownVault positions left open', { vaultId, closed: closed.length, failed })
+        return { vaultId, complete: false, closed, failed, payouts: [] as WindDownPayout[] }
+    }
+
+    const atMs = now()
+    const { payouts, vault: paidVault } = await takeLpPayouts(vaultId, atMs)
+
+    // Queued withdrawals are paid by the wind-down itself
+    const updates: Record<string, any> = {}
+    for (const req of await listWithdrawals(vaultId)) {
+        if (req.status !== 'QUEUED') continue
+        updates[`/vault_withdrawals/${vaultId}/${req.requestId}/status`] = 'CANCELLED'
+        updates[`/vault_withdrawals/${vaultId}/${req.requestId}/cancelledBy`] = 'wind_down'
+        updates[`/vault_withdrawals/${vaultId}/${req.requestId}/updatedAt`] = atMs
+    }
+
+    const results: WindDownPayout[] = []
+    for (const p of payouts) {
+        if (!(p.amountSol > 0)) {
+            results.push({ ...p, ok: true })
+            continue
+        }
+        const credit = await transactionWithReadGuard(db.ref(`/users/${p.uid}/balance`), (cur: number) => addSol(cur, p.amountSol), { attempts: 6, backoffMs: 50, tag: 'wind_down_payout' })
+        if (!credit || !(credit as any).committed) {
+            await restorePayout(vaultId, p)
+            results.push({ ...p, ok: false, error: 'balance_credit_failed' })
+            continue
+        }
+        const tradeId = uuidv4()
+        updates[`/trades/${vaultId}/${tradeId}`] = { uid: p.uid, type: 'WIND_DOWN_PAYOUT', amount: p.amountSol, shares: p.shares, priceUsd: null, pnlSol: null, ts: atMs }
+        await recordJournal('wind_down_payout', { type: 'trade', id: tradeId }, [{ from: ledgerAccount.vault(vaultId), to: ledgerAccount.user(p.uid), amountSol: p.amountSol }])
+        results.push({ ...p, ok: true })
+    }
+
+    const complete = results.every((r) => r.ok)
+    if (complete) {
+        updates[`/vaults/${vaultId}/status`] = 'WOUND_DOWN'
+        updates[`/vaults/${vaultId}/statusChangedAt`] = atMs
+        updates[`/vaults/${vaultId}/statusChangedBy`] = actor.uid
+        updates[`/vaults/${vaultId}/woundDownAt`] = atMs
+    }
+    await db.ref().update(updates)
+    await recordNav(vaultId, paidVault, 'WIND_DOWN', atMs)
+
+    const paidSol = addSol(...results.filter((r) => r.ok).map((r) => r.amountSol))
+    console.info(TAG, 'windDownVault', { vaultId, by: actor.uid, admin: !!actor.admin, closed: closed.length, lps: results.length, paidSol, complete })
+    return { vaultId, complete, closed, failed, payouts: results }
+}
+
+export default { assertCanManage, setVaultStatus, windDownVault }
@@ -0,0 +1,168 @@
+// Server-side mark pricing used by the engine to value positions.
+// Clients may display their own numbers, but settlement always uses the
+// values resolved here.
+import { gmgnService } from '../gmgnService'
+import { priceService } from '../priceService'
+import { fetchJupiterQuoteServer } from '../services/jupiterService'
+import { getStore } from './store'
+
+const TAG = '[MARK]'
+
+export const WSOL_MINT = 'So11111111111111111111111111111111111111112'
+// pump.fun tokens are minted with 6 decimals
+const DEFAULT_TOKEN_DECIMALS = 6
+const LAMPORTS_PER_SOL = 1_000_000_000
+
+// Max deviation (bps) allowed between a client-reported position value and the server mark
+export const DEFAULT_MARK_TOLERANCE_BPS = 300
+
+// `/price_cache` entries older than this (by `updatedAt` or `ts`) are skipped for the next source
+export const PRICE_CACHE_MAX_AGE_MS = Number(process.env.PRICE_CACHE_MAX_AGE_MS) || 120000
+
+export type MarkSource = 'price_cache' | 'gmgn' | 'jupiter_quote' | 'settlement'
+export type SolPriceSource = 'price_service' | 'price_cache'
+
+export interface PositionValuation {
+    valueSol: number
+    markUsd: number | null
+    solPriceUsd: number | null
+    source: MarkSource
+    solPriceSource: SolPriceSource | null
+    ts: number
+}
+
+function positive(v: any): number | null {
+    const n = Number(v)
+    return Number.isFinite(n) && n > 0 ? n : null
+}
+
+// The USD price of a `/price_cache` entry; null when missing, invalid or stale (including undated)
+export function cachedPriceUsd(entry: any, atMs = Date.now()): number | null {
+    if (!entry) return null
+    const ts = Number(entry.updatedAt ?? entry.ts)
+    if (!Number.isFinite(ts) || atMs - ts > PRICE_CACHE_MAX_AGE_MS) return null
+    return positive(entry.priceUsd ?? entry.price)
+}
+
+export async function getSolPriceUsd(): Promise<{ priceUsd: number, source: SolPriceSource } | null> {
+    const fromService = positive(priceService.getPrice('SOL')?.price)
+    if (fromService) return { priceUsd: fromService, source: 'price_service' }
+    try {
+        const snap = await getStore().ref(`/price_cache/WSOL_MINT`).get()
+        const cached = cachedPriceUsd(snap.val())
+        if (cached) return { priceUsd: cached, source: 'price_cache' }
+    } catch (e) {
+        console.warn(TAG, 'failed to read SOL price cache', e)
+    }
+    return null
+}
+
+export async function getTokenMarkUsd(tokenMint: string): Promise<{ markUsd: number, source: MarkSource } | null> {
+    try {
+        const snap = await getStore().ref(`/price_cache/${tokenMint}`).get()
+        const cached = cachedPriceUsd(snap.val())
+        if (cached) return { markUsd: cached, source: 'price_cache' }
+    } catch (e) {
+        console.warn(TAG, 'failed to read token price cache', { tokenMint, err: e })
+    }
+    try {
+        const coins = await gmgnService.lookup(tokenMint, 'sol')
+        const coin = Array.isArray(coins) && coins.length ? coins[0] : null
+        if (coin) {
+            const candidates = [coin.price_usd, coin.priceUsd, coin.price, coin.usd_price, coin.last_price, coin.last_price_usd, coin.market_price]
+            for (const v of candidates) {
+                const n = positive(v)
+                if (n) return { markUsd: n, source: 'gmgn' }
+            }
+        }
+    } catch (e) {
+        console.warn(TAG, 'gmgn lookup failed', { tokenMint, err: e })
+    }
+    return null
+}
+
+// SOL received for selling `sizeToken`, or null without a quote
+async function sellQuoteSol(tokenMint: string, sizeToken: number, decimals: number) {
+    const amount = Math.floor(sizeToken * Math.pow(10, decimals))
+    if (!(amount > 0)) return null
+    const quote = await fetchJupiterQuoteServer({ inMint: tokenMint, outMint: WSOL_MINT, amount })
+    const outLamports = quote && quote.ok ? positive(quote.outAmount) : null
+    return outLamports ? outLamports / LAMPORTS_PER_SOL : null
+}
+
+// SOL it costs to buy back `sizeToken`, at the rate of a buy quote for `buybackSol`, or null without a quote
+async function buybackQuoteSol(tokenMint: string, sizeToken: number, decimals: number, buybackSol?: number) {
+    const amount = Math.floor((buybackSol || 0) * LAMPORTS_PER_SOL)
+    if (!(amount > 0) || !(sizeToken > 0)) return null
+    const quote = await fetchJupiterQuoteServer({ inMint: WSOL_MINT, outMint: tokenMint, amount })
+    const outRaw = quote && quote.ok ? positive(quote.outAmount) : null
+    if (!outRaw) return null
+    return (amount / LAMPORTS_PER_SOL) * (sizeToken / (outRaw / Math.pow(10, decimals)))
+}
+
+/**
+ * Value `sizeToken` of `tokenMint` in SOL using server-side prices only.
+ * Prefers the cached/GMGN USD mark converted at the server SOL price and
+ * falls back to a Jupiter quote: a sell quote for the full size for a long,
+ * and for a short, which closes by buying the token back, a buy quote for
+ * `buybackSol` (about what the buy-back costs, e.g. the entry notional)
+ * scaled to the full size.
+ */
+export async function valuePositionSol(tokenMint: string, sizeToken: number, opts?: { decimals?: number, side?: 'LONG' | 'SHORT', buybackSol?: number }): Promise<PositionValuation> {
+    const sol = await getSolPriceUsd()
+    const mark = await getTokenMarkUsd(tokenMint)
+    if (sol && mark) {
+        return {
+            valueSol: (sizeToken * mark.markUsd) / sol.priceUsd,
+            markUsd: mark.markUsd,
+            solPriceUsd: sol.priceUsd,
+            source: mark.source,
+            solPriceSource: sol.source,
+            ts: Date.now(),
+        }
+    }
+
+    const decimals = opts?.decimals ?? DEFAULT_TOKEN_DECIMALS
+    const valueSol = opts?.side === 'SHORT'
+        ? await buybackQuoteSol(tokenMint, sizeToken, decimals, opts.buybackSol)
+        : await sellQuoteSol(tokenMint, sizeToken, decimals)
+    if (valueSol) {
+        const solPriceUsd = sol ? sol.priceUsd : null
+        return {
+            valueSol,
+            markUsd: solPriceUsd ? (valueSol * solPriceUsd) / sizeToken : null,
+            solPriceUsd,
+            source: 'jupiter_quote',
+            solPriceSource: sol ? sol.source : null,
+            ts: Date.now(),
+        }
+    }
+
+    console.error(TAG, 'no server mark available', { tokenMint, sizeToken, hasSolPrice: !!sol, hasMark: !!mark })
+    throw new Error('mark_unavailable')
+}
+
+/**
+ * Value `sizeToken` at an explicitly given token price (a wind-down settlement
+ * price) converted at the server SOL price. The price may be 0.
+ */
+export async function valueAtPriceSol(sizeToken: number, priceUsd: number): Promise<PositionValuation> {
+    if (!Number.isFinite(priceUsd) || priceUsd < 0) throw new Error('invalid_settle_price')
+    const sol = await getSolPriceUsd()
+    if (!sol) throw new Error('mark_unavailable')
+    return {
+        valueSol: (sizeToken * priceUsd) / sol.priceUsd,
+        markUsd: priceUsd,
+        solPriceUsd: sol.priceUsd,
+        source: 'settlement',
+        solPriceSource: sol.source,
+        ts: Date.now(),
+    }
+}
+
+export function deviationBps(clientValue: number, serverValue: number) {
+    if (serverValue <= 0) return clientValue > 0 ? Infinity : 0
+    return Math.abs(clientValue - serverValue) / serverValue * 10000
+}
+
+export default { cachedPriceUsd, getSolPriceUsd, getTokenMarkUsd, valuePositionSol, valueAtPriceSol, deviationBps }
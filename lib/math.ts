@@ -20,8 +20,10 @@ export function computeSizeToken(collateralSol: number, borrowSol: number, solUs
     return notionalUsd / tokenUsd
 }
 
-export function computePnlSol(sizeToken: number, entryUsd: number, markUsd: number, solUsd: number) {
-    const pnlUsd = sizeToken * (markUsd - entryUsd)
+export function computePnlSol(sizeToken: number, entryUsd: number, markUsd: number, solUsd: number, side: 'LONG' | 'SHORT' = 'LONG') {
+    // Shorts profit when the mark falls below entry
+    const direction = side === 'SHORT' ? -1 : 1
+    const pnlUsd = direction * sizeToken * (markUsd - entryUsd)
     return pnlUsd / solUsd
 }
 
@@ -0,0 +1,284 @@
+// In-memory Store (see store.ts) that behaves like the Realtime Database for
+// what the engine does with it: nulls and empty objects are not stored,
+// writing undefined throws, arrays come back as arrays, push keys sort in
+// insertion order, and queries order children the way the database does.
+// Transactions run against the stored value and are atomic, since nothing
+// else can write between reading it and writing the result.
+import { Store, StoreKeyValue, StoreQuery, StoreRef, StoreSnapshot, StoreTransactionResult } from './store'
+
+type OrderBy = { by: 'key' } | { by: 'value' } | { by: 'child', path: string[] }
+type Bound = { value: StoreKeyValue, key?: string }
+
+interface QueryParams {
+    orderBy?: OrderBy
+    start?: Bound
+    end?: Bound
+    limit?: { n: number, from: 'first' | 'last' }
+}
+
+function splitPath(path?: string) {
+    return (path || '').split('/').filter((p) => p.length > 0)
+}
+
+// Keys that parse as 32-bit integers sort first, numerically, then the rest as strings
+function compareKeys(a: string, b: string) {
+    const ai = /^-?\d{1,10}$/.test(a) ? Number(a) : null
+    const bi = /^-?\d{1,10}$/.test(b) ? Number(b) : null
+    if (ai != null && bi != null) return ai - bi
+    if (ai != null) return -1
+    if (bi != null) return 1
+    return a < b ? -1 : a > b ? 1 : 0
+}
+
+// null < false < true < numbers < strings < objects
+function typeRank(v: any) {
+    if (v == null) return 0
+    if (v === false) return 1
+    if (v === true) return 2
+    if (typeof v === 'number') return 3
+    if (typeof v === 'string') return 4
+    return 5
+}
+
+function compareValues(a: any, b: any) {
+    const ra = typeRank(a)
+    const rb = typeRank(b)
+    if (ra !== rb) return ra - rb
+    if (ra === 3) return a - b
+    if (ra === 4) return a < b ? -1 : a > b ? 1 : 0
+    return 0
+}
+
+// Deep copy of `value` as the database would store it; throws on undefined like the SDK
+function normalize(value: any, where: string): any {
+    if (value === undefined) throw new Error(`value contains undefined in property '${where}'`)
+    if (value === null) return null
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) throw new Error(`value contains a non-finite number in property '${where}'`)
+        return value
+    }
+    if (typeof value !== 'object') return value
+    const out: Record<string, any> = {}
+    for (const [k, v] of Object.entries(value)) {
+        const child = normalize(v, where ? `${where}.${k}` : k)
+        if (child !== null) out[k] = child
+    }
+    return Object.keys(out).length ? out : null
+}
+
+// Stored objects keyed mostly by small integers read back as arrays
+function externalize(node: any): any {
+    if (node == null || typeof node !== 'object') return node ?? null
+    const keys = Object.keys(node)
+    const ints = keys.every((k) => /^(0|[1-9]\d*)$/.test(k))
+    if (ints) {
+        const max = Math.max(...keys.map(Number))
+        if (keys.length * 2 > max) {
+            const arr: any[] = []
+            for (const k of keys) arr[Number(k)] = externalize(node[k])
+            return arr
+        }
+    }
+    const out: Record<string, any> = {}
+    for (const k of keys) out[k] = externalize(node[k])
+    return out
+}
+
+class MemorySnapshot implements StoreSnapshot {
+    constructor(readonly key: string | null, private readonly node: any, private readonly order?: string[]) { }
+
+    exists() {
+        return this.node != null
+    }
+
+    val() {
+        if (!this.order) return externalize(this.node)
+        if (!this.order.length) return null
+        const out: Record<string, any> = {}
+        for (const k of this.order) out[k] = externalize(this.node[k])
+        return out
+    }
+
+    forEach(action: (child: StoreSnapshot) => boolean | void) {
+        if (this.node == null || typeof this.node !== 'object') return false
+        const keys = this.order ?? Object.keys(this.node).sort(compareKeys)
+        for (const k of keys) {
+            if (action(new MemorySnapshot(k, this.node[k])) === true) return true
+        }
+        return false
+    }
+}
+
+class MemoryRef implements StoreRef {
+    readonly key: string | null
+
+    constructor(private readonly store: MemoryStore, private readonly path: string[], private readonly query: QueryParams = {}) {
+        this.key = path.length ? path[path.length - 1] : null
+    }
+
+    private withQuery(q: QueryParams): MemoryRef {
+        return new MemoryRef(this.store, this.path, { ...this.query, ...q })
+    }
+
+    child(path: string) {
+        return new MemoryRef(this.store, [...this.path, ...splitPath(path)])
+    }
+
+    orderByChild(path: string): StoreQuery {
+        return this.withQuery({ orderBy: { by: 'child', path: splitPath(path) } })
+    }
+
+    orderByKey(): StoreQuery {
+        return this.withQuery({ orderBy: { by: 'key' } })
+    }
+
+    orderByValue(): StoreQuery {
+        return this.withQuery({ orderBy: { by: 'value' } })
+    }
+
+    equalTo(value: StoreKeyValue, key?: string): StoreQuery {
+        return this.withQuery({ start: { value, key }, end: { value, key } })
+    }
+
+    startAt(value: StoreKeyValue, key?: string): StoreQuery {
+        return this.withQuery({ start: { value, key } })
+    }
+
+    endAt(value: StoreKeyValue, key?: string): StoreQuery {
+        return this.withQuery({ end: { value, key } })
+    }
+
+    limitToFirst(limit: number): StoreQuery {
+        return this.withQuery({ limit: { n: limit, from: 'first' } })
+    }
+
+    limitToLast(limit: number): StoreQuery {
+        return this.withQuery({ limit: { n: limit, from: 'last' } })
+    }
+
+    async get(): Promise<StoreSnapshot> {
+        // Snapshots are copies; later writes must not change them
+        const node = structuredClone(this.store.read(this.path))
+        const q = this.query
+        if (!q.orderBy && !q.start && !q.end && !q.limit) return new MemorySnapshot(this.key, node)
+        if (node == null || typeof node !== 'object') return new MemorySnapshot(this.key, null, [])
+
+        const orderBy = q.orderBy ?? { by: 'key' }
+        const sortValue = (k: string) => {
+            if (orderBy.by === 'key') return k
+            if (orderBy.by === 'value') return node[k]
+            let v = node[k]
+            for (const p of orderBy.path) v = v != null && typeof v === 'object' ? v[p] : null
+            return v ?? null
+        }
+        const cmp = (a: { v: any, k: string }, b: { v: any, k: string }) => {
+            const c = orderBy.by === 'key' ? compareKeys(a.v, b.v) : compareValues(a.v, b.v)
+            return c !== 0 ? c : compareKeys(a.k, b.k)
+        }
+        // A bound without a key matches every key at that value
+        const boundCmp = (item: { v: any, k: string }, b: Bound) => {
+            const c = orderBy.by === 'key' ? compareKeys(item.v, String(b.value)) : compareValues(item.v, b.value)
+            return c !== 0 || b.key == null ? c : compareKeys(item.k, b.key)
+        }
+
+        let items = Object.keys(node).map((k) => ({ v: sortValue(k), k })).sort(cmp)
+        if (q.start) items = items.filter((i) => boundCmp(i, q.start!) >= 0)
+        if (q.end) items = items.filter((i) => boundCmp(i, q.end!) <= 0)
+        if (q.limit) items = q.limit.from === 'first' ? items.slice(0, q.limit.n) : items.slice(Math.max(0, items.length - q.limit.n))
+        return new MemorySnapshot(this.key, node, items.map((i) => i.k))
+    }
+
+    async set(value: any) {
+        this.store.write(this.path, normalize(value, ''))
+    }
+
+    async update(values: object) {
+        // Validate every path before writing any, so a bad update changes nothing
+        const writes = Object.entries(values).map(([k, v]): [string[], any] => [[...this.path, ...splitPath(k)], normalize(v, k)])
+        for (const [path, v] of writes) this.store.write(path, v)
+    }
+
+    async remove() {
+        this.store.write(this.path, null)
+    }
+
+    push(value?: any) {
+        const ref = this.child(this.store.nextPushId())
+        const done = value === undefined ? Promise.resolve(ref) : ref.set(value).then(() => ref)
+        return Object.assign(done, { key: ref.key })
+    }
+
+    async transaction(
+        update: (current: any) => any,
+        onComplete?: (error: Error | null, committed: boolean, snapshot: StoreSnapshot | null) => void,
+    ): Promise<StoreTransactionResult> {
+        const cur = externalize(this.store.read(this.path))
+        const next = update(cur)
+        const committed = next !== undefined
+        if (committed) this.store.write(this.path, normalize(next, ''))
+        const snapshot = new MemorySnapshot(this.key, structuredClone(this.store.read(this.path)))
+        if (onComplete) onComplete(null, committed, snapshot)
+        return { committed, snapshot }
+    }
+}
+
+export class MemoryStore implements Store {
+    private root: any = null
+    private lastPushMs = 0
+    private pushSeq = 0
+
+    constructor(data?: any) {
+        if (data !== undefined) this.root = normalize(data, '')
+    }
+
+    ref(path?: string): StoreRef {
+        return new MemoryRef(this, splitPath(path))
+    }
+
+    // The stored value at `path`, as `get()` would return it (for test assertions)
+    value(path?: string) {
+        return externalize(this.read(splitPath(path)))
+    }
+
+    read(path: string[]): any {
+        let node = this.root
+        for (const p of path) {
+            if (node == null || typeof node !== 'object') return null
+            node = node[p]
+        }
+        return node ?? null
+    }
+
+    write(path: string[], value: any) {
+        if (!path.length) {
+            this.root = value
+            return
+        }
+        if (value === null && this.read(path) === null) return
+        if (this.root == null || typeof this.root !== 'object') this.root = {}
+        const parents: any[] = [this.root]
+        let node = this.root
+        for (const p of path.slice(0, -1)) {
+            if (node[p] == null || typeof node[p] !== 'object') node[p] = {}
+            node = node[p]
+            parents.push(node)
+        }
+        const last = path[path.length - 1]
+        if (value === null) delete node[last]
+        else node[last] = value
+        // Drop parents the write left empty
+        for (let i = parents.length - 1; i > 0; i--) {
+            if (Object.keys(parents[i]).length) break
+            delete parents[i - 1][path[i - 1]]
+        }
+        if (!Object.keys(this.root).length) this.root = null
+    }
+
+    // Chronological, fixed-width keys, so later pushes sort after earlier ones
+    nextPushId() {
+        const atMs = Date.now()
+        this.pushSeq = atMs === this.lastPushMs ? this.pushSeq + 1 : 0
+        this.lastPushMs = atMs
+        return `-${atMs.toString(36).padStart(9, '0')}${this.pushSeq.toString(36).padStart(4, '0')}`
+    }
+}
@@ -0,0 +1,144 @@
+// LP share accounting. A vault's NAV is its capital (`tvlSol`, which includes
+// SOL lent to traders) plus borrow interest accrued but not yet paid.
+// Realized trader PnL and paid interest settle into `tvlSol`, so the share
+// price moves with them. Deposits mint and withdrawals burn shares at NAV.
+//
+// Accrued interest is tracked on the vault without scanning positions:
+// `borrowAprWeight` is the sum of borrowSol * debtAprBps over open borrows,
+// which accrues linearly into `accruedInterestSol` from `interestCheckpointTs`.
+import { addSol, roundSol } from './lamports'
+import { YEAR_SECONDS } from './math'
+import { getStore } from './store'
+
+export interface NavSnapshot {
+    navSol: number
+    totalShares: number
+    sharePriceSol: number
+    ts: number
+}
+
+// Interest accrued on the vault's open borrows since its last checkpoint
+function pendingInterestSol(v: any, atMs: number) {
+    const since = typeof v?.interestCheckpointTs === 'number' ? v.interestCheckpointTs : atMs
+    const dtSeconds = Math.max(0, (atMs - since) / 1000)
+    return ((v?.borrowAprWeight || 0) / 10000) * (dtSeconds / YEAR_SECONDS)
+}
+
+/**
+ * Fold pending interest into `accruedInterestSol`. Call inside a vault
+ * transaction before changing `borrowAprWeight`.
+ */
+export function accrueVaultInterest(v: any, atMs = Date.now()) {
+    v.accruedInterestSol = (v.accruedInterestSol || 0) + pendingInterestSol(v, atMs)
+    v.interestCheckpointTs = atMs
+    return v
+}
+
+export function vaultNavSol(v: any, atMs = Date.now()) {
+    return (v?.tvlSol || 0) + (v?.accruedInterestSol || 0) + pendingInterestSol(v, atMs)
+}
+
+// Every composition entry (creator first) on a raw vault record
+export function compositionEntries(v: any): any[] {
+    const comp = v?.composition || {}
+    const out: any[] = []
+    if (comp.creator && comp.creator.uid) out.push(comp.creator)
+    for (const c of Object.values<any>(comp.contributors || {})) if (c && c.uid) out.push(c)
+    return out
+}
+
+/**
+ * Vaults created before share accounting hold raw deposits in `sol`. Issue
+ * one share per deposited SOL so existing LPs keep their pro-rata claim.
+ */
+export function ensureShares(v: any) {
+    if (typeof v.totalShares === 'number') return v
+    let total = 0
+    for (const entry of compositionEntries(v)) {
+        entry.shares = entry.sol || 0
+        total += entry.shares
+    }
+    v.totalShares = total
+    return v
+}
+
+// Legacy vaults without `totalShares` count one share per deposited SOL (see ensureShares)
+function totalSharesOf(v: any) {
+    return typeof v?.totalShares === 'number' ? v.totalShares : compositionEntries(v).reduce((s, e) => s + (e.sol || 0), 0)
+}
+
+// SOL value of one share; 1 before the first deposit
+export function sharePriceSol(v: any, atMs = Date.now()) {
+    const totalShares = totalSharesOf(v)
+    if (!(totalShares > 0)) return 1
+    return Math.max(0, vaultNavSol(v, atMs)) / totalShares
+}
+
+export function navSnapshot(v: any, atMs = Date.now()): NavSnapshot {
+    const totalShares = totalSharesOf(v)
+    return { navSol: vaultNavSol(v, atMs), totalShares, sharePriceSol: sharePriceSol(v, atMs), ts: atMs }
+}
+
+// Shares minted for a deposit of `amountSol`; throws when the vault has no NAV left to price against
+export function sharesForDepositSol(v: any, amountSol: number, atMs = Date.now()) {
+    const price = sharePriceSol(v, atMs)
+    if (!(price > 0)) throw new Error('vault_nav_depleted')
+    return amountSol / price
+}
+
+// Current SOL value of an LP's shares
+export function entryValueSol(v: any, entry: any, atMs = Date.now()) {
+    const shares = typeof entry?.shares === 'number' ? entry.shares : (entry?.sol || 0)
+    return shares * sharePriceSol(v, atMs)
+}
+
+/**
+ * Mint shares for `amountSol` into the composition entry and add the SOL to
+ * `tvlSol`. `entry.sol` tracks net deposited SOL (cost basis) for display.
+ */
+export function mintShares(v: any, entry: any, amountSol: number, atMs = Date.now()) {
+    ensureShares(v)
+    const shares = sharesForDepositSol(v, amountSol, atMs)
+    entry.shares = (entry.shares || 0) + shares
+    entry.sol = addSol(entry.sol || 0, amountSol)
+    v.totalShares = (v.totalShares || 0) + shares
+    v.tvlSol = addSol(v.tvlSol || 0, amountSol)
+    return shares
+}
+
+/**
+ * Burn `shares` from the composition entry at the current share price and
+ * take the SOL out of `tvlSol`. Cost basis is reduced pro-rata. The payout
+ * rounds down to a whole lamport.
+ */
+export function burnShares(v: any, entry: any, shares: number, atMs = Date.now()) {
+    ensureShares(v)
+    const amountSol = roundSol(shares * sharePriceSol(v, atMs), 'down')
+    const held = entry.shares || 0
+    entry.sol = held > 0 ? Math.max(0, roundSol((entry.sol || 0) * (1 - shares / held))) : 0
+    entry.shares = Math.max(0, held - shares)
+    v.totalShares = Math.max(0, (v.totalShares || 0) - shares)
+    v.tvlSol = addSol(v.tvlSol || 0, -amountSol)
+    return amountSol
+}
+
+// Append a share price point to `/vault_nav/<vaultId>`
+export async function recordNav(vaultId: string, v: any, event: string, atMs = Date.now()) {
+    if (!v) return null
+    const point = { ...navSnapshot(v, atMs), event }
+    await getStore().ref(`/vault_nav/${vaultId}`).push(point)
+    return point
+}
+
+// Share price history, oldest first, limited to the last `limit` points
+export async function getNavHistory(vaultId: string, opts?: { limit?: number }) {
+    const limit = Math.max(1, Math.min(opts?.limit ?? 200, 1000))
+    const snap = await getStore().ref(`/vault_nav/${vaultId}`).orderByChild('ts').limitToLast(limit).get()
+    const out: Array<NavSnapshot & { event: string }> = []
+    snap.forEach((child: any) => {
+        out.push(child.val())
+    })
+    return out
+}
+
+export default { accrueVaultInterest, vaultNavSol, compositionEntries, ensureShares, sharePriceSol, navSnapshot, sharesForDepositSol, entryValueSol, mintShares, burnShares, recordNav, getNavHistory }
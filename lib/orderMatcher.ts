@@ -0,0 +1,120 @@
+// Matches resting limit orders against server marks: expires stale orders,
+// opens positions for orders whose limit price has been crossed and settles
+// fills a crash left FILLING.
+import * as mark from './mark'
+import { expireOrder, fillOrder, limitCrossed, LimitOrder, ORDER_FILL_STALE_MS, recoverStaleFill } from './orders'
+import { getStore } from './store'
+import { canOpenPositions } from './vaultStatus'
+
+const TAG = '[ORDER_MATCHER]'
+
+export interface MatchRunResult {
+    scanned: number
+    unpriced: number
+    expired: number
+    recovered: number
+    filled: Array<{ vaultId: string, orderId: string, ok: boolean, posId?: string, error?: string }>
+    ts: number
+}
+
+class OrderMatcher {
+    private interval: NodeJS.Timeout | null = null
+    private running = false
+    private lastRun: MatchRunResult | null = null
+    private readonly intervalMs = Number(process.env.ORDER_MATCH_INTERVAL_MS) || 5000
+
+    start() {
+        if (this.interval) return
+        console.log(TAG, `Starting order matcher (interval ${this.intervalMs}ms)`)
+        this.interval = setInterval(() => {
+            this.runOnce().catch((err) => console.error(TAG, 'run failed', err))
+        }, this.intervalMs)
+    }
+
+    stop() {
+        if (this.interval) {
+            clearInterval(this.interval)
+            this.interval = null
+            console.log(TAG, 'Order matcher stopped')
+        }
+    }
+
+    getStatus() {
+        return { active: !!this.interval, intervalMs: this.intervalMs, lastRun: this.lastRun }
+    }
+
+    async runOnce(): Promise<MatchRunResult> {
+        if (this.running) {
+            console.warn(TAG, 'previous run still in progress, skipping')
+            return this.lastRun ?? { scanned: 0, unpriced: 0, expired: 0, recovered: 0, filled: [], ts: Date.now() }
+        }
+        this.running = true
+        try {
+            const db = getStore()
+            const snap = await db.ref('/orders').get()
+            const byVault = snap.exists() ? snap.val() : {}
+            const sol = await mark.getSolPriceUsd()
+            const filled: MatchRunResult['filled'] = []
+            let scanned = 0
+            let unpriced = 0
+            let expired = 0
+            let recovered = 0
+            const atMs = Date.now()
+
+            for (const [vaultId, orders] of Object.entries<any>(byVault || {})) {
+                const stale = Object.values<LimitOrder>(orders || {}).filter((o) => o && o.status === 'FILLING' && o.updatedAt <= atMs - ORDER_FILL_STALE_MS)
+                for (const order of stale) {
+                    try {
+                        if (await recoverStaleFill(vaultId, order.orderId)) recovered++
+                    } catch (err: any) {
+                        console.warn(TAG, 'stale fill recovery failed', { vaultId, orderId: order.orderId, err: err?.message || err })
+                    }
+                }
+
+                const open = Object.values<LimitOrder>(orders || {}).filter((o) => o && o.status === 'OPEN')
+                if (!open.length) continue
+                const vSnap = await db.ref(`/vaults/${vaultId}`).get()
+                const tokenMint: string = (vSnap.exists() && vSnap.val().tokenMint) || vaultId
+                const tokenMark = await mark.getTokenMarkUsd(tokenMint)
+                // Orders rest (but still expire) while their vault is paused
+                const active = !vSnap.exists() || canOpenPositions(vSnap.val())
+
+                // Oldest first so earlier orders get vault liquidity first
+                for (const order of open.sort((a, b) => a.createdAt - b.createdAt)) {
+                    scanned++
+                    if (order.expiresAt != null && order.expiresAt <= atMs) {
+                        try {
+                            await expireOrder(vaultId, order.orderId)
+                            expired++
+                        } catch (err: any) {
+                            console.warn(TAG, 'expire failed', { vaultId, orderId: order.orderId, err: err?.message || err })
+                        }
+                        continue
+                    }
+                    if (!active) continue
+                    if (!tokenMark || !sol) {
+                        unpriced++
+                        continue
+                    }
+                    if (!limitCrossed(order.side, order.limitPriceUsd, tokenMark.markUsd)) continue
+                    try {
+                        const res = await fillOrder(vaultId, order.orderId, tokenMark.markUsd, sol.priceUsd)
+                        filled.push({ vaultId, orderId: order.orderId, ok: true, posId: res.posId })
+                    } catch (err: any) {
+                        filled.push({ vaultId, orderId: order.orderId, ok: false, error: err?.message || String(err) })
+                    }
+                }
+            }
+
+            this.lastRun = { scanned, unpriced, expired, recovered, filled, ts: Date.now() }
+            if (filled.length || expired || recovered) {
+                console.info(TAG, 'run complete', { scanned, unpriced, expired, recovered, filled: filled.filter((f) => f.ok).length, failed: filled.filter((f) => !f.ok).length })
+            }
+            return this.lastRun
+        } finally {
+            this.running = false
+        }
+    }
+}
+
+export const orderMatcher = new OrderMatcher()
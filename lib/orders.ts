@@ -0,0 +1,288 @@
+// Resting limit orders that open a leveraged position once the token mark
+// crosses the limit price. The open cost (collateral + open fee) is reserved
+// from the user's balance when the order is placed. On fill the open consumes
+// the reservation directly, so it is never back in the balance in between;
+// cancel, expiry and failed fills release it. The open fee is quoted at the
+// SOL price at placement; the fill charges the fee at the price then, which
+// only differs when a USD fee cap applies, and settles the difference with
+// the balance.
+import { v4 as uuidv4 } from 'uuid'
+import { transactionWithReadGuard } from './balanceTx'
+import { openCostSol, openLong, openShort, PositionSide } from './engine'
+import { getTraderFeeSchedule, openFee } from './feeSchedule'
+import { addSol, roundSol } from './lamports'
+import { ledgerAccount, recordJournal } from './ledger'
+import { getSolPriceUsd } from './mark'
+import { computeBorrowSol } from './math'
+import { orderRepo } from './repositories'
+import { checkOpenRisk } from './risk'
+import { getSaga } from './saga'
+import { getStore } from './store'
+import { buildTriggers, TriggerInput } from './triggers'
+import { canOpenPositions, vaultStatus } from './vaultStatus'
+
+const TAG = '[ORDERS]'
+
+export type OrderStatus = 'OPEN' | 'FILLING' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'FAILED'
+
+export interface LimitOrder {
+    orderId: string
+    uid: string
+    vaultId: string
+    side: PositionSide
+    collateralSol: number
+    leverageBps: number
+    // LONG fills when mark <= limit, SHORT when mark >= limit
+    limitPriceUsd: number
+    reservedSol: number
+    triggers: TriggerInput | null
+    status: OrderStatus
+    createdAt: number
+    expiresAt: number | null
+    updatedAt: number
+    // Saga of the open that took the reservation (see engine.ts)
+    consumedBy?: string
+    posId?: string
+    fillPriceUsd?: number
+    filledAt?: number
+    error?: string
+}
+
+export interface PlaceOrderInput {
+    side: PositionSide
+    collateralSol: number
+    leverageBps: number
+    limitPriceUsd: number
+    expiresAt?: number | null
+    triggers?: TriggerInput
+}
+
+function now() {
+    return Date.now()
+}
+
+// A FILLING order not updated for this long has lost the fill that claimed it
+export const ORDER_FILL_STALE_MS = Number(process.env.ORDER_FILL_STALE_MS) || 60000
+
+export function limitCrossed(side: string, limitPriceUsd: number, markUsd: number) {
+    return side === 'SHORT' ? markUsd >= limitPriceUsd : markUsd <= limitPriceUsd
+}
+
+async function releaseReservation(uid: string, vaultId: string, orderId: string, amountSol: number, tag: string) {
+    if (!(amountSol > 0)) return
+    const balanceRef = getStore().ref(`/users/${uid}/balance`)
+    await transactionWithReadGuard(balanceRef, (cur: number) => addSol(cur, amountSol), { attempts: 6, backoffMs: 50, tag })
+    await recordJournal('order_release', { type: 'order', id: orderId }, [{ from: ledgerAccount.orders(vaultId), to: ledgerAccount.user(uid), amountSol }])
+}
+
+/**
+ * Place a limit order on `vaultId`. Leverage is checked against the vault's
+ * risk params now; liquidity is only checked when the order fills.
+ */
+export async function placeOrder(uid: string, vaultId: string, input: PlaceOrderInput): Promise<LimitOrder> {
+    const { side, leverageBps, limitPriceUsd } = input
+    if (!Number.isFinite(input.collateralSol) || input.collateralSol <= 0) throw new Error('invalid_amount')
+    const collateralSol = roundSol(input.collateralSol)
+    if (!Number.isFinite(limitPriceUsd) || limitPriceUsd <= 0) throw new Error('invalid_limit_price')
+    const expiresAt = input.expiresAt ?? null
+    if (expiresAt != null && (!Number.isFinite(expiresAt) || expiresAt <= now())) throw new Error('invalid_expiry')
+
+    const db = getStore()
+    const vaultSnap = await db.ref(`/vaults/${vaultId}`).get()
+    if (!vaultSnap.exists()) throw new Error('vault_not_found')
+    const vault = vaultSnap.val()
+    if (!canOpenPositions(vault)) {
+        const err: any = new Error('vault_not_active')
+        err.vaultStatus = vaultStatus(vault)
+        throw err
+    }
+
+    const risk = checkOpenRisk(vault.params, collateralSol, leverageBps)
+    if (!risk.ok) {
+        const err: any = new Error('risk_limit_exceeded')
+        err.reasons = risk.reasons
+        err.maxLeverageBps = risk.maxLeverageBps
+        throw err
+    }
+    // Position triggers are validated against the limit price, the expected entry
+    if (input.triggers) buildTriggers(side, limitPriceUsd, input.triggers)
+
+    const solPrice = await getSolPriceUsd()
+    if (!solPrice) throw new Error('sol_price_unavailable')
+    const borrowSol = roundSol(computeBorrowSol(collateralSol, leverageBps), 'down')
+    const { schedule } = await getTraderFeeSchedule(vault.params, uid)
+    const fee = openFee(schedule, collateralSol, borrowSol, solPrice.priceUsd)
+    const reservedSol = openCostSol(collateralSol, fee.feeSol)
+    const balanceRef = db.ref(`/users/${uid}/balance`)
+    const txRes = await transactionWithReadGuard(balanceRef, (cur: number) => {
+        if (cur < reservedSol) return undefined
+        return addSol(cur, -reservedSol)
+    }, { attempts: 6, backoffMs: 50, tag: 'order_reserve' })
+    if (!txRes || !(txRes as any).committed) throw new Error('insufficient_balance')
+    const orderId = uuidv4()
+    await recordJournal('order_reserve', { type: 'order', id: orderId }, [{ from: ledgerAccount.user(uid), to: ledgerAccount.orders(vaultId), amountSol: reservedSol }])
+
+    const createdAt = now()
+    const order: LimitOrder = {
+        orderId,
+        uid,
+        vaultId,
+        side,
+        collateralSol,
+        leverageBps,
+        limitPriceUsd,
+        reservedSol,
+        triggers: input.triggers ?? null,
+        status: 'OPEN',
+        createdAt,
+        expiresAt,
+        updatedAt: createdAt,
+    }
+    try {
+        await db.ref().update({
+            [orderRepo.path(vaultId, orderId)]: order,
+            [`/user_orders/${uid}/${orderId}`]: { vaultId, createdAt },
+        })
+    } catch (e) {
+        await releaseReservation(uid, vaultId, orderId, reservedSol, 'order_reserve_refund')
+        throw e
+    }
+    console.info(TAG, 'order placed', { uid, vaultId, orderId, side, collateralSol, leverageBps, limitPriceUsd, reservedSol, expiresAt })
+    return order
+}
+
+// Move an OPEN order to a terminal status and return its reservation
+async function closeOrder(vaultId: string, orderId: string, status: 'CANCELLED' | 'EXPIRED', uid?: string) {
+    const db = getStore()
+    const ref = db.ref(orderRepo.path(vaultId, orderId))
+    const snap = await ref.get()
+    if (!snap.exists()) throw new Error('order_not_found')
+    if (uid && snap.val().uid !== uid) throw new Error('order_not_found')
+
+    const txRes = await ref.transaction((o: any) => {
+        if (o == null) return o
+        if (o.status !== 'OPEN') return
+        o.status = status
+        o.updatedAt = now()
+        return o
+    })
+    if (!txRes.committed || !txRes.snapshot.exists()) throw new Error('order_not_open')
+    const order: LimitOrder = txRes.snapshot.val()
+    await releaseReservation(order.uid, vaultId, orderId, order.reservedSol, `order_${status.toLowerCase()}_refund`)
+    console.info(TAG, `order ${status.toLowerCase()}`, { uid: order.uid, vaultId, orderId, reservedSol: order.reservedSol })
+    return order
+}
+
+export async function cancelOrder(uid: string, vaultId: string, orderId: string) {
+    return closeOrder(vaultId, orderId, 'CANCELLED', uid)
+}
+
+export async function expireOrder(vaultId: string, orderId: string) {
+    return closeOrder(vaultId, orderId, 'EXPIRED')
+}
+
+/**
+ * Fill an OPEN order at `markUsd`. The order is claimed (OPEN -> FILLING) and
+ * the position opened through the engine, which takes the order's reservation
+ * as the open cost. A failed open marks the order FAILED and releases the
+ * reservation back to the balance.
+ */
+export async function fillOrder(vaultId: string, orderId: string, markUsd: number, solPriceUsd?: number) {
+    const db = getStore()
+    const ref = db.ref(orderRepo.path(vaultId, orderId))
+    const claim = await ref.transaction((o: any) => {
+        if (o == null) return o
+        if (o.status !== 'OPEN') return
+        if (o.expiresAt != null && o.expiresAt <= now()) return
+        if (!limitCrossed(o.side, o.limitPriceUsd, markUsd)) return
+        o.status = 'FILLING'
+        o.updatedAt = now()
+        return o
+    })
+    if (!claim.committed || !claim.snapshot.exists()) throw new Error('order_not_fillable')
+    const order: LimitOrder = claim.snapshot.val()
+
+    const openFn = order.side === 'SHORT' ? openShort : openLong
+    try {
+        const result = await openFn(order.uid, vaultId, order.collateralSol, order.leverageBps, {
+            entryPriceUsd: markUsd,
+            solPriceUsd,
+            triggers: order.triggers ?? undefined,
+            reservation: { orderId, reservedSol: order.reservedSol },
+            limitPriceUsd: order.limitPriceUsd,
+        })
+        // The open prices itself from a fresh mark, bounded by the order's limit
+        const fillPriceUsd = result.position.entryPriceUsd
+        await ref.update({ status: 'FILLED', posId: result.posId, fillPriceUsd, filledAt: now(), updatedAt: now() })
+        console.info(TAG, 'order filled', { uid: order.uid, vaultId, orderId, posId: result.posId, markUsd, fillPriceUsd })
+        return { ok: true, orderId, posId: result.posId, fillPriceUsd }
+    } catch (err: any) {
+        console.warn(TAG, 'order fill failed', { uid: order.uid, vaultId, orderId, err: err?.message || err })
+        await failFill(vaultId, orderId, err?.message || String(err))
+        throw err
+    }
+}
+
+// Move a FILLING order whose reservation no open holds to FAILED and release it
+async function failFill(vaultId: string, orderId: string, error: string) {
+    const txRes = await orderRepo.transaction(vaultId, orderId, (o: any) => {
+        if (o == null) return o
+        if (o.status !== 'FILLING' || o.consumedBy) return
+        o.status = 'FAILED'
+        o.error = error
+        o.updatedAt = now()
+        return o
+    })
+    if (!txRes.committed || !txRes.snapshot.exists()) return false
+    const order: LimitOrder = txRes.snapshot.val()
+    await releaseReservation(order.uid, vaultId, orderId, order.reservedSol, 'order_fill_refund')
+    return true
+}
+
+/**
+ * Settle an order a crashed fill left FILLING. Once the open that consumed
+ * its reservation is DONE the order is FILLED; an order no open consumed is
+ * FAILED and its reservation released. An open still running or STUCK is
+ * left to saga recovery. Returns the order's new status, or null if unchanged.
+ */
+export async function recoverStaleFill(vaultId: string, orderId: string): Promise<OrderStatus | null> {
+    const order: LimitOrder | null = await orderRepo.get(vaultId, orderId)
+    if (!order || order.status !== 'FILLING') return null
+    if (!order.consumedBy) return (await failFill(vaultId, orderId, 'fill_interrupted')) ? 'FAILED' : null
+
+    const saga = await getSaga(order.consumedBy)
+    if (saga?.status !== 'DONE') return null
+    const fillPriceUsd = saga.data.position.entryPriceUsd
+    await getStore().ref(orderRepo.path(vaultId, orderId)).update({ status: 'FILLED', posId: saga.posId, fillPriceUsd, filledAt: saga.finishedAt ?? now(), updatedAt: now() })
+    console.info(TAG, 'stale fill recovered', { uid: order.uid, vaultId, orderId, posId: saga.posId })
+    return 'FILLED'
+}
+
+export async function getOrder(vaultId: string, orderId: string): Promise<LimitOrder | null> {
+    const snap = await getStore().ref(orderRepo.path(vaultId, orderId)).get()
+    return snap.exists() ? snap.val() : null
+}
+
+// Orders on one vault, newest first, optionally filtered by status
+export async function listVaultOrders(vaultId: string, opts?: { status?: OrderStatus }): Promise<LimitOrder[]> {
+    const snap = await getStore().ref(`/orders/${vaultId}`).get()
+    const all: LimitOrder[] = Object.values(snap.exists() ? snap.val() : {})
+    return all
+        .filter((o) => !opts?.status || o.status === opts.status)
+        .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// A user's orders across vaults, newest first, via the `/user_orders` index
+export async function listUserOrders(uid: string, opts?: { status?: OrderStatus }): Promise<LimitOrder[]> {
+    const db = getStore()
+    const idxSnap = await db.ref(`/user_orders/${uid}`).get()
+    const idx = idxSnap.exists() ? idxSnap.val() : {}
+    const orders: LimitOrder[] = []
+    for (const [orderId, entry] of Object.entries<any>(idx || {})) {
+        const order = await getOrder(entry.vaultId, orderId)
+        if (order && (!opts?.status || order.status === opts.status)) orders.push(order)
+    }
+    return orders.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export default { limitCrossed, placeOrder, cancelOrder, expireOrder, fillOrder, recoverStaleFill, getOrder, listVaultOrders, listUserOrders }
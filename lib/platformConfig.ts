@@ -0,0 +1,153 @@
+// Platform-wide engine settings stored at `/platform/config`. Missing or
+// invalid values fall back to the defaults below, so a fresh database works
+// without any config written.
+import { getStore } from './store'
+
+const TAG = '[PLATFORM_CONFIG]'
+
+// Traders with at least `minVolumeSol` of rolling volume get `discountBps` off open and close fees
+export interface FeeTier {
+    minVolumeSol: number
+    discountBps: number
+}
+
+export interface PlatformConfig {
+    // Slice of every platform fee credited to the insurance fund instead of the treasury
+    insuranceFundBps: number
+    // Fee schedule defaults for vaults that do not set their own (see feeSchedule.ts)
+    openFeeBps: number
+    closeFeeBps: number
+    perfFeeBps: number
+    // Platform's cut of trader profit on close, on top of the vault's perfFeeBps
+    platformPerfFeeBps: number
+    // Caps on open and close fees in USD; a maxFeeUsd of 0 means uncapped
+    minFeeUsd: number
+    maxFeeUsd: number
+    // Share of the platform's part of a referred trader's fees rebated to their referrer (see referrals.ts)
+    referrerShareBps: number
+    // Discount off open and close fees for referred traders
+    refereeDiscountBps: number
+    // Volume fee tiers, ascending by minVolumeSol (see feeTiers.ts)
+    feeTiers: FeeTier[]
+}
+
+export const DEFAULT_PLATFORM_CONFIG: PlatformConfig = {
+    insuranceFundBps: 2000,
+    openFeeBps: 10,
+    closeFeeBps: 10,
+    perfFeeBps: 1000,
+    platformPerfFeeBps: 500,
+    minFeeUsd: 0.01,
+    maxFeeUsd: 0,
+    referrerShareBps: 2000,
+    refereeDiscountBps: 500,
+    feeTiers: [
+        { minVolumeSol: 0, discountBps: 0 },
+        { minVolumeSol: 500, discountBps: 1000 },
+        { minVolumeSol: 5000, discountBps: 2500 },
+        { minVolumeSol: 50000, discountBps: 4000 },
+    ],
+}
+
+type NumericSetting = Exclude<keyof PlatformConfig, 'feeTiers'>
+
+const BOUNDS: Record<NumericSetting, [number, number]> = {
+    insuranceFundBps: [0, 10000],
+    openFeeBps: [0, 10000],
+    closeFeeBps: [0, 10000],
+    perfFeeBps: [0, 5000],
+    platformPerfFeeBps: [0, 5000],
+    minFeeUsd: [0, 1000],
+    maxFeeUsd: [0, 1000000],
+    referrerShareBps: [0, 10000],
+    refereeDiscountBps: [0, 5000],
+}
+
+const MAX_FEE_TIERS = 20
+
+function inBounds(key: NumericSetting, v: any) {
+    const [min, max] = BOUNDS[key]
+    return typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max
+}
+
+// RTDB may hand an array back as an object keyed by index
+function tierList(raw: any): any[] | null {
+    if (Array.isArray(raw)) return raw
+    return raw && typeof raw === 'object' ? Object.values(raw) : null
+}
+
+// Why `raw` is not a valid fee tier list; empty when it is
+export function feeTierReasons(raw: any): string[] {
+    const tiers = tierList(raw)
+    if (!tiers || !tiers.length) return ['feeTiers: must be a non-empty list']
+    if (tiers.length > MAX_FEE_TIERS) return [`feeTiers: at most ${MAX_FEE_TIERS} tiers`]
+    const reasons: string[] = []
+    tiers.forEach((t: any, i: number) => {
+        const min = Number(t?.minVolumeSol)
+        const discount = Number(t?.discountBps)
+        if (t?.minVolumeSol == null || !Number.isFinite(min) || min < 0) reasons.push(`feeTiers[${i}].minVolumeSol: must be a number >= 0`)
+        if (t?.discountBps == null || !Number.isFinite(discount) || discount < 0 || discount > 10000) reasons.push(`feeTiers[${i}].discountBps: must be a number in [0, 10000]`)
+        if (i > 0 && !(min > Number(tiers[i - 1]?.minVolumeSol))) reasons.push(`feeTiers[${i}].minVolumeSol: must be above the previous tier`)
+    })
+    return reasons
+}
+
+function parseFeeTiers(raw: any): FeeTier[] {
+    return (tierList(raw) || []).map((t: any) => ({ minVolumeSol: Number(t.minVolumeSol), discountBps: Number(t.discountBps) }))
+}
+
+export function platformConfig(raw: any): PlatformConfig {
+    const out: any = {}
+    for (const key of Object.keys(BOUNDS) as NumericSetting[]) {
+        out[key] = inBounds(key, raw?.[key]) ? raw[key] : DEFAULT_PLATFORM_CONFIG[key]
+    }
+    const tiersValid = raw?.feeTiers != null && !feeTierReasons(raw.feeTiers).length
+    out.feeTiers = tiersValid ? parseFeeTiers(raw.feeTiers) : DEFAULT_PLATFORM_CONFIG.feeTiers.map((t) => ({ ...t }))
+    return out
+}
+
+export async function getPlatformConfig(): Promise<PlatformConfig> {
+    try {
+        const snap = await getStore().ref('/platform/config').get()
+        return platformConfig(snap.exists() ? snap.val() : null)
+    } catch (e) {
+        console.warn(TAG, 'failed to read platform config, using defaults', e)
+        return platformConfig(null)
+    }
+}
+
+// Validate and write a partial config update; returns the resulting config
+export async function updatePlatformConfig(changes: Record<string, any>, by: string) {
+    const reasons: string[] = []
+    const update: Record<string, any> = {}
+    for (const [key, raw] of Object.entries(changes || {})) {
+        if (key === 'feeTiers') {
+            const tierReasons = feeTierReasons(raw)
+            if (tierReasons.length) reasons.push(...tierReasons)
+            else update.feeTiers = parseFeeTiers(raw)
+            continue
+        }
+        if (!(key in BOUNDS)) {
+            reasons.push(`${key}: unknown setting`)
+            continue
+        }
+        const v = Number(raw)
+        if (!inBounds(key as NumericSetting, v)) {
+            const [min, max] = BOUNDS[key as NumericSetting]
+            reasons.push(`${key}: must be a number in [${min}, ${max}]`)
+            continue
+        }
+        update[key] = v
+    }
+    if (!reasons.length && !Object.keys(update).length) reasons.push('no settings given')
+    if (reasons.length) {
+        const err: any = new Error('invalid_config')
+        err.reasons = reasons
+        throw err
+    }
+    await getStore().ref('/platform/config').update({ ...update, updatedAt: Date.now(), updatedBy: by })
+    console.info(TAG, 'platform config updated', { by, update })
+    return getPlatformConfig()
+}
+
+export default { DEFAULT_PLATFORM_CONFIG, feeTierReasons, platformConfig, getPlatformConfig, updatePlatformConfig }
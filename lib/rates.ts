@@ -0,0 +1,69 @@
+// Utilization-based borrow rate model. Each vault carries a kinked curve in
+// its params: the borrow APR rises by `rateSlope1Bps` between 0% and
+// `rateKinkBps` utilization, then by `rateSlope2Bps` from the kink to 100%.
+
+export interface RateModel {
+    rateBaseBps: number
+    rateSlope1Bps: number
+    rateKinkBps: number
+    rateSlope2Bps: number
+}
+
+// Defaults keep the previous flat 10% APR at zero utilization
+export const DEFAULT_RATE_MODEL: RateModel = {
+    rateBaseBps: 1000,
+    rateSlope1Bps: 1000,
+    rateKinkBps: 8000,
+    rateSlope2Bps: 10000,
+}
+
+export function rateModel(params: any): RateModel {
+    const p = params || {}
+    const pick = (k: keyof RateModel) => (typeof p[k] === 'number' && Number.isFinite(p[k]) && p[k] >= 0) ? p[k] : DEFAULT_RATE_MODEL[k]
+    const model = { rateBaseBps: pick('rateBaseBps'), rateSlope1Bps: pick('rateSlope1Bps'), rateKinkBps: pick('rateKinkBps'), rateSlope2Bps: pick('rateSlope2Bps') }
+    if (model.rateKinkBps <= 0 || model.rateKinkBps > 10000) model.rateKinkBps = DEFAULT_RATE_MODEL.rateKinkBps
+    return model
+}
+
+// Share of the vault's TVL that is lent out, in bps (0-10000)
+export function utilizationBps(tvlSol: number, totalBorrowsSol: number) {
+    const borrows = Math.max(0, totalBorrowsSol || 0)
+    if (borrows <= 0) return 0
+    const tvl = tvlSol || 0
+    if (tvl <= 0) return 10000
+    return Math.min(10000, Math.floor((borrows / tvl) * 10000))
+}
+
+export function borrowAprBps(params: any, utilBps: number) {
+    const m = rateModel(params)
+    const u = Math.max(0, Math.min(10000, utilBps))
+    if (u <= m.rateKinkBps) {
+        return Math.floor(m.rateBaseBps + (m.rateSlope1Bps * u) / m.rateKinkBps)
+    }
+    const over = m.rateKinkBps < 10000 ? (u - m.rateKinkBps) / (10000 - m.rateKinkBps) : 0
+    return Math.floor(m.rateBaseBps + m.rateSlope1Bps + m.rateSlope2Bps * over)
+}
+
+// All borrow interest is paid to the vault's LPs, so they earn the borrow APR on the lent-out share
+export function supplyAprBps(params: any, utilBps: number) {
+    return Math.floor((borrowAprBps(params, utilBps) * Math.max(0, Math.min(10000, utilBps))) / 10000)
+}
+
+export interface VaultRates {
+    utilBps: number
+    borrowAprBps: number
+    supplyAprBps: number
+}
+
+export function vaultRates(vault: any): VaultRates {
+    const utilBps = utilizationBps(vault?.tvlSol, vault?.totalBorrowsSol)
+    return { utilBps, borrowAprBps: borrowAprBps(vault?.params, utilBps), supplyAprBps: supplyAprBps(vault?.params, utilBps) }
+}
+
+// Refresh the stored utilization on a vault record inside a transaction or update
+export function applyUtilization<T extends { tvlSol?: number, totalBorrowsSol?: number, utilBps?: number }>(v: T): T {
+    v.utilBps = utilizationBps(v.tvlSol || 0, v.totalBorrowsSol || 0)
+    return v
+}
+
+export default { DEFAULT_RATE_MODEL, rateModel, utilizationBps, borrowAprBps, supplyAprBps, vaultRates, applyUtilization }
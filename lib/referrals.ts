@@ -0,0 +1,173 @@
+// Referral program. A user creates one referral code (`/referral_codes/<CODE>`)
+// and others redeem it once, at wallet connect or signup, which records
+// `/referred_by/<uid>`. From then on:
+//   - the referee gets `refereeDiscountBps` off open and close fees, on top
+//     of any volume tier discount (see feeSchedule.ts)
+//   - `referrerShareBps` of the platform's part of every open and close fee
+//     they pay is rebated to the referrer's `/referrals/<uid>/claimableSol`,
+//     claimed like vault fees (claims.ts)
+// Per-referee volume and rebates are kept under `/referral_referees/<referrerUid>`
+// for the referrer's stats.
+import { v4 as uuidv4 } from 'uuid'
+import { coerceNum } from './balanceTx'
+import { addSol, roundSol } from './lamports'
+import { getStore } from './store'
+
+const TAG = '[REFERRALS]'
+
+const CODE_PATTERN = /^[A-Z0-9_-]{4,20}$/
+
+export interface Referral {
+    code: string
+    referrerUid: string
+    redeemedAt: number
+}
+
+export interface ReferrerStats {
+    code: string | null
+    claimableSol: number
+    earnedSol: number
+    claimedSol: number
+    referredVolumeSol: number
+    refereeCount: number
+}
+
+function now() {
+    return Date.now()
+}
+
+// Upper-cased code, or null when it is not a valid code
+export function normalizeReferralCode(raw: any): string | null {
+    if (typeof raw !== 'string') return null
+    const code = raw.trim().toUpperCase()
+    return CODE_PATTERN.test(code) ? code : null
+}
+
+// The referrer's rebate out of `platformSol`, rounded down; the platform keeps the rest
+export function referralRebateSplit(platformSol: number, referrerShareBps: number) {
+    const share = Math.max(0, Math.min(10000, referrerShareBps))
+    const referrerSol = platformSol > 0 ? roundSol((platformSol * share) / 10000, 'down') : 0
+    return { referrerSol, platformSol: addSol(platformSol, -referrerSol) }
+}
+
+/**
+ * Create `uid`'s referral code, either `requested` or a generated one. A user
+ * has a single code: if they already have one it is returned unchanged.
+ */
+export async function createReferralCode(uid: string, requested?: string | null) {
+    const db = getStore()
+    const existing = await db.ref(`/referrals/${uid}/code`).get()
+    if (existing.exists()) return { code: existing.val() as string, created: false }
+
+    let code: string | null
+    if (requested != null && requested !== '') {
+        code = normalizeReferralCode(requested)
+        if (!code) throw new Error('invalid_referral_code')
+    } else {
+        code = uuidv4().replace(/-/g, '').slice(0, 8).toUpperCase()
+    }
+
+    const createdAt = now()
+    const codeRef = db.ref(`/referral_codes/${code}`)
+    const claimRes = await codeRef.transaction((cur: any) => {
+        if (cur != null) return
+        return { code, ownerUid: uid, createdAt }
+    })
+    if (!claimRes.committed || claimRes.snapshot.val()?.ownerUid !== uid) throw new Error('referral_code_taken')
+
+    // A concurrent create may have given this user a code first; keep that one
+    const ownRes = await db.ref(`/referrals/${uid}/code`).transaction((cur: any) => (cur == null ? code : undefined))
+    if (!ownRes.committed) {
+        await codeRef.remove()
+        const current = await db.ref(`/referrals/${uid}/code`).get()
+        return { code: current.val() as string, created: false }
+    }
+    console.info(TAG, 'referral code created', { uid, code })
+    return { code: code as string, created: true }
+}
+
+// Link `uid` to the owner of `rawCode`. Each user can be referred once.
+export async function redeemReferralCode(uid: string, rawCode: string): Promise<Referral> {
+    const code = normalizeReferralCode(rawCode)
+    if (!code) throw new Error('invalid_referral_code')
+    const db = getStore()
+    const codeSnap = await db.ref(`/referral_codes/${code}`).get()
+    if (!codeSnap.exists()) throw new Error('referral_code_not_found')
+    const referrerUid: string = codeSnap.val().ownerUid
+    if (referrerUid === uid) throw new Error('self_referral')
+    const upstream = await db.ref(`/referred_by/${referrerUid}`).get()
+    if (upstream.exists() && upstream.val().referrerUid === uid) throw new Error('referral_cycle')
+
+    const referral: Referral = { code, referrerUid, redeemedAt: now() }
+    const txRes = await db.ref(`/referred_by/${uid}`).transaction((cur: any) => {
+        if (cur != null) return
+        return referral
+    })
+    if (!txRes.committed) throw new Error('already_referred')
+
+    await db.ref(`/referral_referees/${referrerUid}/${uid}`).set({ uid, code, redeemedAt: referral.redeemedAt, volumeSol: 0, rebateSol: 0 })
+    await db.ref(`/referrals/${referrerUid}/refereeCount`).transaction((cur: any) => coerceNum(cur) + 1)
+    console.info(TAG, 'referral redeemed', { uid, referrerUid, code })
+    return referral
+}
+
+// Who referred `uid`, or null. A failed lookup is treated as not referred rather than blocking the trade.
+export async function getReferral(uid: string | null | undefined): Promise<Referral | null> {
+    if (!uid) return null
+    try {
+        const snap = await getStore().ref(`/referred_by/${uid}`).get()
+        return snap.exists() ? snap.val() : null
+    } catch (e) {
+        console.warn(TAG, 'failed to read referral, treating as not referred', { uid, err: e })
+        return null
+    }
+}
+
+/**
+ * Book a referee's trade for their referrer: `volumeSol` of notional and a
+ * `rebateSol` credit to the referrer's claimable rebates.
+ */
+export async function creditReferralRebate(referral: Referral, refereeUid: string, rebateSol: number, volumeSol: number, source: string) {
+    const db = getStore()
+    const atMs = now()
+    await db.ref(`/referrals/${referral.referrerUid}`).transaction((r: any) => {
+        const stats = r || {}
+        stats.claimableSol = addSol(coerceNum(stats.claimableSol), rebateSol)
+        stats.earnedSol = addSol(coerceNum(stats.earnedSol), rebateSol)
+        stats.referredVolumeSol = addSol(coerceNum(stats.referredVolumeSol), volumeSol)
+        stats.updatedAt = atMs
+        return stats
+    })
+    await db.ref(`/referral_referees/${referral.referrerUid}/${refereeUid}`).transaction((r: any) => {
+        const entry = r || { uid: refereeUid, code: referral.code, redeemedAt: referral.redeemedAt }
+        entry.volumeSol = addSol(coerceNum(entry.volumeSol), volumeSol)
+        entry.rebateSol = addSol(coerceNum(entry.rebateSol), rebateSol)
+        entry.lastTradeAt = atMs
+        return entry
+    })
+    console.info(TAG, 'referral rebate', { referrerUid: referral.referrerUid, refereeUid, rebateSol, volumeSol, source })
+}
+
+export async function getReferrerStats(uid: string): Promise<ReferrerStats> {
+    const snap = await getStore().ref(`/referrals/${uid}`).get()
+    const r = snap.exists() ? snap.val() : {}
+    return {
+        code: r.code ?? null,
+        claimableSol: coerceNum(r.claimableSol),
+        earnedSol: coerceNum(r.earnedSol),
+        claimedSol: coerceNum(r.claimedSol),
+        referredVolumeSol: coerceNum(r.referredVolumeSol),
+        refereeCount: coerceNum(r.refereeCount),
+    }
+}
+
+// The referrer's referees with their volume and rebates, highest volume first
+export async function listReferees(uid: string, opts?: { limit?: number }) {
+    const limit = Math.max(1, Math.min(opts?.limit ?? 100, 1000))
+    const snap = await getStore().ref(`/referral_referees/${uid}`).get()
+    return Object.values<any>(snap.exists() ? snap.val() : {})
+        .sort((a, b) => coerceNum(b.volumeSol) - coerceNum(a.volumeSol))
+        .slice(0, limit)
+}
+
+export default { normalizeReferralCode, referralRebateSplit, createReferralCode, redeemReferralCode, getReferral, creditReferralRebate, getReferrerStats, listReferees }
@@ -0,0 +1,130 @@
+// Typed access to the engine's core records, through the current store (see
+// store.ts), so the same code runs against the database in production and a
+// MemoryStore in tests:
+//   vaults      /vaults/<vaultId>
+//   positions   /positions/<uid>/<vaultId>/<posId>
+//   trades      /trades/<vaultId>/<tradeId>
+//   fees        /fees/<feeId>            the fee ledger
+//   orders      /orders/<vaultId>/<orderId>
+//   balances    /users/<uid>/balance
+//   treasury    /platform/treasury/fees
+// Transactions take the same update function as StoreRef.transaction and
+// may see a stale (often null) value first.
+import { coerceNum, transactionWithReadGuard, UpdateFn } from './balanceTx'
+import { addSol } from './lamports'
+import { getStore, StoreTransactionResult } from './store'
+
+export interface VaultRepository {
+    get(vaultId: string): Promise<any | null>
+    getParams(vaultId: string): Promise<any | null>
+    getComposition(vaultId: string): Promise<any | null>
+    list(): Promise<Record<string, any>>
+    create(vaultId: string, vault: any): Promise<void>
+    transaction(vaultId: string, update: (vault: any) => any, applyLocally?: boolean): Promise<StoreTransactionResult>
+    creditCreatorFees(vaultId: string, amountSol: number): Promise<void>
+    creditContributorFees(vaultId: string, uid: string, amountSol: number): Promise<void>
+}
+
+export interface PositionRepository {
+    path(uid: string, vaultId: string, posId: string): string
+    get(uid: string, vaultId: string, posId: string): Promise<any | null>
+    // Every position, as /positions stores them: uid -> vaultId -> posId
+    listAll(): Promise<Record<string, Record<string, Record<string, any>>>>
+    update(uid: string, vaultId: string, posId: string, fields: Record<string, any>): Promise<void>
+    transaction(uid: string, vaultId: string, posId: string, update: (position: any) => any): Promise<StoreTransactionResult>
+    transactionStatus(uid: string, vaultId: string, posId: string, update: (status: any) => any): Promise<StoreTransactionResult>
+}
+
+export interface TradeRepository {
+    path(vaultId: string, tradeId: string): string
+    record(vaultId: string, tradeId: string, trade: any): Promise<void>
+    exists(vaultId: string, tradeId: string): Promise<boolean>
+}
+
+export interface OrderRepository {
+    path(vaultId: string, orderId: string): string
+    get(vaultId: string, orderId: string): Promise<any | null>
+    transaction(vaultId: string, orderId: string, update: (order: any) => any): Promise<StoreTransactionResult>
+}
+
+export interface FeeRepository {
+    record(feeId: string, entry: any): Promise<void>
+    exists(feeId: string): Promise<boolean>
+}
+
+export interface BalanceRepository {
+    get(uid: string): Promise<any>
+    credit(uid: string, amountSol: number): Promise<void>
+    // Take `amountSol` if the balance covers it; false when it does not
+    debit(uid: string, amountSol: number, tag: string): Promise<boolean>
+    // Read-guarded update (see balanceTx.ts); false when it did not commit
+    guardedUpdate(uid: string, update: UpdateFn, tag: string): Promise<boolean>
+}
+
+export interface TreasuryRepository {
+    get(): Promise<number>
+    credit(amountSol: number): Promise<void>
+}
+
+async function read(path: string) {
+    const snap = await getStore().ref(path).get()
+    return snap.exists() ? snap.val() : null
+}
+
+async function creditAt(path: string, amountSol: number) {
+    await getStore().ref(path).transaction((curr: any) => addSol(coerceNum(curr), amountSol))
+}
+
+export const vaultRepo: VaultRepository = {
+    get: (vaultId) => read(`/vaults/${vaultId}`),
+    getParams: (vaultId) => read(`/vaults/${vaultId}/params`),
+    getComposition: (vaultId) => read(`/vaults/${vaultId}/composition`),
+    list: async () => (await read('/vaults')) || {},
+    create: (vaultId, vault) => getStore().ref(`/vaults/${vaultId}`).set(vault),
+    transaction: (vaultId, update, applyLocally) => getStore().ref(`/vaults/${vaultId}`).transaction(update, undefined, applyLocally),
+    creditCreatorFees: (vaultId, amountSol) => creditAt(`/vaults/${vaultId}/feesForCreator`, amountSol),
+    creditContributorFees: (vaultId, uid, amountSol) => creditAt(`/vaults/${vaultId}/composition/contributors/${uid}/claimable`, amountSol),
+}
+
+export const positionRepo: PositionRepository = {
+    path: (uid, vaultId, posId) => `/positions/${uid}/${vaultId}/${posId}`,
+    get: (uid, vaultId, posId) => read(positionRepo.path(uid, vaultId, posId)),
+    listAll: async () => (await read('/positions')) || {},
+    update: (uid, vaultId, posId, fields) => getStore().ref(positionRepo.path(uid, vaultId, posId)).update(fields),
+    transaction: (uid, vaultId, posId, update) => getStore().ref(positionRepo.path(uid, vaultId, posId)).transaction(update),
+    transactionStatus: (uid, vaultId, posId, update) => getStore().ref(`${positionRepo.path(uid, vaultId, posId)}/status`).transaction(update),
+}
+
+export const tradeRepo: TradeRepository = {
+    path: (vaultId, tradeId) => `/trades/${vaultId}/${tradeId}`,
+    record: (vaultId, tradeId, trade) => getStore().ref(tradeRepo.path(vaultId, tradeId)).set(trade),
+    exists: async (vaultId, tradeId) => (await read(tradeRepo.path(vaultId, tradeId))) != null,
+}
+
+export const orderRepo: OrderRepository = {
+    path: (vaultId, orderId) => `/orders/${vaultId}/${orderId}`,
+    get: (vaultId, orderId) => read(orderRepo.path(vaultId, orderId)),
+    transaction: (vaultId, orderId, update) => getStore().ref(orderRepo.path(vaultId, orderId)).transaction(update),
+}
+
+export const feeRepo: FeeRepository = {
+    record: (feeId, entry) => getStore().ref(`/fees/${feeId}`).set(entry),
+    exists: async (feeId) => (await read(`/fees/${feeId}`)) != null,
+}
+
+export const balanceRepo: BalanceRepository = {
+    get: (uid) => read(`/users/${uid}/balance`),
+    credit: (uid, amountSol) => creditAt(`/users/${uid}/balance`, amountSol),
+    debit: (uid, amountSol, tag) => balanceRepo.guardedUpdate(uid, (cur: number) => cur < amountSol ? undefined : cur - amountSol, tag),
+    guardedUpdate: async (uid, update, tag) => {
+        const txRes = await transactionWithReadGuard(getStore().ref(`/users/${uid}/balance`), update, { attempts: 6, backoffMs: 50, tag })
+        return !!txRes?.committed
+    },
+}
+
+export const treasuryRepo: TreasuryRepository = {
+    get: async () => coerceNum(await read('/platform/treasury/fees')),
+    credit: (amountSol) => creditAt('/platform/treasury/fees', amountSol),
+}
+
+export default { vaultRepo, positionRepo, tradeRepo, orderRepo, feeRepo, balanceRepo, treasuryRepo }
@@ -0,0 +1,121 @@
+// Vault risk parameters and position health checks
+import { accruedInterestSol } from './interest'
+import * as math from './math'
+import { sharePriceSol } from './nav'
+
+export interface RiskParams {
+    imrBps: number
+    mmrBps: number
+    liqBonusBps: number
+    maxLevBps: number
+}
+
+// Defaults applied when a vault was created without explicit risk params
+export const DEFAULT_RISK_PARAMS: RiskParams = {
+    imrBps: 1000,
+    mmrBps: 800,
+    liqBonusBps: 100,
+    maxLevBps: 20000,
+}
+
+export function riskParams(params: any): RiskParams {
+    const p = params || {}
+    const pick = (k: keyof RiskParams) => (typeof p[k] === 'number' && Number.isFinite(p[k])) ? p[k] : DEFAULT_RISK_PARAMS[k]
+    return { imrBps: pick('imrBps'), mmrBps: pick('mmrBps'), liqBonusBps: pick('liqBonusBps'), maxLevBps: pick('maxLevBps') }
+}
+
+// SOL notional at entry. Fixed at open so later margin changes move equity,
+// not PnL; positions opened before it was recorded fall back to collateral + borrow.
+export function entryNotionalSol(position: any) {
+    if (typeof position.entryNotionalSol === 'number') return position.entryNotionalSol
+    return (position.collateralSol || 0) + (position.borrowSol || 0)
+}
+
+// Unborrowed vault liquidity that can be lent out; capital queued for LP withdrawal is held back
+export function availableLiquiditySol(vault: any, atMs = Date.now()) {
+    const queuedSol = (vault?.withdrawQueueShares || 0) * sharePriceSol(vault, atMs)
+    return (vault?.tvlSol || 0) - (vault?.totalBorrowsSol || 0) - queuedSol
+}
+
+export interface PositionHealth {
+    valueSol: number
+    pnlSol: number
+    interestSol: number
+    equitySol: number
+    mrBps: number
+    mmrBps: number
+    liquidatable: boolean
+}
+
+/**
+ * Mark a position at `valueSol` (current value of `sizeToken` in SOL) and
+ * compare its margin ratio against the vault's maintenance requirement.
+ * Works for both sides: a SHORT's PnL is the entry notional minus `valueSol`.
+ */
+export function assessPosition(position: any, params: any, valueSol: number, atMs = Date.now()): PositionHealth {
+    const { mmrBps } = riskParams(params)
+    const collateralSol = position.collateralSol || 0
+    const notionalSol = entryNotionalSol(position)
+    const pnlSol = position.side === 'SHORT' ? notionalSol - valueSol : valueSol - notionalSol
+    const interestSol = accruedInterestSol(position, atMs)
+    const equitySol = math.computeEquitySol(collateralSol, pnlSol, interestSol, 0)
+    const mrBps = valueSol > 0 ? Math.floor((equitySol / valueSol) * 10000) : 0
+    return { valueSol, pnlSol, interestSol, equitySol, mrBps, mmrBps, liquidatable: mrBps < mmrBps }
+}
+
+export type OpenRiskCode = 'leverage_below_min' | 'leverage_exceeds_max' | 'initial_margin_below_imr' | 'insufficient_vault_liquidity'
+
+export interface OpenRiskReason {
+    code: OpenRiskCode
+    message: string
+    limit: number
+    actual: number
+}
+
+export interface OpenRiskCheck {
+    ok: boolean
+    reasons: OpenRiskReason[]
+    // Highest leverage (bps) the vault would accept for this collateral right now
+    maxLeverageBps: number
+    params: RiskParams
+}
+
+/**
+ * Validate a new position's leverage against the vault's risk params:
+ * `maxLevBps`, the initial margin requirement `imrBps` (collateral / notional)
+ * and, when `availableSol` is given, the vault's unborrowed liquidity.
+ */
+export function checkOpenRisk(params: any, collateralSol: number, leverageBps: number, availableSol?: number): OpenRiskCheck {
+    const rp = riskParams(params)
+    const reasons: OpenRiskReason[] = []
+
+    // 1 / leverage must stay >= imrBps, i.e. leverageBps <= 1e8 / imrBps
+    const imrCapBps = rp.imrBps > 0 ? Math.floor(1e8 / rp.imrBps) : Infinity
+    let maxLeverageBps = Math.min(rp.maxLevBps, imrCapBps)
+    if (typeof availableSol === 'number' && collateralSol > 0) {
+        const liquidityCapBps = Math.floor((1 + Math.max(0, availableSol) / collateralSol) * 10000)
+        maxLeverageBps = Math.min(maxLeverageBps, liquidityCapBps)
+    }
+    maxLeverageBps = Math.max(10000, maxLeverageBps)
+
+    if (leverageBps < 10000) {
+        reasons.push({ code: 'leverage_below_min', message: 'leverage must be at least 1x', limit: 10000, actual: leverageBps })
+    }
+    if (leverageBps > rp.maxLevBps) {
+        reasons.push({ code: 'leverage_exceeds_max', message: `leverage exceeds vault max of ${rp.maxLevBps / 10000}x`, limit: rp.maxLevBps, actual: leverageBps })
+    }
+    const initialMarginBps = leverageBps > 0 ? Math.floor(1e8 / leverageBps) : 0
+    if (initialMarginBps < rp.imrBps) {
+        reasons.push({ code: 'initial_margin_below_imr', message: `initial margin ${initialMarginBps} bps is below vault imr of ${rp.imrBps} bps`, limit: rp.imrBps, actual: initialMarginBps })
+    }
+    if (typeof availableSol === 'number') {
+        const borrowSol = math.computeBorrowSol(collateralSol, leverageBps)
+        if (borrowSol > availableSol) {
+            reasons.push({ code: 'insufficient_vault_liquidity', message: 'vault cannot fund the requested borrow', limit: availableSol, actual: borrowSol })
+        }
+    }
+
+    return { ok: reasons.length === 0, reasons, maxLeverageBps, params: rp }
+}
+
+export default { DEFAULT_RISK_PARAMS, riskParams, entryNotionalSol, availableLiquiditySol, assessPosition, checkOpenRisk }
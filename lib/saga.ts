@@ -0,0 +1,281 @@
+// Crash-safe multi-step engine operations. Opening or closing a position
+// moves SOL through several separate writes (vault borrow, user balance, fee
+// credits, the position itself), and a crash between two of them used to
+// leave e.g. borrowed capital without a position. Each open and close now
+// runs as a saga persisted at `/sagas/<sagaId>`, recording every step as
+//   pending  its write has started and may or may not have landed
+//   done     its write has landed
+// along with the data needed to finish the operation without the request
+// that started it.
+//
+// Each kind has a commit step. A saga that stopped before it is compensated:
+// its done steps are undone. One that got past it is completed: its remaining
+// steps run. sagaRecovery.ts does this for sagas a crash left RUNNING. A step
+// left pending is in doubt; when the engine cannot tell from the data whether
+// it landed, the saga is marked STUCK for an admin to resolve.
+//
+// Whoever runs a saga holds its lease: the request that started it, renewed
+// with every step, or a recoverer that claimed it once that lapsed. Writes
+// from anyone else are refused, so a request that stalls past its lease
+// cannot keep running steps alongside recovery.
+import { v4 as uuidv4 } from 'uuid'
+import { getStore } from './store'
+
+const TAG = '[SAGA]'
+
+export type SagaKind = 'open' | 'close'
+export type SagaStatus = 'RUNNING' | 'DONE' | 'COMPENSATED' | 'STUCK'
+export type StepState = 'pending' | 'done'
+
+export interface Saga<T = any> {
+    sagaId: string
+    kind: SagaKind
+    uid: string
+    vaultId: string
+    posId: string
+    status: SagaStatus
+    steps: Record<string, StepState>
+    data: T
+    error: string | null
+    recoveries: number
+    lease: { owner: string, until: number } | null
+    startedAt: number
+    updatedAt: number
+    finishedAt: number | null
+}
+
+export type RecoveryAction =
+    | { action: 'complete' }
+    | { action: 'compensate' }
+    | { action: 'resolve', step: string }
+
+// Once this step is done an operation is finished rather than undone
+export const COMMIT_STEP: Record<SagaKind, string> = { open: 'position', close: 'settle' }
+
+// A RUNNING saga not updated for this long has lost the request running it
+export const SAGA_STALE_MS = Number(process.env.SAGA_STALE_MS) || 60_000
+export const SAGA_LEASE_MS = 5 * 60_000
+// How long a request's lease lasts past its latest step
+export const SAGA_REQUEST_LEASE_MS = SAGA_STALE_MS
+// Failed recoveries before a saga is left STUCK
+export const MAX_RECOVERIES = 5
+
+export function pendingSteps(saga: Pick<Saga, 'steps'>) {
+    return Object.keys(saga.steps || {}).filter((s) => saga.steps[s] === 'pending')
+}
+
+/**
+ * What recovery should do with a saga: resolve an in-doubt step first, then
+ * complete it if it got past its commit step or compensate it otherwise.
+ */
+export function recoveryAction(saga: Pick<Saga, 'kind' | 'steps'>): RecoveryAction {
+    const pending = pendingSteps(saga)
+    if (pending.length) return { action: 'resolve', step: pending[0] }
+    return saga.steps?.[COMMIT_STEP[saga.kind]] === 'done' ? { action: 'complete' } : { action: 'compensate' }
+}
+
+// Whether recovery may take a saga over at `atMs`
+export function isRecoverable(saga: Pick<Saga, 'status' | 'updatedAt' | 'lease'>, atMs: number, staleMs = SAGA_STALE_MS) {
+    return saga.status === 'RUNNING' && saga.updatedAt <= atMs - staleMs && !(saga.lease && saga.lease.until > atMs)
+}
+
+function sagaRef(sagaId: string) {
+    return getStore().ref(`/sagas/${sagaId}`)
+}
+
+// RTDB drops empty objects and nulls
+function fromVal(v: any): Saga {
+    return { ...v, steps: v.steps || {}, data: v.data || {}, error: v.error ?? null, recoveries: v.recoveries || 0, lease: v.lease ?? null, finishedAt: v.finishedAt ?? null }
+}
+
+// Set `path` (slash-separated, relative to `obj`) to `value`, creating parents as needed
+function setPath(obj: any, path: string, value: any) {
+    const keys = path.split('/')
+    let node = obj
+    for (const k of keys.slice(0, -1)) {
+        if (node[k] == null || typeof node[k] !== 'object') node[k] = {}
+        node = node[k]
+    }
+    node[keys[keys.length - 1]] = value
+}
+
+/**
+ * Write `updates` (paths relative to the saga) and bump `updatedAt`, provided
+ * the saga's lease is still held by this saga's owner; a write from anyone
+ * else fails with `saga_lease_lost`. A required write throws; otherwise a
+ * failure is logged and the in-memory saga stays authoritative for the
+ * request running it.
+ */
+async function persist(saga: Saga, updates: Record<string, any>, required = false) {
+    saga.updatedAt = Date.now()
+    const owner = saga.lease?.owner ?? null
+    try {
+        const txRes = await sagaRef(saga.sagaId).transaction((cur: any) => {
+            if (cur == null) return cur
+            if ((cur.lease?.owner ?? null) !== owner) return
+            for (const [path, value] of Object.entries(updates)) setPath(cur, path, value)
+            cur.updatedAt = saga.updatedAt
+            return cur
+        })
+        if (!txRes.committed || !txRes.snapshot.exists()) throw new Error('saga_lease_lost')
+    } catch (e) {
+        if (required) throw e
+        console.error(TAG, 'saga write failed', { sagaId: saga.sagaId, updates, err: e })
+    }
+}
+
+export async function startSaga<T>(kind: SagaKind, ids: { uid: string, vaultId: string, posId: string }, data: T): Promise<Saga<T>> {
+    const atMs = Date.now()
+    const saga: Saga<T> = {
+        sagaId: uuidv4(),
+        kind,
+        ...ids,
+        status: 'RUNNING',
+        steps: {},
+        data,
+        error: null,
+        recoveries: 0,
+        lease: { owner: uuidv4(), until: atMs + SAGA_REQUEST_LEASE_MS },
+        startedAt: atMs,
+        updatedAt: atMs,
+        finishedAt: null,
+    }
+    await sagaRef(saga.sagaId).set(saga)
+    return saga
+}
+
+// Store data a later step needs; must land before that step starts
+export async function saveSagaData<T>(saga: Saga<T>, patch: Partial<T>) {
+    const updates: Record<string, any> = {}
+    for (const [k, v] of Object.entries(patch)) {
+        (saga.data as any)[k] = v
+        updates[`data/${k}`] = v ?? null
+    }
+    await persist(saga, updates, true)
+}
+
+/**
+ * Run one step unless it is already done. The step is marked pending before
+ * `fn` runs and done after; whatever `fn` returns is merged into the saga's
+ * data with the done mark. If `fn` throws its write did not land, so the mark
+ * is cleared and the error rethrown.
+ */
+export async function runStep<T>(saga: Saga<T>, step: string, fn: () => Promise<Partial<T> | void>) {
+    if (saga.steps[step] === 'done') return
+    saga.steps[step] = 'pending'
+    // Starting a step renews the lease; it fails once someone else holds it
+    const pending: Record<string, any> = { [`steps/${step}`]: 'pending' }
+    if (saga.lease) {
+        saga.lease.until = Math.max(saga.lease.until, Date.now() + SAGA_REQUEST_LEASE_MS)
+        pending['lease/until'] = saga.lease.until
+    }
+    await persist(saga, pending, true)
+    let patch: Partial<T> | void
+    try {
+        patch = await fn()
+    } catch (e) {
+        delete saga.steps[step]
+        await persist(saga, { [`steps/${step}`]: null })
+        throw e
+    }
+    const updates: Record<string, any> = { [`steps/${step}`]: 'done' }
+    for (const [k, v] of Object.entries(patch || {})) {
+        (saga.data as any)[k] = v
+        updates[`data/${k}`] = v ?? null
+    }
+    saga.steps[step] = 'done'
+    await persist(saga, updates)
+}
+
+// Settle an in-doubt step once it is known whether its write landed
+export async function resolveStep(saga: Saga, step: string, landed: boolean) {
+    if (landed) saga.steps[step] = 'done'
+    else delete saga.steps[step]
+    await persist(saga, { [`steps/${step}`]: landed ? 'done' : null }, true)
+}
+
+export async function finishSaga(saga: Saga, status: SagaStatus, error?: string | null) {
+    saga.status = status
+    saga.error = error ?? saga.error
+    saga.finishedAt = (status === 'DONE' || status === 'COMPENSATED') ? Date.now() : null
+    await persist(saga, { status, error: saga.error, lease: null, finishedAt: saga.finishedAt })
+    saga.lease = null
+}
+
+// Leave a saga RUNNING for recovery, noting why it stopped
+export async function noteSagaError(saga: Saga, err: any) {
+    saga.error = err?.message || String(err)
+    await persist(saga, { error: saga.error })
+}
+
+export async function getSaga(sagaId: string): Promise<Saga | null> {
+    const snap = await sagaRef(sagaId).get()
+    return snap.exists() ? fromVal(snap.val()) : null
+}
+
+/**
+ * Take a saga over for recovery under a lease, so two recoverers never run
+ * it at once. Only stale RUNNING sagas are taken, and STUCK ones when
+ * `includeStuck` is set (an admin retrying one).
+ */
+export async function claimSaga(sagaId: string, owner: string, opts?: { includeStuck?: boolean }): Promise<Saga | null> {
+    const atMs = Date.now()
+    const txRes = await sagaRef(sagaId).transaction((cur: any) => {
+        if (cur == null) return cur
+        const claimable = cur.status === 'STUCK' ? !!opts?.includeStuck : isRecoverable(fromVal(cur), atMs)
+        if (!claimable) return
+        cur.status = 'RUNNING'
+        cur.lease = { owner, until: atMs + SAGA_LEASE_MS }
+        cur.updatedAt = atMs
+        return cur
+    })
+    const cur = txRes.snapshot.val()
+    if (!txRes.committed || cur?.lease?.owner !== owner) return null
+    return fromVal(cur)
+}
+
+// A failed recovery: release the lease, or give up after MAX_RECOVERIES
+export async function recoveryFailed(saga: Saga, err: any) {
+    saga.recoveries += 1
+    saga.error = err?.message || String(err)
+    const updates: Record<string, any> = { recoveries: saga.recoveries, error: saga.error, lease: null }
+    if (saga.recoveries >= MAX_RECOVERIES) {
+        saga.status = 'STUCK'
+        updates.status = 'STUCK'
+    }
+    await persist(saga, updates)
+    saga.lease = null
+}
+
+// Sagas, newest first, optionally in one status
+export async function listSagas(opts?: { status?: SagaStatus, limit?: number }): Promise<Saga[]> {
+    const limit = Math.max(1, Math.min(opts?.limit ?? 100, 1000))
+    const ref = getStore().ref('/sagas')
+    const snap = opts?.status ? await ref.orderByChild('status').equalTo(opts.status).get() : await ref.orderByChild('startedAt').limitToLast(limit).get()
+    const out: Saga[] = []
+    snap.forEach((child: any) => {
+        out.push(fromVal(child.val()))
+    })
+    return out.sort((a, b) => b.startedAt - a.startedAt).slice(0, limit)
+}
+
+// Drop finished sagas older than `maxAgeMs`; RUNNING and STUCK ones are kept
+export async function pruneFinishedSagas(maxAgeMs: number) {
+    const cutoff = Date.now() - maxAgeMs
+    const updates: Record<string, any> = {}
+    for (const status of ['DONE', 'COMPENSATED'] as SagaStatus[]) {
+        const snap = await getStore().ref('/sagas').orderByChild('status').equalTo(status).get()
+        snap.forEach((child: any) => {
+            const s = child.val()
+            if ((s.finishedAt || 0) < cutoff) updates[`/sagas/${child.key}`] = null
+        })
+    }
+    const pruned = Object.keys(updates).length
+    if (pruned) await getStore().ref().update(updates)
+    return pruned
+}
+
+export default {
+    COMMIT_STEP, SAGA_STALE_MS, SAGA_LEASE_MS, SAGA_REQUEST_LEASE_MS, MAX_RECOVERIES, pendingSteps, recoveryAction, isRecoverable,
+    startSaga, saveSagaData, runStep, resolveStep, finishSaga, noteSagaError, getSaga, claimSaga, recoveryFailed, listSagas, pruneFinishedSagas,
+}
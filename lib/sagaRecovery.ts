@@ -0,0 +1,108 @@
+// Recovery worker for engine sagas (see saga.ts). Runs on startup and then
+// every SAGA_RECOVERY_INTERVAL_MS, completing or compensating each open and
+// close that a crash left RUNNING, and pruning finished sagas after a week.
+import { v4 as uuidv4 } from 'uuid'
+import { recoverSaga } from './engine'
+import { claimSaga, getSaga, isRecoverable, listSagas, pruneFinishedSagas, recoveryFailed, resolveStep, Saga, SagaStatus } from './saga'
+
+const TAG = '[SAGA_RECOVERY]'
+
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface SagaRecoveryOutcome {
+    sagaId: string
+    kind: string
+    status: SagaStatus
+    error?: string
+}
+
+export interface SagaRecoveryResult {
+    scanned: number
+    recovered: SagaRecoveryOutcome[]
+    pruned: number
+    ts: number
+}
+
+class SagaRecovery {
+    private interval: NodeJS.Timeout | null = null
+    private running = false
+    private lastRun: SagaRecoveryResult | null = null
+    private readonly intervalMs = Number(process.env.SAGA_RECOVERY_INTERVAL_MS) || 60000
+    // Identifies this process's leases on the sagas it recovers
+    private readonly owner = uuidv4()
+
+    start() {
+        if (this.interval) return
+        console.log(TAG, `Starting saga recovery (interval ${this.intervalMs}ms)`)
+        this.runOnce().catch((err) => console.error(TAG, 'run failed', err))
+        this.interval = setInterval(() => {
+            this.runOnce().catch((err) => console.error(TAG, 'run failed', err))
+        }, this.intervalMs)
+    }
+
+    stop() {
+        if (this.interval) {
+            clearInterval(this.interval)
+            this.interval = null
+            console.log(TAG, 'Saga recovery stopped')
+        }
+    }
+
+    getStatus() {
+        return { active: !!this.interval, intervalMs: this.intervalMs, lastRun: this.lastRun }
+    }
+
+    private async recoverClaimed(saga: Saga): Promise<SagaRecoveryOutcome> {
+        try {
+            const status = await recoverSaga(saga)
+            console.info(TAG, 'saga recovered', { sagaId: saga.sagaId, kind: saga.kind, status })
+            return { sagaId: saga.sagaId, kind: saga.kind, status }
+        } catch (err: any) {
+            console.error(TAG, 'saga recovery failed', { sagaId: saga.sagaId, kind: saga.kind, err: err?.message || err })
+            await recoveryFailed(saga, err)
+            return { sagaId: saga.sagaId, kind: saga.kind, status: saga.status, error: err?.message || String(err) }
+        }
+    }
+
+    async runOnce(): Promise<SagaRecoveryResult> {
+        if (this.running) {
+            console.warn(TAG, 'previous run still in progress, skipping')
+            return this.lastRun ?? { scanned: 0, recovered: [], pruned: 0, ts: Date.now() }
+        }
+        this.running = true
+        try {
+            const sagas = await listSagas({ status: 'RUNNING', limit: 1000 })
+            const atMs = Date.now()
+            const recovered: SagaRecoveryOutcome[] = []
+            for (const s of sagas) {
+                if (!isRecoverable(s, atMs)) continue
+                const saga = await claimSaga(s.sagaId, this.owner)
+                if (saga) recovered.push(await this.recoverClaimed(saga))
+            }
+            const pruned = await pruneFinishedSagas(RETENTION_MS)
+            this.lastRun = { scanned: sagas.length, recovered, pruned, ts: Date.now() }
+            if (recovered.length) {
+                console.info(TAG, 'run complete', { scanned: sagas.length, recovered: recovered.length, failed: recovered.filter((r) => r.error).length })
+            }
+            return this.lastRun
+        } finally {
+            this.running = false
+        }
+    }
+
+    /**
+     * Recover one stale or STUCK saga now (admin). For a STUCK saga, `resolve`
+     * first records whether its in-doubt step landed, as checked by hand.
+     */
+    async recover(sagaId: string, resolve?: { step: string, landed: boolean }): Promise<SagaRecoveryOutcome> {
+        const current = await getSaga(sagaId)
+        if (!current) throw new Error('saga_not_found')
+        if (resolve && current.steps[resolve.step] !== 'pending') throw new Error('step_not_in_doubt')
+        const saga = await claimSaga(sagaId, this.owner, { includeStuck: true })
+        if (!saga) throw new Error('saga_not_recoverable')
+        if (resolve) await resolveStep(saga, resolve.step, resolve.landed)
+        return this.recoverClaimed(saga)
+    }
+}
+
+export const sagaRecovery = new SagaRecovery()
@@ -0,0 +1,70 @@
+// Storage behind the engine. Engine data lives in the Firebase Realtime
+// Database; `Store` is the part of its API the engine uses: refs by path with
+// get/set/update/remove/push, transactions and ordered queries. In production
+// `getStore()` is the admin SDK's database itself. Tests swap in a
+// MemoryStore (memoryStore.ts) with `setStore`, so engine flows run without a
+// Firebase project. Typed access to the core records is in repositories.ts.
+import { getAdminDb } from './firebaseAdmin'
+
+export type StoreKeyValue = number | string | boolean | null
+
+export interface StoreSnapshot {
+    key: string | null
+    exists(): boolean
+    val(): any
+    forEach(action: (child: StoreSnapshot) => boolean | void): boolean
+}
+
+export interface StoreQuery {
+    orderByChild(path: string): StoreQuery
+    orderByKey(): StoreQuery
+    orderByValue(): StoreQuery
+    equalTo(value: StoreKeyValue, key?: string): StoreQuery
+    startAt(value: StoreKeyValue, key?: string): StoreQuery
+    endAt(value: StoreKeyValue, key?: string): StoreQuery
+    limitToFirst(limit: number): StoreQuery
+    limitToLast(limit: number): StoreQuery
+    get(): Promise<StoreSnapshot>
+}
+
+export interface StoreTransactionResult {
+    committed: boolean
+    snapshot: StoreSnapshot
+}
+
+export interface StoreRef extends StoreQuery {
+    key: string | null
+    child(path: string): StoreRef
+    set(value: any): Promise<void>
+    update(values: object): Promise<void>
+    remove(): Promise<void>
+    // Adds `value` under a new chronologically ordered key
+    push(value?: any): PromiseLike<unknown> & { key: string | null }
+    /**
+     * Atomically replace the value with `update(current)`. Returning
+     * undefined aborts. As with the database, `update` may be called more
+     * than once, first with a stale local value (often null).
+     */
+    transaction(
+        update: (current: any) => any,
+        onComplete?: (error: Error | null, committed: boolean, snapshot: StoreSnapshot | null) => void,
+        applyLocally?: boolean,
+    ): Promise<StoreTransactionResult>
+}
+
+export interface Store {
+    ref(path?: string): StoreRef
+}
+
+let current: Store | null = null
+
+export function getStore(): Store {
+    return current ?? getAdminDb()
+}
+
+// Point the engine at another store; null goes back to the database
+export function setStore(store: Store | null) {
+    current = store
+}
+
+export default { getStore, setStore }
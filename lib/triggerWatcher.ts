@@ -0,0 +1,115 @@
+// Watches marks for positions carrying SL/TP/trailing-stop triggers and closes
+// them when one is hit. Trailing references are advanced as marks improve.
+import { closePosition, listOpenPositions } from './engine'
+import * as mark from './mark'
+import { getStore } from './store'
+import { evaluateTriggers, FiredTrigger, hasTriggers } from './triggers'
+
+const TAG = '[TRIGGERS]'
+
+export interface TriggerRunResult {
+    watched: number
+    unpriced: number
+    trailingUpdated: number
+    fired: Array<{ uid: string, vaultId: string, posId: string, trigger: FiredTrigger, ok: boolean, error?: string }>
+    ts: number
+}
+
+class TriggerWatcher {
+    private interval: NodeJS.Timeout | null = null
+    private running = false
+    private lastRun: TriggerRunResult | null = null
+    private readonly intervalMs = Number(process.env.TRIGGER_INTERVAL_MS) || 5000
+
+    start() {
+        if (this.interval) return
+        console.log(TAG, `Starting trigger watcher (interval ${this.intervalMs}ms)`)
+        this.interval = setInterval(() => {
+            this.runOnce().catch((err) => console.error(TAG, 'run failed', err))
+        }, this.intervalMs)
+    }
+
+    stop() {
+        if (this.interval) {
+            clearInterval(this.interval)
+            this.interval = null
+            console.log(TAG, 'Trigger watcher stopped')
+        }
+    }
+
+    getStatus() {
+        return { active: !!this.interval, intervalMs: this.intervalMs, lastRun: this.lastRun }
+    }
+
+    async runOnce(): Promise<TriggerRunResult> {
+        if (this.running) {
+            console.warn(TAG, 'previous run still in progress, skipping')
+            return this.lastRun ?? { watched: 0, unpriced: 0, trailingUpdated: 0, fired: [], ts: Date.now() }
+        }
+        this.running = true
+        try {
+            const db = getStore()
+            const open = (await listOpenPositions()).filter((p) => hasTriggers(p.position.triggers))
+            const tokenMints: Record<string, string> = {}
+            const marks: Record<string, { markUsd: number } | null> = {}
+            const fired: TriggerRunResult['fired'] = []
+            let unpriced = 0
+            let trailingUpdated = 0
+
+            for (const { uid, vaultId, posId, position } of open) {
+                if (!(vaultId in tokenMints)) {
+                    const vSnap = await db.ref(`/vaults/${vaultId}`).get()
+                    tokenMints[vaultId] = (vSnap.exists() && vSnap.val().tokenMint) || vaultId
+                }
+                const tokenMint = tokenMints[vaultId]
+                if (!(tokenMint in marks)) marks[tokenMint] = await mark.getTokenMarkUsd(tokenMint)
+                const tokenMark = marks[tokenMint]
+                if (!tokenMark) {
+                    unpriced++
+                    continue
+                }
+
+                const side = position.side || 'LONG'
+                const { fired: trigger, trailingRefUsd } = evaluateTriggers(side, position.triggers, tokenMark.markUsd)
+                if (trigger) {
+                    try {
+                        // closePosition re-marks and re-checks the trigger before settling
+                        await closePosition(uid, vaultId, posId, { trigger })
+                        fired.push({ uid, vaultId, posId, trigger, ok: true })
+                    } catch (err: any) {
+                        console.warn(TAG, 'triggered close failed', { uid, vaultId, posId, type: trigger.type, err: err?.message || err })
+                        fired.push({ uid, vaultId, posId, trigger, ok: false, error: err?.message || String(err) })
+                    }
+                    continue
+                }
+                if (trailingRefUsd != null && trailingRefUsd !== position.triggers.trailingRefUsd) {
+                    await this.advanceTrailingRef(`/positions/${uid}/${vaultId}/${posId}`, side, trailingRefUsd)
+                    trailingUpdated++
+                }
+            }
+
+            this.lastRun = { watched: open.length, unpriced, trailingUpdated, fired, ts: Date.now() }
+            if (fired.length) {
+                console.info(TAG, 'run complete', { watched: open.length, unpriced, fired: fired.length, closed: fired.filter((f) => f.ok).length })
+            }
+            return this.lastRun
+        } finally {
+            this.running = false
+        }
+    }
+
+    // Only ever moves the reference in the position's favour, and only while it is OPEN
+    private async advanceTrailingRef(posPath: string, side: string, refUsd: number) {
+        await getStore().ref(posPath).transaction((p: any) => {
+            if (p == null) return p
+            if (p.status !== 'OPEN' || !p.triggers || p.triggers.trailingStopBps == null) return
+            const cur = p.triggers.trailingRefUsd
+            const better = cur == null || (side === 'SHORT' ? refUsd < cur : refUsd > cur)
+            if (!better) return
+            p.triggers.trailingRefUsd = refUsd
+            return p
+        })
+    }
+}
+
+export const triggerWatcher = new TriggerWatcher()
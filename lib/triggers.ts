@@ -0,0 +1,121 @@
+// Stop-loss / take-profit / trailing-stop triggers stored on a position.
+// Prices are token marks in USD, the same unit as `entryPriceUsd`.
+
+export type TriggerType = 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP'
+
+export interface PositionTriggers {
+    stopLossUsd: number | null
+    takeProfitUsd: number | null
+    // Trailing stop distance from the best mark seen, in bps
+    trailingStopBps: number | null
+    // Best mark since the trailing stop was armed: the high for a LONG, the low for a SHORT
+    trailingRefUsd: number | null
+    updatedAt: number
+}
+
+// What the caller sends; `null` clears a trigger, `undefined` keeps the current one
+export interface TriggerInput {
+    stopLossUsd?: number | null
+    takeProfitUsd?: number | null
+    trailingStopBps?: number | null
+}
+
+export interface FiredTrigger {
+    type: TriggerType
+    triggerPriceUsd: number
+    markUsd: number
+    ts: number
+}
+
+function isPositive(n: any) {
+    return typeof n === 'number' && Number.isFinite(n) && n > 0
+}
+
+export function hasTriggers(t: any): boolean {
+    return !!t && (t.stopLossUsd != null || t.takeProfitUsd != null || t.trailingStopBps != null)
+}
+
+/**
+ * Merge `input` over `existing` and validate the result against the current
+ * mark `refPriceUsd`: a LONG's stop must sit below it and its take-profit
+ * above; a SHORT's the other way round. Throws 'invalid_triggers' with
+ * `err.reasons`. Returns null when no trigger is left set.
+ */
+export function buildTriggers(side: string, refPriceUsd: number, input: TriggerInput, existing?: PositionTriggers | null, atMs = Date.now()): PositionTriggers | null {
+    const pick = (k: keyof TriggerInput) => input[k] === undefined ? (existing?.[k] ?? null) : input[k]
+    const stopLossUsd = pick('stopLossUsd')
+    const takeProfitUsd = pick('takeProfitUsd')
+    const trailingStopBps = pick('trailingStopBps')
+    const reasons: string[] = []
+    const isShort = side === 'SHORT'
+
+    if (stopLossUsd != null) {
+        if (!isPositive(stopLossUsd)) reasons.push('stopLossUsd must be a positive number')
+        else if (isShort ? stopLossUsd <= refPriceUsd : stopLossUsd >= refPriceUsd) {
+            reasons.push(`stopLossUsd must be ${isShort ? 'above' : 'below'} the current mark ${refPriceUsd}`)
+        }
+    }
+    if (takeProfitUsd != null) {
+        if (!isPositive(takeProfitUsd)) reasons.push('takeProfitUsd must be a positive number')
+        else if (isShort ? takeProfitUsd >= refPriceUsd : takeProfitUsd <= refPriceUsd) {
+            reasons.push(`takeProfitUsd must be ${isShort ? 'below' : 'above'} the current mark ${refPriceUsd}`)
+        }
+    }
+    if (trailingStopBps != null) {
+        if (!Number.isInteger(trailingStopBps) || trailingStopBps <= 0 || trailingStopBps >= 10000) {
+            reasons.push('trailingStopBps must be an integer between 1 and 9999')
+        }
+    }
+    if (reasons.length) {
+        const err: any = new Error('invalid_triggers')
+        err.reasons = reasons
+        throw err
+    }
+    if (stopLossUsd == null && takeProfitUsd == null && trailingStopBps == null) return null
+
+    // Re-arm the trailing reference at the current mark whenever the distance changes
+    const keepRef = trailingStopBps != null && existing?.trailingStopBps === trailingStopBps && isPositive(existing?.trailingRefUsd)
+    return {
+        stopLossUsd,
+        takeProfitUsd,
+        trailingStopBps,
+        trailingRefUsd: trailingStopBps == null ? null : (keepRef ? existing!.trailingRefUsd : refPriceUsd),
+        updatedAt: atMs,
+    }
+}
+
+// Price at which the trailing stop fires, or null when none is armed
+export function trailingStopPriceUsd(side: string, t: PositionTriggers): number | null {
+    if (t.trailingStopBps == null || !isPositive(t.trailingRefUsd)) return null
+    const dist = t.trailingStopBps / 10000
+    return side === 'SHORT' ? t.trailingRefUsd! * (1 + dist) : t.trailingRefUsd! * (1 - dist)
+}
+
+/**
+ * Check `markUsd` against a position's triggers. The trailing reference is
+ * moved to the new mark first when it is an improvement, so the returned
+ * `trailingRefUsd` should be persisted when it differs from the stored one.
+ * Stops are checked before take-profit.
+ */
+export function evaluateTriggers(side: string, t: PositionTriggers, markUsd: number, atMs = Date.now()): { fired: FiredTrigger | null, trailingRefUsd: number | null } {
+    const isShort = side === 'SHORT'
+    let trailingRefUsd = t.trailingRefUsd ?? null
+    if (t.trailingStopBps != null && isPositive(markUsd)) {
+        if (trailingRefUsd == null || (isShort ? markUsd < trailingRefUsd : markUsd > trailingRefUsd)) trailingRefUsd = markUsd
+    }
+    const fire = (type: TriggerType, triggerPriceUsd: number) => ({ fired: { type, triggerPriceUsd, markUsd, ts: atMs }, trailingRefUsd })
+
+    if (t.stopLossUsd != null && (isShort ? markUsd >= t.stopLossUsd : markUsd <= t.stopLossUsd)) {
+        return fire('STOP_LOSS', t.stopLossUsd)
+    }
+    const trailPrice = trailingStopPriceUsd(side, { ...t, trailingRefUsd })
+    if (trailPrice != null && (isShort ? markUsd >= trailPrice : markUsd <= trailPrice)) {
+        return fire('TRAILING_STOP', trailPrice)
+    }
+    if (t.takeProfitUsd != null && (isShort ? markUsd <= t.takeProfitUsd : markUsd >= t.takeProfitUsd)) {
+        return fire('TAKE_PROFIT', t.takeProfitUsd)
+    }
+    return { fired: null, trailingRefUsd }
+}
+
+export default { hasTriggers, buildTriggers, trailingStopPriceUsd, evaluateTriggers }
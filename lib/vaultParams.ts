@@ -0,0 +1,229 @@
+// Vault parameter changes after creation. The creator (or an engine admin)
+// proposes new fee, risk or rate params; a proposal that hurts neither
+// traders nor LPs applies immediately, while one that hurts either is held
+// under `/vaults/<id>/pendingParams` until the timelock has passed and it is
+// executed. Most params cut both ways: higher fees, rates or margins hurt
+// traders, while lower ones (or higher leverage caps) leave LPs earning less
+// for more risk. Every proposal, execution and cancellation is appended to
+// `/vault_param_history/<vaultId>`.
+import { v4 as uuidv4 } from 'uuid'
+import { assertCanManage, LifecycleActor } from './lifecycle'
+import { getStore } from './store'
+import { vaultStatus } from './vaultStatus'
+
+const TAG = '[VAULT_PARAMS]'
+
+export const DEFAULT_PARAM_TIMELOCK_MS = 24 * 60 * 60 * 1000
+
+export function paramTimelockMs() {
+    const raw = process.env.VAULT_PARAM_TIMELOCK_MS
+    const fromEnv = raw ? Number(raw) : NaN
+    return Number.isFinite(fromEnv) && fromEnv >= 0 ? fromEnv : DEFAULT_PARAM_TIMELOCK_MS
+}
+
+type Direction = 'increase' | 'decrease'
+
+interface ParamRule {
+    min: number
+    max: number
+    // Which direction makes the vault worse for traders, and which for LPs
+    traders?: Direction
+    lps?: Direction
+}
+
+export const PARAM_RULES: Record<string, ParamRule> = {
+    openFeeBps: { min: 0, max: 10000, traders: 'increase', lps: 'decrease' },
+    closeFeeBps: { min: 0, max: 10000, traders: 'increase', lps: 'decrease' },
+    // Vault's cut of trader profit on close, paid to the creator
+    perfFeeBps: { min: 0, max: 5000, traders: 'increase', lps: 'decrease' },
+    // LPs' share of open fees, and the part of it they keep (the rest goes to the platform)
+    vaultSharePct: { min: 0, max: 1, lps: 'decrease' },
+    ownerKeepPct: { min: 0, max: 1, lps: 'decrease' },
+    // Lower margins and leverage caps let positions run deeper into the vault's capital
+    imrBps: { min: 1, max: 10000, traders: 'increase', lps: 'decrease' },
+    mmrBps: { min: 1, max: 10000, traders: 'increase', lps: 'decrease' },
+    liqBonusBps: { min: 0, max: 5000, traders: 'increase', lps: 'decrease' },
+    maxLevBps: { min: 10000, max: 1000000, traders: 'decrease', lps: 'increase' },
+    markToleranceBps: { min: 0, max: 10000, traders: 'decrease', lps: 'increase' },
+    rateBaseBps: { min: 0, max: 100000, traders: 'increase', lps: 'decrease' },
+    rateSlope1Bps: { min: 0, max: 100000, traders: 'increase', lps: 'decrease' },
+    rateKinkBps: { min: 1, max: 10000, traders: 'decrease', lps: 'increase' },
+    rateSlope2Bps: { min: 0, max: 100000, traders: 'increase', lps: 'decrease' },
+}
+
+export type ParamDiff = Record<string, { from: number | null, to: number }>
+
+export interface PendingParamChange {
+    changeId: string
+    changes: ParamDiff
+    proposedBy: string
+    proposedAt: number
+    effectiveAt: number
+}
+
+/**
+ * Check `changes` against the rules and against the params they would
+ * produce when merged over `current`. Returns the per-key diff (keys whose
+ * value does not change are dropped, so it may be empty) or the reasons it
+ * was rejected.
+ */
+export function validateParamChanges(current: any, changes: Record<string, any>) {
+    const reasons: string[] = []
+    const diff: ParamDiff = {}
+    for (const [key, raw] of Object.entries(changes || {})) {
+        const rule = PARAM_RULES[key]
+        if (!rule) {
+            reasons.push(`${key}: not an adjustable param`)
+            continue
+        }
+        const to = Number(raw)
+        if (raw == null || raw === '' || !Number.isFinite(to) || to < rule.min || to > rule.max) {
+            reasons.push(`${key}: must be a number in [${rule.min}, ${rule.max}]`)
+            continue
+        }
+        const from = typeof current?.[key] === 'number' ? current[key] : null
+        if (from !== to) diff[key] = { from, to }
+    }
+
+    const merged: any = { ...(current || {}) }
+    for (const [key, d] of Object.entries(diff)) merged[key] = d.to
+    if (typeof merged.mmrBps === 'number' && typeof merged.imrBps === 'number' && merged.mmrBps >= merged.imrBps) {
+        reasons.push('mmrBps must be below imrBps')
+    }
+    return { ok: reasons.length === 0, reasons, diff, merged }
+}
+
+// A change from an unset value is treated as harmful: the default it replaces is not known here
+export function isHarmfulChange(key: string, from: number | null, to: number) {
+    const rule = PARAM_RULES[key]
+    if (!rule) return true
+    if (from == null) return true
+    const moved: Direction = to > from ? 'increase' : 'decrease'
+    return rule.traders === moved || rule.lps === moved
+}
+
+export function requiresTimelock(diff: ParamDiff) {
+    return Object.entries(diff).some(([key, d]) => isHarmfulChange(key, d.from, d.to))
+}
+
+async function logParamEvent(vaultId: string, event: 'APPLIED' | 'PROPOSED' | 'CANCELLED', entry: Record<string, any>) {
+    await getStore().ref(`/vault_param_history/${vaultId}`).push({ event, ...entry })
+}
+
+async function loadVault(vaultId: string) {
+    const snap = await getStore().ref(`/vaults/${vaultId}`).get()
+    if (!snap.exists()) throw new Error('vault_not_found')
+    return snap.val()
+}
+
+function invalid(reasons: string[]) {
+    const err: any = new Error('invalid_params')
+    err.reasons = reasons
+    return err
+}
+
+// Apply `diff` to the vault's params, re-validating against the params as they are now
+async function applyDiff(vaultId: string, diff: ParamDiff, atMs: number, changeId?: string) {
+    let reasons: string[] = []
+    let applied: ParamDiff = {}
+    const txRes = await getStore().ref(`/vaults/${vaultId}`).transaction((v: any) => {
+        if (v == null) return v
+        const to: Record<string, number> = {}
+        for (const [key, d] of Object.entries(diff)) to[key] = d.to
+        const check = validateParamChanges(v.params, to)
+        if (!check.ok) {
+            reasons = check.reasons
+            return
+        }
+        reasons = []
+        applied = check.diff
+        v.params = check.merged
+        if (changeId && v.pendingParams) v.pendingParams[changeId] = null
+        v.paramsUpdatedAt = atMs
+        v.updatedAt = atMs
+        return v
+    })
+    if (!txRes.committed || !txRes.snapshot.exists()) throw reasons.length ? invalid(reasons) : new Error('vault_not_found')
+    return { applied, params: txRes.snapshot.val().params }
+}
+
+/**
+ * Propose new params for a vault. Applied at once when no change hurts
+ * traders or LPs; otherwise queued as a pending change that becomes
+ * executable after the timelock.
+ */
+export async function proposeParams(vaultId: string, actor: LifecycleActor, changes: Record<string, any>) {
+    const vault = await loadVault(vaultId)
+    assertCanManage(vault, actor)
+    if (vaultStatus(vault) === 'WOUND_DOWN') throw new Error('vault_wound_down')
+    const check = validateParamChanges(vault.params, changes)
+    if (!check.ok) throw invalid(check.reasons)
+    if (!Object.keys(check.diff).length) throw invalid(['no param changes'])
+
+    const atMs = Date.now()
+    if (!requiresTimelock(check.diff)) {
+        const { applied, params } = await applyDiff(vaultId, check.diff, atMs)
+        await logParamEvent(vaultId, 'APPLIED', { changes: applied, by: actor.uid, timelocked: false, ts: atMs })
+        console.info(TAG, 'params applied', { vaultId, by: actor.uid, changes: applied })
+        return { applied: true, changes: applied, params, pending: null as PendingParamChange | null }
+    }
+
+    const pending: PendingParamChange = {
+        changeId: uuidv4(),
+        changes: check.diff,
+        proposedBy: actor.uid,
+        proposedAt: atMs,
+        effectiveAt: atMs + paramTimelockMs(),
+    }
+    await getStore().ref(`/vaults/${vaultId}/pendingParams/${pending.changeId}`).set(pending)
+    await logParamEvent(vaultId, 'PROPOSED', { changeId: pending.changeId, changes: pending.changes, by: actor.uid, effectiveAt: pending.effectiveAt, ts: atMs })
+    console.info(TAG, 'params timelocked', { vaultId, by: actor.uid, changeId: pending.changeId, effectiveAt: pending.effectiveAt, changes: pending.changes })
+    return { applied: false, changes: pending.changes, params: vault.params, pending }
+}
+
+// Apply a pending change once its timelock has passed
+export async function executeParamChange(vaultId: string, changeId: string, actor: LifecycleActor) {
+    const vault = await loadVault(vaultId)
+    assertCanManage(vault, actor)
+    const pending: PendingParamChange | undefined = vault.pendingParams?.[changeId]
+    if (!pending) throw new Error('param_change_not_found')
+    const atMs = Date.now()
+    if (atMs < pending.effectiveAt) {
+        const err: any = new Error('timelock_active')
+        err.effectiveAt = pending.effectiveAt
+        throw err
+    }
+    const { applied, params } = await applyDiff(vaultId, pending.changes, atMs, changeId)
+    await logParamEvent(vaultId, 'APPLIED', { changeId, changes: applied, by: actor.uid, timelocked: true, proposedAt: pending.proposedAt, ts: atMs })
+    console.info(TAG, 'params executed', { vaultId, changeId, by: actor.uid, changes: applied })
+    return { changeId, changes: applied, params }
+}
+
+export async function cancelParamChange(vaultId: string, changeId: string, actor: LifecycleActor) {
+    const vault = await loadVault(vaultId)
+    assertCanManage(vault, actor)
+    const ref = getStore().ref(`/vaults/${vaultId}/pendingParams/${changeId}`)
+    let pending: PendingParamChange | null = null
+    const txRes = await ref.transaction((cur: any) => {
+        pending = cur
+        return null
+    })
+    if (!txRes.committed || !pending) throw new Error('param_change_not_found')
+    const cancelled = pending as PendingParamChange
+    await logParamEvent(vaultId, 'CANCELLED', { changeId, changes: cancelled.changes, by: actor.uid, ts: Date.now() })
+    console.info(TAG, 'param change cancelled', { vaultId, changeId, by: actor.uid })
+    return cancelled
+}
+
+// Param history, oldest first, limited to the last `limit` entries
+export async function getParamHistory(vaultId: string, opts?: { limit?: number }) {
+    const limit = Math.max(1, Math.min(opts?.limit ?? 100, 1000))
+    const snap = await getStore().ref(`/vault_param_history/${vaultId}`).orderByChild('ts').limitToLast(limit).get()
+    const out: any[] = []
+    snap.forEach((child: any) => {
+        out.push(child.val())
+    })
+    return out
+}
+
+export default { DEFAULT_PARAM_TIMELOCK_MS, PARAM_RULES, paramTimelockMs, validateParamChanges, isHarmfulChange, requiresTimelock, proposeParams, executeParamChange, cancelParamChange, getParamHistory }
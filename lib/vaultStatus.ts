@@ -0,0 +1,42 @@
+// Vault lifecycle states. A vault moves ACTIVE <-> PAUSED, then one way
+// through CLOSE_ONLY to WOUND_DOWN:
+//   ACTIVE      - trading and LP deposits open
+//   PAUSED      - no new positions or limit orders; closes, margin and LP flows continue
+//   CLOSE_ONLY  - as PAUSED, but no new LP deposits and no way back; resting orders are cancelled
+//   WOUND_DOWN  - every position force-settled and every LP paid out (see lifecycle.ts)
+
+export type VaultStatus = 'ACTIVE' | 'PAUSED' | 'CLOSE_ONLY' | 'WOUND_DOWN'
+
+export const VAULT_STATUSES: VaultStatus[] = ['ACTIVE', 'PAUSED', 'CLOSE_ONLY', 'WOUND_DOWN']
+
+// WOUND_DOWN is only reached through a wind-down, never set directly
+const TRANSITIONS: Record<VaultStatus, VaultStatus[]> = {
+    ACTIVE: ['PAUSED', 'CLOSE_ONLY'],
+    PAUSED: ['ACTIVE', 'CLOSE_ONLY'],
+    CLOSE_ONLY: [],
+    WOUND_DOWN: [],
+}
+
+export function isVaultStatus(s: any): s is VaultStatus {
+    return VAULT_STATUSES.includes(s)
+}
+
+// Vaults created before lifecycle states (or with a missing status) are ACTIVE
+export function vaultStatus(v: any): VaultStatus {
+    return isVaultStatus(v?.status) ? v.status : 'ACTIVE'
+}
+
+export function canTransition(from: VaultStatus, to: VaultStatus) {
+    return TRANSITIONS[from].includes(to)
+}
+
+export function canOpenPositions(v: any) {
+    return vaultStatus(v) === 'ACTIVE'
+}
+
+export function canDeposit(v: any) {
+    const s = vaultStatus(v)
+    return s === 'ACTIVE' || s === 'PAUSED'
+}
+
+export default { VAULT_STATUSES, isVaultStatus, vaultStatus, canTransition, canOpenPositions, canDeposit }
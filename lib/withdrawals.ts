@@ -0,0 +1,380 @@
+// LP withdrawals from a vault. A depositor can take out at most their pro-rata
+// share of unborrowed liquidity right away; the rest is queued and filled
+// first-in-first-out as borrows are repaid or new capital arrives.
+//
+// Withdrawals burn LP shares at the share price when they are paid. Queued
+// shares stay in the depositor's composition entry (and keep earning) until
+// filled, but are tracked in `queuedShares` on the entry and in
+// `withdrawQueueShares` on the vault so they cannot be withdrawn twice and
+// their liquidity is held back for the queue. Each request also has a fill
+// record on the vault in `withdrawQueueFills`, created when it is queued and
+// updated in the transaction that burns the shares, so a fill whose request
+// update was lost is not burned again. Shares are only burned for a request
+// whose record is open; a cancel closes the record in the same transaction
+// that releases the queued shares, and the record is dropped once the
+// request has reached its final status.
+import { v4 as uuidv4 } from 'uuid'
+import { transactionWithReadGuard } from './balanceTx'
+import { addSol, roundSol } from './lamports'
+import { ledgerAccount, recordJournal } from './ledger'
+import { accrueVaultInterest, burnShares, ensureShares, recordNav, sharePriceSol } from './nav'
+import { applyUtilization } from './rates'
+import { getStore } from './store'
+
+const TAG = '[WITHDRAW]'
+
+export type WithdrawalStatus = 'QUEUED' | 'FILLED' | 'CANCELLED'
+
+// Shares burned (and SOL paid) so far for a queued request, kept on the vault
+// until the request is FILLED or CANCELLED
+export interface QueueFill {
+    shares: number
+    sol: number
+    // Set when the request is cancelled; no more shares are burned for it
+    cancelled?: boolean
+}
+
+export interface QueuedWithdrawal {
+    requestId: string
+    uid: string
+    vaultId: string
+    // SOL value of the queued shares when the request was made
+    requestedSol: number
+    requestedShares: number
+    remainingShares: number
+    filledShares: number
+    filledSol: number
+    status: WithdrawalStatus
+    createdAt: number
+    updatedAt: number
+}
+
+function now() {
+    return Date.now()
+}
+
+// The depositor's composition entry on a raw vault record (creator or contributor)
+function depositEntry(v: any, uid: string): any | null {
+    const comp = v?.composition || {}
+    if (comp.creator && comp.creator.uid === uid) return comp.creator
+    return comp.contributors?.[uid] ?? null
+}
+
+/**
+ * How much `uid` could withdraw from the raw vault record `v` right now:
+ * their share of the liquidity left after the queue, capped by the value of
+ * their shares not already queued.
+ */
+export function immediateWithdrawLimitSol(v: any, uid: string, atMs = Date.now()) {
+    const vault = ensureShares(JSON.parse(JSON.stringify(v || {})))
+    const entry = depositEntry(vault, uid)
+    const price = sharePriceSol(vault, atMs)
+    const shares = entry?.shares || 0
+    const depositSol = shares * price
+    const freeSol = Math.max(0, shares - (entry?.queuedShares || 0)) * price
+    if (!(freeSol > 0) || !(vault.totalShares > 0)) return { depositSol, freeSol, limitSol: 0 }
+    const available = Math.max(0, (vault.tvlSol || 0) - (vault.totalBorrowsSol || 0) - (vault.withdrawQueueShares || 0) * price)
+    return { depositSol, freeSol, limitSol: Math.min(freeSol, available * (shares / vault.totalShares)) }
+}
+
+// Pay a withdrawal out of `vaultId` into the user's balance, journaled against trade `tradeId`
+async function creditBalance(uid: string, vaultId: string, amountSol: number, tag: string, tradeId: string) {
+    const balanceRef = getStore().ref(`/users/${uid}/balance`)
+    const credit = await transactionWithReadGuard(balanceRef, (cur: number) => addSol(cur, amountSol), { attempts: 6, backoffMs: 50, tag })
+    if (credit && (credit as any).committed) {
+        await recordJournal('vault_withdraw', { type: 'trade', id: tradeId }, [{ from: ledgerAccount.vault(vaultId), to: ledgerAccount.user(uid), amountSol }])
+    }
+    return credit
+}
+
+/**
+ * Withdraw `amountSol` worth of `uid`'s shares from a vault. The immediately
+ * available part is credited to the balance; with `queue` (default) the
+ * remainder is queued, otherwise it is rejected.
+ */
+export async function withdrawFromVault(vaultId: string, uid: string, amountSol: number, opts?: { queue?: boolean }) {
+    if (!Number.isFinite(amountSol) || amountSol <= 0) throw new Error('invalid_amount')
+    amountSol = roundSol(amountSol)
+    const allowQueue = opts?.queue ?? true
+    const db = getStore()
+    const vaultRef = db.ref(`/vaults/${vaultId}`)
+    const pre = await vaultRef.get()
+    if (!pre.exists()) throw new Error('vault_not_found')
+    if (!depositEntry(pre.val(), uid)) throw new Error('not_a_depositor')
+
+    let immediateSol = 0
+    let burnedShares = 0
+    let queuedShares = 0
+    let abort: string | null = null
+    const atMs = now()
+    const requestId = uuidv4()
+    const txRes = await vaultRef.transaction((v: any) => {
+        if (v == null) return v
+        ensureShares(v)
+        accrueVaultInterest(v, atMs)
+        const entry = depositEntry(v, uid)
+        const { freeSol, limitSol } = immediateWithdrawLimitSol(v, uid, atMs)
+        if (!entry || amountSol > freeSol + 1e-12) {
+            abort = 'withdraw_exceeds_deposit'
+            return
+        }
+        const price = sharePriceSol(v, atMs)
+        const immediate = Math.min(amountSol, limitSol)
+        queuedShares = (amountSol - immediate) / price
+        if (queuedShares > 0 && !allowQueue) {
+            abort = 'insufficient_vault_liquidity'
+            return
+        }
+        abort = null
+        burnedShares = immediate / price
+        immediateSol = immediate > 0 ? burnShares(v, entry, burnedShares, atMs) : 0
+        if (queuedShares > 0) {
+            entry.queuedShares = (entry.queuedShares || 0) + queuedShares
+            v.withdrawQueueShares = (v.withdrawQueueShares || 0) + queuedShares
+            v.withdrawQueueFills = { ...v.withdrawQueueFills, [requestId]: { shares: 0, sol: 0 } }
+        }
+        applyUtilization(v)
+        v.updatedAt = atMs
+        return v
+    })
+    if (!txRes.committed) {
+        const err: any = new Error(abort || 'withdraw_failed')
+        if (abort === 'insufficient_vault_liquidity' || abort === 'withdraw_exceeds_deposit') {
+            err.maxWithdrawSol = immediateWithdrawLimitSol(pre.val(), uid).limitSol
+        }
+        throw err
+    }
+
+    const tradeId = uuidv4()
+    if (immediateSol > 0) {
+        const credit = await creditBalance(uid, vaultId, immediateSol, 'vault_withdraw', tradeId)
+        if (!credit || !(credit as any).committed) {
+            // Re-issue the burned shares so the LP does not lose their capital, and drop the queued part
+            await vaultRef.transaction((v: any) => {
+                if (v == null) return v
+                const entry = depositEntry(v, uid)
+                if (entry) {
+                    entry.shares = (entry.shares || 0) + burnedShares
+                    entry.sol = addSol(entry.sol || 0, immediateSol)
+                    entry.queuedShares = Math.max(0, (entry.queuedShares || 0) - queuedShares)
+                }
+                v.totalShares = (v.totalShares || 0) + burnedShares
+                v.tvlSol = addSol(v.tvlSol || 0, immediateSol)
+                v.withdrawQueueShares = Math.max(0, (v.withdrawQueueShares || 0) - queuedShares)
+                if (v.withdrawQueueFills) delete v.withdrawQueueFills[requestId]
+                applyUtilization(v)
+                return v
+            })
+            throw new Error('balance_credit_failed')
+        }
+    }
+
+    const vault = txRes.snapshot.val()
+    const queuedSol = Math.max(0, addSol(amountSol, -immediateSol))
+    let request: QueuedWithdrawal | null = null
+    const updates: Record<string, any> = {}
+    if (queuedShares > 0) {
+        request = {
+            requestId,
+            uid,
+            vaultId,
+            requestedSol: queuedSol,
+            requestedShares: queuedShares,
+            remainingShares: queuedShares,
+            filledShares: 0,
+            filledSol: 0,
+            status: 'QUEUED',
+            createdAt: atMs,
+            updatedAt: atMs,
+        }
+        updates[`/vault_withdrawals/${vaultId}/${requestId}`] = request
+    }
+    updates[`/trades/${vaultId}/${tradeId}`] = {
+        uid,
+        type: 'WITHDRAW',
+        amount: immediateSol,
+        shares: burnedShares,
+        queuedSol,
+        priceUsd: null,
+        pnlSol: null,
+        ts: atMs,
+    }
+    await db.ref().update(updates)
+    if (immediateSol > 0) await recordNav(vaultId, vault, 'WITHDRAW', atMs)
+    console.info(TAG, 'withdrawFromVault', { vaultId, uid, amountSol, immediateSol, burnedShares, queuedShares })
+    return { ok: true, withdrawnSol: immediateSol, burnedShares, queuedSol, request }
+}
+
+// Undo a queue fill whose payout failed: re-issue the shares and, unless the
+// request was cancelled meanwhile, put them back in the queue
+async function requeueFill(vaultId: string, req: QueuedWithdrawal, fillShares: number, fillSol: number) {
+    await getStore().ref(`/vaults/${vaultId}`).transaction((v: any) => {
+        if (v == null) return v
+        const fill: QueueFill | undefined = v.withdrawQueueFills?.[req.requestId]
+        const requeue = !!fill && !fill.cancelled
+        const entry = depositEntry(v, req.uid)
+        if (entry) {
+            entry.shares = (entry.shares || 0) + fillShares
+            entry.sol = addSol(entry.sol || 0, fillSol)
+            if (requeue) entry.queuedShares = (entry.queuedShares || 0) + fillShares
+        }
+        if (fill) {
+            fill.shares = Math.max(0, fill.shares - fillShares)
+            fill.sol = Math.max(0, addSol(fill.sol, -fillSol))
+        }
+        v.totalShares = (v.totalShares || 0) + fillShares
+        v.tvlSol = addSol(v.tvlSol || 0, fillSol)
+        if (requeue) v.withdrawQueueShares = (v.withdrawQueueShares || 0) + fillShares
+        applyUtilization(v)
+        return v
+    })
+}
+
+/**
+ * Fill queued withdrawals oldest first from the vault's unborrowed liquidity.
+ * Safe to call at any time, including again after a run that crashed
+ * part-way; does nothing when the queue is empty.
+ */
+export async function processWithdrawalQueue(vaultId: string) {
+    const db = getStore()
+    const qSnap = await db.ref(`/vault_withdrawals/${vaultId}`).get()
+    const queue = Object.values<QueuedWithdrawal>(qSnap.exists() ? qSnap.val() : {})
+        .filter((r) => r && r.status === 'QUEUED' && r.remainingShares > 0)
+        .sort((a, b) => a.createdAt - b.createdAt)
+    const filled: Array<{ requestId: string, uid: string, fillShares: number, fillSol: number }> = []
+    const vaultRef = db.ref(`/vaults/${vaultId}`)
+    let vault: any = null
+
+    for (const req of queue) {
+        let fillShares = 0
+        let fillSol = 0
+        let fill = null as QueueFill | null
+        const atMs = now()
+        const txRes = await vaultRef.transaction((v: any) => {
+            if (v == null) return v
+            ensureShares(v)
+            accrueVaultInterest(v, atMs)
+            // The vault's record of this request wins over the request, which may lag it
+            fill = v.withdrawQueueFills?.[req.requestId] ?? null
+            fillShares = 0
+            if (!fill || fill.cancelled) return
+            const remaining = req.requestedShares - fill.shares
+            if (!(remaining > 1e-12)) return
+            const entry = depositEntry(v, req.uid)
+            const price = sharePriceSol(v, atMs)
+            const available = Math.max(0, (v.tvlSol || 0) - (v.totalBorrowsSol || 0))
+            fillShares = price > 0 ? Math.min(remaining, available / price, entry?.shares || 0) : 0
+            if (!(fillShares > 0)) return
+            fillSol = burnShares(v, entry, fillShares, atMs)
+            entry.queuedShares = Math.max(0, (entry.queuedShares || 0) - fillShares)
+            v.withdrawQueueShares = Math.max(0, (v.withdrawQueueShares || 0) - fillShares)
+            fill = { shares: fill.shares + fillShares, sol: addSol(fill.sol, fillSol) }
+            v.withdrawQueueFills = { ...v.withdrawQueueFills, [req.requestId]: fill }
+            applyUtilization(v)
+            v.updatedAt = atMs
+            return v
+        })
+        // Finished by another run or a cancel since the queue was read
+        if (!fill) continue
+        const remainingShares = req.requestedShares - fill.shares
+        if (!txRes.committed || !(fillShares > 0)) {
+            // Fully burned, or cancelled, by a run that stopped before updating the request
+            if (fill.cancelled || !(remainingShares > 1e-12)) {
+                await settleRequest(vaultId, req, fill, atMs)
+                continue
+            }
+            // Out of liquidity: later requests wait behind this one
+            break
+        }
+        vault = txRes.snapshot.val()
+
+        const tradeId = uuidv4()
+        const credit = await creditBalance(req.uid, vaultId, fillSol, 'vault_withdraw_queue', tradeId)
+        if (!credit || !(credit as any).committed) {
+            await requeueFill(vaultId, req, fillShares, fillSol)
+            console.error(TAG, 'queued withdrawal payout failed, shares re-queued', { vaultId, requestId: req.requestId, uid: req.uid, fillShares, fillSol })
+            break
+        }
+        await settleRequest(vaultId, req, fill, atMs, {
+            [`/trades/${vaultId}/${tradeId}`]: { uid: req.uid, type: 'WITHDRAW_QUEUED_FILL', amount: fillSol, shares: fillShares, requestId: req.requestId, priceUsd: null, pnlSol: null, ts: atMs },
+        })
+        filled.push({ requestId: req.requestId, uid: req.uid, fillShares, fillSol })
+        if (remainingShares > 1e-12) break
+    }
+    if (filled.length) {
+        await recordNav(vaultId, vault, 'WITHDRAW_QUEUED_FILL')
+        console.info(TAG, 'processWithdrawalQueue', { vaultId, filled })
+    }
+    return { filled }
+}
+
+/**
+ * Bring a QUEUED request up to the vault's record of its fills: FILLED once
+ * nothing is left, CANCELLED if the record was closed by a cancel, otherwise
+ * still QUEUED. A request that has left QUEUED is never rewritten, and an
+ * older fill never overwrites a newer one. The vault's record is dropped once
+ * the request is final.
+ */
+async function settleRequest(vaultId: string, req: QueuedWithdrawal, fill: QueueFill, atMs: number, extra: Record<string, any> = {}) {
+    const db = getStore()
+    if (Object.keys(extra).length) await db.ref().update(extra)
+    const remainingShares = Math.max(0, req.requestedShares - fill.shares)
+    const status: WithdrawalStatus = fill.cancelled ? 'CANCELLED' : (remainingShares > 1e-12 ? 'QUEUED' : 'FILLED')
+    const txRes = await db.ref(`/vault_withdrawals/${vaultId}/${req.requestId}`).transaction((r: any) => {
+        if (r == null) return r
+        if (r.status !== 'QUEUED') return
+        if (status === 'QUEUED' && !(fill.shares > (r.filledShares || 0))) return
+        r.remainingShares = remainingShares
+        r.filledShares = fill.shares
+        r.filledSol = fill.sol
+        r.status = status
+        r.updatedAt = atMs
+        return r
+    })
+    const final = txRes.snapshot.exists() ? txRes.snapshot.val().status : null
+    if (final === 'FILLED' || final === 'CANCELLED') {
+        await db.ref(`/vaults/${vaultId}/withdrawQueueFills/${req.requestId}`).remove()
+    }
+}
+
+/**
+ * Cancel the unfilled remainder of a queued withdrawal; the shares stay
+ * deposited. The cancel takes effect when the vault's fill record is closed,
+ * atomically with releasing the remaining queued shares, so a queue run
+ * cannot burn them afterwards.
+ */
+export async function cancelQueuedWithdrawal(vaultId: string, uid: string, requestId: string) {
+    const db = getStore()
+    const reqSnap = await db.ref(`/vault_withdrawals/${vaultId}/${requestId}`).get()
+    const req: QueuedWithdrawal | null = reqSnap.exists() ? reqSnap.val() : null
+    if (!req || req.uid !== uid || req.status !== 'QUEUED') throw new Error('withdrawal_not_queued')
+
+    let fill = null as QueueFill | null
+    let remainingShares = 0
+    const txRes = await db.ref(`/vaults/${vaultId}`).transaction((v: any) => {
+        if (v == null) return v
+        const open: QueueFill | undefined = v.withdrawQueueFills?.[requestId]
+        remainingShares = open ? Math.max(0, req.requestedShares - open.shares) : 0
+        if (!open || open.cancelled || !(remainingShares > 1e-12)) return
+        const entry = depositEntry(v, uid)
+        if (entry) entry.queuedShares = Math.max(0, (entry.queuedShares || 0) - remainingShares)
+        v.withdrawQueueShares = Math.max(0, (v.withdrawQueueShares || 0) - remainingShares)
+        fill = { ...open, cancelled: true }
+        v.withdrawQueueFills[requestId] = fill
+        return v
+    })
+    if (!txRes.committed || !fill) throw new Error('withdrawal_not_queued')
+    await settleRequest(vaultId, req, fill, now())
+    console.info(TAG, 'cancelQueuedWithdrawal', { vaultId, uid, requestId, remainingShares })
+    const after = await db.ref(`/vault_withdrawals/${vaultId}/${requestId}`).get()
+    return after.val() as QueuedWithdrawal
+}
+
+export async function listWithdrawals(vaultId: string, opts?: { uid?: string }) {
+    const snap = await getStore().ref(`/vault_withdrawals/${vaultId}`).get()
+    return Object.values<QueuedWithdrawal>(snap.exists() ? snap.val() : {})
+        .filter((r) => !opts?.uid || r.uid === opts.uid)
+        .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export default { immediateWithdrawLimitSol, withdrawFromVault, processWithdrawalQueue, cancelQueuedWithdrawal, listWithdrawals }
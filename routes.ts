@@ -8,8 +8,24 @@ import { jupiterTopTrendingService } from "./jupiterTopTrendingService";
 import launchpadRoutes from "./launchpadRoutes";
 import * as balanceTx from './lib/balanceTx';
 import { distributeFeeProRataSol, loadVaultComposition } from './lib/fees';
+import { getTraderFeeSchedule, openFee } from './lib/feeSchedule';
+import { getTraderFeeTier } from './lib/feeTiers';
 import adminHelper from './lib/firebaseAdmin';
+import { finishIdempotent, isValidIdempotencyKey, releaseIdempotent, requestFingerprint, startIdempotent } from './lib/idempotency';
+import { liquidationKeeper } from './lib/keeper';
+import { addSol, roundSol } from './lib/lamports';
+import { ledgerAccount, recordJournal } from './lib/ledger';
+import { orderMatcher } from './lib/orderMatcher';
 import { computeBorrowSol, computeSizeToken } from './lib/math';
+import { navSnapshot } from './lib/nav';
+import { vaultRates } from './lib/rates';
+import { redeemReferralCode, referralRebateSplit } from './lib/referrals';
+import { availableLiquiditySol, checkOpenRisk } from './lib/risk';
+import { getSaga, listSagas, SagaStatus } from './lib/saga';
+import { sagaRecovery } from './lib/sagaRecovery';
+import { triggerWatcher } from './lib/triggerWatcher';
+import { buildTriggers } from './lib/triggers';
+import { canDeposit, canOpenPositions, isVaultStatus, vaultStatus } from './lib/vaultStatus';
 import { priceService } from "./priceService";
 import { isAuthenticated, setupAuth } from "./replitAuth";
 import { fetchChartCandles } from "./services/chartService";
@@ -28,6 +44,120 @@ function getAdminDb() {
   }
 }
 
+// The caller's account identity: passport session, then Firebase ID token
+async function resolveAccountUid(req: any, tag: string): Promise<string | null> {
+  if (req.isAuthenticated && typeof req.isAuthenticated === 'function' && req.isAuthenticated()) {
+    const sessionUid = req.user?.claims?.sub || req.user?.id;
+    if (sessionUid) return String(sessionUid);
+  }
+  const auth = (req.headers?.authorization || '') as string;
+  if (auth.startsWith('Bearer ')) {
+    try {
+      const decoded = await admin.auth().verifyIdToken(auth.replace('Bearer ', ''));
+      if (decoded?.uid) return decoded.uid;
+    } catch (e) {
+      console.error(`[API][ENGINE][${tag}] Firebase token verification failed`, e);
+    }
+  }
+  return null;
+}
+
+// Resolve the caller for engine endpoints: account identity, then wallet
+// session. A `userId`/`uid` in the body is never trusted; callers answer 401
+// when this returns null.
+async function resolveEngineUid(req: any, tag: string): Promise<string | null> {
+  const accountUid = await resolveAccountUid(req, tag);
+  if (accountUid) return accountUid;
+  if (req.session && req.session.user) {
+    const walletUid = req.session.user.id || req.session.user?.publicKey;
+    if (walletUid) return String(walletUid);
+  }
+  return null;
+}
+
+// Engine admins (vault lifecycle overrides) come from a comma-separated ENGINE_ADMIN_UIDS
+function isEngineAdmin(uid: string | null): boolean {
+  if (!uid) return false;
+  const admins = String(process.env.ENGINE_ADMIN_UIDS || '').split(',').map((s) => s.trim()).filter(Boolean);
+  return admins.includes(uid);
+}
+
+// The caller's uid if they are an engine admin. Admin rights need an account
+// identity; a wallet session or a uid in the body never grants them.
+async function resolveEngineAdminUid(req: any, tag: string): Promise<string | null> {
+  const uid = await resolveAccountUid(req, tag);
+  return isEngineAdmin(uid) ? uid : null;
+}
+
+// Shared error mapping for the vault param endpoints
+function sendVaultParamsError(res: any, err: any) {
+  const msg = err?.message;
+  if (msg === 'vault_not_found' || msg === 'param_change_not_found') return res.status(404).json({ success: false, error: msg });
+  if (msg === 'not_creator') return res.status(403).json({ success: false, error: msg });
+  if (msg === 'invalid_params') return res.status(400).json({ success: false, error: msg, reasons: err.reasons });
+  if (msg === 'timelock_active') return res.status(409).json({ success: false, error: msg, effectiveAt: err.effectiveAt });
+  if (msg === 'vault_wound_down') return res.status(409).json({ success: false, error: msg });
+  return res.status(500).json({ success: false, error: msg || String(err) });
+}
+
+// Shared error mapping for the referral endpoints
+function sendReferralError(res: any, err: any) {
+  const msg = err?.message;
+  if (msg === 'referral_code_not_found') return res.status(404).json({ success: false, error: msg });
+  if (msg === 'already_referred' || msg === 'referral_code_taken') return res.status(409).json({ success: false, error: msg });
+  if (['invalid_referral_code', 'self_referral', 'referral_cycle', 'no_fees_to_claim'].includes(msg)) return res.status(400).json({ success: false, error: msg });
+  return res.status(500).json({ success: false, error: msg || String(err) });
+}
+
+/**
+ * Middleware making an engine mutation safe to retry with an `Idempotency-Key`
+ * header (see lib/idempotency.ts). Requests without the header run as before.
+ */
+function idempotent(tag: string) {
+  return async (req: any, res: any, next: any) => {
+    const key = req.headers?.['idempotency-key'];
+    if (key == null) return next();
+    if (!isValidIdempotencyKey(key)) return res.status(400).json({ success: false, error: 'invalid_idempotency_key' });
+    try {
+      // Keys are namespaced per verified caller
+      const uid = await resolveEngineUid(req, tag);
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const started = await startIdempotent(uid, key, requestFingerprint(req.method, req.path, req.body));
+      if (started.state === 'replay') {
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(started.statusCode).json(started.body);
+      }
+      if (started.state === 'in_progress') return res.status(409).json({ success: false, error: 'idempotency_key_in_progress' });
+      if (started.state === 'mismatch') return res.status(422).json({ success: false, error: 'idempotency_key_reused' });
+      const { token } = started;
+      let answered = false;
+      const json = res.json.bind(res);
+      res.json = (body: any) => {
+        answered = true;
+        finishIdempotent(uid, key, token, res.statusCode, body);
+        return json(body);
+      };
+      // A handler that failed without a JSON response (or a dropped connection) stores nothing: free the key for a retry
+      res.on('close', () => {
+        if (!answered) releaseIdempotent(uid, key, token);
+      });
+      return next();
+    } catch (err: any) {
+      console.error(`[API][ENGINE][${tag}] idempotency check failed`, err);
+      return res.status(503).json({ success: false, error: 'idempotency_unavailable' });
+    }
+  };
+}
+
+// Cursor, limit and time range (ms) shared by the history endpoints; null when from/to are not numbers
+function historyQuery(q: any): { cursor?: string; limit?: number; from?: number; to?: number } | null {
+  const num = (v: any) => (v != null && v !== '' ? Number(v) : undefined);
+  const from = num(q?.from);
+  const to = num(q?.to);
+  if ((from != null && !Number.isFinite(from)) || (to != null && !Number.isFinite(to))) return null;
+  return { cursor: q?.cursor ? String(q.cursor) : undefined, limit: num(q?.limit), from, to };
+}
+
 // Solana connection (devnet for now)
 const connection = new Connection("https://api.devnet.solana.com", "confirmed");
 
@@ -38,13 +168,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   await jupiterTopTrendingService.start();
   await priceService.start();
   gmgnService.start();
+  liquidationKeeper.start();
+  triggerWatcher.start();
+  orderMatcher.start();
+  sagaRecovery.start();
 
   // (GMGN proxy removed) - frontend will use direct embed again.
 
   // Wallet connection endpoint - creates user session with wallet info
   app.post("/api/auth/wallet-connect", async (req: any, res) => {
     try {
-      const { publicKey, walletType } = req.body;
+      const { publicKey, walletType, referralCode } = req.body;
       const normalizedWalletType = typeof walletType === "string" ? walletType.toLowerCase() : "unknown";
 
       if (!publicKey || !walletType) {
@@ -110,8 +244,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       }
 
+      // A referral code given at connect is redeemed best-effort: a bad or repeated code never blocks the login
+      let referral: { ok: boolean; code?: string; error?: string } | undefined;
+      if (referralCode) {
+        try {
+          const redeemed = await redeemReferralCode(userId, String(referralCode));
+          referral = { ok: true, code: redeemed.code };
+        } catch (refErr: any) {
+          referral = { ok: false, error: refErr?.message || String(refErr) };
+        }
+      }
+
       res.json({
         success: true,
+        referral,
         user: {
           ...user,
           wallet: {
@@ -1162,10 +1308,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Close long position (calls shared engine implementation in padd-ui)
   // Uses server `priceService` as the authoritative source for SOL price (no other fallback for SOL).
   // Open long position - uses same auth flow and price sourcing as close-long
-  // Preflight: compute feeBreak and distribution without performing DB writes
-  app.post('/api/engine/open-long/preflight', async (req: any, res) => {
+  // Preflight: compute feeBreak and distribution without performing DB writes.
+  // Shorts share the same fee and risk rules; the side is taken from the path.
+  app.post(['/api/engine/open-long/preflight', '/api/engine/open-short/preflight'], async (req: any, res) => {
     try {
-      const { vaultId: bodyVaultId, mint: bodyMint, vaultName, collateralSol, leverageBps, entryPriceUsd: bodyEntry, solPriceUsd: bodySol } = req.body || {};
+      const side = req.path.startsWith('/api/engine/open-short') ? 'SHORT' : 'LONG';
+      const { vaultId: bodyVaultId, mint: bodyMint, vaultName, collateralSol, leverageBps, entryPriceUsd: bodyEntry, solPriceUsd: bodySol, stopLossUsd, takeProfitUsd, trailingStopBps } = req.body || {};
       // Resolve vault key: callers may pass a canonical `vaultId`, or a token mint, or a vaultName.
       // Prefer an explicit `vaultId` when supplied. Use `/vaultsByMint/<mint>` mapping
       // when a token mint is supplied. Fall back to legacy behavior (vault keyed by mint)
@@ -1279,6 +1427,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         tokenMint = vaultId;
       }
 
+      // Validate leverage against the vault's risk params (maxLevBps, imrBps, available liquidity)
+      let riskVault: any = null;
+      try {
+        const riskSnap = await db.ref(`/vaults/${vaultId}`).get();
+        if (riskSnap.exists()) riskVault = riskSnap.val();
+      } catch { /* ignore; defaults apply */ }
+      if (riskVault && !canOpenPositions(riskVault)) {
+        return res.status(409).json({ success: false, error: 'vault_not_active', vaultStatus: vaultStatus(riskVault) });
+      }
+      const riskAvailableSol = riskVault ? availableLiquiditySol(riskVault) : undefined;
+      const risk = checkOpenRisk(riskVault?.params, coll, lever, riskAvailableSol);
+      if (!risk.ok) {
+        return res.status(400).json({ success: false, error: 'risk_limit_exceeded', reasons: risk.reasons, maxLeverageBps: risk.maxLeverageBps, riskParams: risk.params });
+      }
+
       // determine prices: prefer client-supplied, then price_cache, then GMGN lookup
       let price: number | null = (bodyEntry != null) ? Number(bodyEntry) : null;
       let solPrice: number | null = (bodySol != null) ? Number(bodySol) : null;
@@ -1333,9 +1496,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (!price || !solPrice) return res.status(400).json({ success: false, error: 'prices_unavailable', price, solPrice });
 
-      // compute borrow, size, notional
-      const borrowSol = computeBorrowSol(coll, lever);
-      const sizeToken = computeSizeToken(coll, borrowSol, solPrice, price);
+      // Validate optional SL/TP/trailing stop against the entry price the open would use
+      const optNum = (v: any) => v != null ? Number(v) : undefined;
+      const triggerInput = { stopLossUsd: optNum(stopLossUsd), takeProfitUsd: optNum(takeProfitUsd), trailingStopBps: optNum(trailingStopBps) };
+      let triggers: any = null;
+      try {
+        triggers = buildTriggers(side, price, triggerInput);
+      } catch (e: any) {
+        if (e?.message === 'invalid_triggers') return res.status(400).json({ success: false, error: e.message, reasons: e.reasons });
+        throw e;
+      }
+
+      // compute borrow, size, notional the way the engine will (whole lamports, borrow rounded down)
+      const collSol = roundSol(coll);
+      const borrowSol = roundSol(computeBorrowSol(collSol, lever), 'down');
+      const sizeToken = computeSizeToken(collSol, borrowSol, solPrice, price);
       const notionalUsd = price * sizeToken;
 
       // load vault params and composition for fee calculation
@@ -1344,16 +1519,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const snap = await db.ref(`/vaults/${vaultId}/params`).get();
         if (snap.exists()) vaultParams = snap.val();
       } catch { /* ignore */ }
-      const feeBps = typeof vaultParams.openFeeBps === 'number' ? vaultParams.openFeeBps : 10;
-      const vaultSharePct = typeof vaultParams.vaultSharePct === 'number' ? vaultParams.vaultSharePct : 0.7;
-      const ownerKeepPct = typeof vaultParams.ownerKeepPct === 'number' ? vaultParams.ownerKeepPct : 0.6;
-
-      // Charge trader 10% of their collateral (in SOL) as the total fee.
-      const feeSol = (coll || 0) * 0.10
-      const feeUsd = feeSol * solPrice
-      const feeVaultSol = feeSol * vaultSharePct
-      const feePlatformSol = feeSol - feeVaultSol
-      const feeBreak = { notionalUsd, feeBps, feeUsd, feeSol, feeVaultSol, feePlatformSol, usedSolPrice: solPrice }
+      // Same fee schedule the engine charges at open, with the caller's volume tier and referee discounts
+      const traderFees = await getTraderFeeSchedule(vaultParams, await resolveEngineUid(req, 'PREFLIGHT'));
+      const feeTier = traderFees.feeTier;
+      const feeBreak = openFee(traderFees.schedule, collSol, borrowSol, solPrice);
       // Prefer the vault's `creatorUid` as the source of truth for owner allocation.
       // If `creatorUid` exists on `/vaults/<mint>`, allocate the vault share to that creator.
       let composition: any = {};
@@ -1406,78 +1575,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const distrib = {
         totalFeeSol: feeBreak.feeSol,
-        platformSol: (feeBreak.feePlatformSol || 0) + (ownerDistrib.platformSol || 0),
+        platformSol: addSol(feeBreak.feePlatformSol || 0, ownerDistrib.platformSol || 0),
         creatorSol: ownerDistrib.creatorSol || 0,
         contributors: ownerDistrib.contributors || [],
         allocatedSum: feeBreak.feeSol
       };
+      if (traderFees.referral) {
+        const rebate = referralRebateSplit(distrib.platformSol, traderFees.referrerShareBps);
+        Object.assign(distrib, { platformSol: rebate.platformSol, referrerUid: traderFees.referral.referrerUid, referrerSol: rebate.referrerSol });
+      }
+      const referral = traderFees.referral ? { code: traderFees.referral.code, discountBps: traderFees.referralDiscountBps } : null;
 
-      return res.json({ success: true, feeBreak, distrib, sizeToken, borrowSol, notionalUsd, vaultCreatorUid, compositionUsed: composition, vaultRaw });
+      return res.json({ success: true, side, feeBreak, feeTier, referral, distrib, sizeToken, borrowSol, notionalUsd, maxLeverageBps: risk.maxLeverageBps, riskParams: risk.params, triggers, vaultCreatorUid, compositionUsed: composition, vaultRaw });
     } catch (err: any) {
       console.error('/api/engine/open-long/preflight error', err);
       return res.status(500).json({ success: false, error: err?.message || String(err) });
     }
   });
-  app.post('/api/engine/open-long', async (req: any, res) => {
+  // Open long / open short - identical request shape, side taken from the path
+  app.post(['/api/engine/open-long', '/api/engine/open-short'], idempotent('OPEN_LONG'), async (req: any, res) => {
     try {
+      const side = req.path === '/api/engine/open-short' ? 'SHORT' : 'LONG';
       console.log('[API][ENGINE][OPEN_LONG] incoming request', { path: req.path });
-      let uid: string | undefined | null = undefined;
-      if (req.isAuthenticated && typeof req.isAuthenticated === 'function' && req.isAuthenticated()) {
-        uid = req.user?.claims?.sub || req.user?.id;
-        console.log('[API][ENGINE][OPEN_LONG] session auth detected', { uid });
-      } else {
-        const auth = (req.headers?.authorization || '') as string;
-        if (auth.startsWith('Bearer ')) {
-          const idToken = auth.replace('Bearer ', '');
-          try {
-            if (!admin.apps || admin.apps.length === 0) {
-              try {
-                const loadSvc = () => {
-                  const rawJson = process.env.SERVICE_ACCOUNT_JSON || process.env.FIREBASE_SERVICE_ACCOUNT;
-                  if (rawJson) {
-                    try { return JSON.parse(rawJson); } catch (e) { }
-                  }
-                  const b64 = process.env.SERVICE_ACCOUNT_BASE64 || process.env.SERVICEACC_B64 || process.env.SERVICE_JSON_B64;
-                  if (b64) {
-                    try { return JSON.parse(Buffer.from(b64, 'base64').toString('utf8')); } catch (e) { }
-                  }
-                  try { return require('../serviceacc.json'); } catch (e) { return null; }
-                };
-                const svc = loadSvc();
-                if (svc) {
-                  admin.initializeApp({ credential: admin.credential.cert(svc as any) });
-                } else {
-                  try { admin.initializeApp(); } catch { }
-                }
-              } catch (e) {
-                try { admin.initializeApp(); } catch { }
-              }
-            }
-            const decoded = await admin.auth().verifyIdToken(idToken);
-            uid = decoded?.uid;
-            console.log('[API][ENGINE][OPEN_LONG] firebase token verified', { uid });
-          } catch (e) {
-            console.error('[API][ENGINE][OPEN_LONG] Firebase token verification failed', e);
-            uid = null;
-          }
-        }
-      }
-
-      // Allow wallet-session fallback
-      if (!uid && req.session && req.session.user) {
-        uid = req.session.user.id || req.session.user?.publicKey || null;
-        console.log('[API][ENGINE][OPEN_LONG] wallet-session detected', { uid });
-      }
-
-      // Allow client to provide `userId` when no session or idToken is present
-      if (!uid && req.body && req.body.userId) {
-        uid = String(req.body.userId);
-        console.log('[API][ENGINE][OPEN_LONG] using userId from body as uid', { uid });
-      }
-
+      const uid = await resolveEngineUid(req, 'OPEN_LONG');
       if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
 
-      const { vaultId: bodyVaultId, mint: bodyMint, vaultName, collateralSol, leverageBps, entryPriceUsd: bodyEntry, solPriceUsd: bodySol } = req.body || {};
+      const { vaultId: bodyVaultId, mint: bodyMint, vaultName, collateralSol, leverageBps, entryPriceUsd: bodyEntry, solPriceUsd: bodySol, stopLossUsd, takeProfitUsd, trailingStopBps } = req.body || {};
       // Resolve vault key: callers may pass a canonical `vaultId`, or a token mint, or a vaultName.
       let vaultId = (bodyVaultId && String(bodyVaultId).trim() !== '') ? bodyVaultId : bodyMint;
       const db = getAdminDb();
@@ -1553,31 +1676,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ success: false, error: 'vaultId|vaultName, collateralSol and leverageBps required' });
       }
 
-      // Fetch authoritative SOL price
-      const solPriceData = priceService.getPrice('SOL');
-      if (!solPriceData || typeof solPriceData.price !== 'number' || solPriceData.price <= 0) {
-        console.error('[API][ENGINE][OPEN_LONG] SOL price unavailable from priceService', { solPriceData });
-        return res.status(503).json({ success: false, error: 'sol_price_unavailable' });
-      }
-      const solPriceUsd = solPriceData.price;
-
       const engine = await import('./lib/engine');
-      if (!engine || typeof engine.openLong !== 'function') {
-        return res.status(500).json({ success: false, error: 'engine.openLong unavailable' });
+      const openFn = side === 'SHORT' ? engine.openShort : engine.openLong;
+      if (!engine || typeof openFn !== 'function') {
+        return res.status(500).json({ success: false, error: `engine.open${side === 'SHORT' ? 'Short' : 'Long'} unavailable` });
       }
 
-
-
+      // The engine prices the open from the server mark; client prices are only checked against it
       const opts: any = {};
       if (bodyEntry != null) opts.entryPriceUsd = Number(bodyEntry);
       if (bodySol != null) opts.solPriceUsd = Number(bodySol);
-      // Pass authoritative solPrice if not provided
-      if (opts.solPriceUsd == null) opts.solPriceUsd = solPriceUsd;
+      if (stopLossUsd != null || takeProfitUsd != null || trailingStopBps != null) {
+        const optNum = (v: any) => v != null ? Number(v) : undefined;
+        opts.triggers = { stopLossUsd: optNum(stopLossUsd), takeProfitUsd: optNum(takeProfitUsd), trailingStopBps: optNum(trailingStopBps) };
+      }
 
-      const result = await engine.openLong(String(uid), String(vaultId), coll, lever, opts);
+      const result = await openFn(String(uid), String(vaultId), coll, lever, opts);
       return res.json(result);
     } catch (err: any) {
       console.error('/api/engine/open-long error', err);
+      if (err?.message === 'risk_limit_exceeded') {
+        return res.status(400).json({ success: false, error: err.message, reasons: err.reasons, maxLeverageBps: err.maxLeverageBps });
+      }
+      if (err?.message === 'invalid_triggers') {
+        return res.status(400).json({ success: false, error: err.message, reasons: err.reasons });
+      }
+      if (err?.message === 'vault_not_active') {
+        return res.status(409).json({ success: false, error: err.message, vaultStatus: err.vaultStatus });
+      }
+      if (err?.message === 'price_out_of_tolerance') {
+        return res.status(400).json({ success: false, error: err.message, field: err.field, serverPriceUsd: err.serverPriceUsd, clientPriceUsd: err.clientPriceUsd, toleranceBps: err.toleranceBps });
+      }
+      if (err?.message === 'mark_unavailable') {
+        return res.status(503).json({ success: false, error: err.message });
+      }
       // If engine provided feeBreak/currentBalance attach them to the response for debugging
       if (err && (err.feeBreak || err.currentBalance)) {
         return res.status(400).json({ success: false, error: err?.message || String(err), feeBreak: err.feeBreak || null, currentBalance: err.currentBalance || null });
@@ -1585,144 +1717,319 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(500).json({ success: false, error: err?.message || String(err) });
     }
   });
-  app.post("/api/engine/close-long", async (req: any, res) => {
+  // Close long / close short - the engine checks the position's side matches the path
+  app.post(["/api/engine/close-long", "/api/engine/close-short"], async (req: any, res) => {
     try {
+      const side = req.path === '/api/engine/close-short' ? 'SHORT' : 'LONG';
       console.log('[API][ENGINE][CLOSE_LONG] incoming request', { path: req.path, headers: Object.keys(req.headers || {}).filter(k => ['authorization', 'host', 'content-type'].includes(k.toLowerCase())) });
-      // Allow either session-based auth (passport), Firebase ID token, OR wallet pubkey in body
-      let uid: string | undefined | null = undefined;
-      if (req.isAuthenticated && typeof req.isAuthenticated === 'function' && req.isAuthenticated()) {
-        uid = req.user?.claims?.sub || req.user?.id;
-        console.log('[API][ENGINE][CLOSE_LONG] session auth detected', { uid });
-      } else {
-        const auth = (req.headers?.authorization || '') as string;
-        console.log('[API][ENGINE][CLOSE_LONG] authorization header present?', { hasAuthHeader: !!auth });
-        if (auth.startsWith('Bearer ')) {
-          const idToken = auth.replace('Bearer ', '');
-          try {
-            // Initialize firebase-admin with service account if not already
-            if (!admin.apps || admin.apps.length === 0) {
-              try {
-                const loadSvc = () => {
-                  const rawJson = process.env.SERVICE_ACCOUNT_JSON || process.env.FIREBASE_SERVICE_ACCOUNT;
-                  if (rawJson) {
-                    try { return JSON.parse(rawJson); } catch (e) { }
-                  }
-                  const b64 = process.env.SERVICE_ACCOUNT_BASE64 || process.env.SERVICEACC_B64 || process.env.SERVICE_JSON_B64;
-                  if (b64) {
-                    try { return JSON.parse(Buffer.from(b64, 'base64').toString('utf8')); } catch (e) { }
-                  }
-                  try { return require('../serviceacc.json'); } catch (e) { return null; }
-                };
-                const svc = loadSvc();
-                if (svc) {
-                  admin.initializeApp({ credential: admin.credential.cert(svc as any) });
-                } else {
-                  try { admin.initializeApp(); } catch { }
-                }
-              } catch (e) {
-                try { admin.initializeApp(); } catch { }
-              }
-            }
-            const decoded = await admin.auth().verifyIdToken(idToken);
-            uid = decoded?.uid;
-            console.log('[API][ENGINE][CLOSE_LONG] firebase token verified', { uid });
-          } catch (e) {
-            console.error('[API][ENGINE][CLOSE_LONG] Firebase token verification failed', e);
-            // Don't set uid to null yet - check body.uid below
-          }
-        }
-      }
-      const { vaultId, mint, posId, uid: bodyUid, currentValueSol: bodyCurrentValueSol, markUsd: bodyMark, liquidated: bodyLiquidated } = req.body || {};
+      const uid = await resolveEngineUid(req, 'CLOSE_LONG');
+      const { vaultId, mint, posId, currentValueSol: bodyCurrentValueSol, liquidated: bodyLiquidated, closePct: bodyClosePct, closeSizeToken: bodyCloseSizeToken } = req.body || {};
       // Support both vaultId (new) and mint (legacy) - vaultId takes precedence
       const resolvedVaultId = vaultId || mint;
       const isLiquidation = bodyLiquidated === true;
 
-      // If Firebase auth failed or wasn't provided, fall back to uid from body (wallet pubkey)
-      if (!uid && bodyUid) {
-        uid = bodyUid;
-        console.log('[API][ENGINE][CLOSE_LONG] using wallet pubkey from body as uid', { uid });
-      }
-
       if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
       if (!resolvedVaultId || !posId) return res.status(400).json({ success: false, error: 'vaultId and posId are required' });
 
-      // Validate currentValueSol from frontend
+      // `currentValueSol` is optional: the engine values the position from the server mark
+      // and only uses the client figure as a sanity check against that mark.
       const currentValueSol = typeof bodyCurrentValueSol === 'number' && Number.isFinite(bodyCurrentValueSol) && bodyCurrentValueSol >= 0
         ? bodyCurrentValueSol
-        : null;
+        : undefined;
 
-      if (currentValueSol === null) {
-        return res.status(400).json({ success: false, error: 'currentValueSol is required' });
+      const engine = await import('./lib/engine');
+      const closeFn = side === 'SHORT' ? engine.closeShort : engine.closeLong;
+      if (!engine || typeof closeFn !== 'function') {
+        return res.status(500).json({ success: false, error: `engine.close${side === 'SHORT' ? 'Short' : 'Long'} unavailable` });
       }
 
-      // Fetch SOL price from our in-process price service (for logging/reference)
-      const solPriceData = priceService.getPrice('SOL');
-      const solPriceUsd = solPriceData?.price ?? null;
+      // Optional partial close: `closePct` (0-100] or `closeSizeToken`; omit both to close fully
+      const result = await closeFn(uid, resolvedVaultId, posId, {
+        liquidated: isLiquidation,
+        currentValueSol,
+        closePct: bodyClosePct != null ? Number(bodyClosePct) : undefined,
+        closeSizeToken: bodyCloseSizeToken != null ? Number(bodyCloseSizeToken) : undefined,
+      });
+      return res.json(result);
+    } catch (err: any) {
+      console.error('/api/engine/close-long error', err);
+      if (err?.message === 'current_value_out_of_tolerance') {
+        return res.status(409).json({ success: false, error: err.message, serverValueSol: err.serverValueSol, clientValueSol: err.clientValueSol, toleranceBps: err.toleranceBps });
+      }
+      if (err?.message === 'mark_unavailable') {
+        return res.status(503).json({ success: false, error: err.message });
+      }
+      if (err?.message === 'position_not_liquidatable') {
+        return res.status(409).json({ success: false, error: err.message, mrBps: err.mrBps, mmrBps: err.mmrBps });
+      }
+      if (['position_side_mismatch', 'invalid_close_amount', 'close_amount_exceeds_position'].includes(err?.message)) {
+        return res.status(400).json({ success: false, error: err.message });
+      }
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-      // Allow the frontend to provide `markUsd` directly (the page already shows the token price).
-      // If not provided, fall back to GMGN lookup as before.
-      let markUsd: number | null = null;
-      if (bodyMark != null) {
-        const n = Number(bodyMark);
-        if (Number.isFinite(n) && n > 0) {
-          markUsd = n;
-        }
+  // Add collateral to an open position from the caller's balance
+  app.post('/api/engine/margin/add', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'MARGIN_ADD');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, posId, amountSol } = req.body || {};
+      const amt = Number(amountSol);
+      if (!vaultId || !posId || !Number.isFinite(amt) || amt <= 0) return res.status(400).json({ success: false, error: 'vaultId, posId and amountSol required' });
+      const engine = await import('./lib/engine');
+      const result = await engine.addMargin(uid, String(vaultId), String(posId), amt);
+      return res.json({ success: true, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/margin/add error', err);
+      if (err?.message === 'position_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (['insufficient_balance', 'position_not_open', 'invalid_amount'].includes(err?.message)) {
+        return res.status(400).json({ success: false, error: err.message });
       }
-      if (markUsd == null) {
-        // Get token mint from vault for GMGN lookup
-        let tokenMintForLookup = resolvedVaultId;
-        try {
-          const vaultSnap = await getAdminDb().ref(`/vaults/${resolvedVaultId}`).get();
-          if (vaultSnap.exists()) {
-            const vault = vaultSnap.val();
-            if (vault && vault.tokenMint) tokenMintForLookup = vault.tokenMint;
-          }
-        } catch { /* use resolvedVaultId as fallback */ }
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-        try {
-          const coins = await gmgnService.lookup(tokenMintForLookup, 'sol');
-          const coin = Array.isArray(coins) && coins.length ? coins[0] : null;
-          if (coin) {
-            const candidates = [
-              coin.price_usd, coin.priceUsd, coin.price, coin.usd_price, coin.last_price, coin.last_price_usd, coin.price_usd_display,
-              coin.market_price, coin.price_usd_native
-            ];
-            for (const v of candidates) {
-              if (v == null) continue;
-              const nn = Number(v);
-              if (Number.isFinite(nn) && nn > 0) {
-                markUsd = nn;
-                break;
-              }
-            }
-            try {
-              if (markUsd == null && coin.data && typeof coin.data.price === 'number') markUsd = coin.data.price;
-            } catch { /* ignore */ }
-          }
-        } catch (gmgnErr) {
-          console.warn('[API][ENGINE][CLOSE_LONG] gmgn lookup failed', gmgnErr);
-        }
-        if (!markUsd) {
-          console.warn('[API][ENGINE][CLOSE_LONG] token mark price unavailable from GMGN and no page-supplied price; falling back to cache/engine lookup', { vaultId: resolvedVaultId, markUsd });
-        }
+  // Withdraw excess collateral from an open position; must keep the margin ratio above imrBps
+  app.post('/api/engine/margin/remove', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'MARGIN_REMOVE');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, posId, amountSol } = req.body || {};
+      const amt = Number(amountSol);
+      if (!vaultId || !posId || !Number.isFinite(amt) || amt <= 0) return res.status(400).json({ success: false, error: 'vaultId, posId and amountSol required' });
+      const engine = await import('./lib/engine');
+      const result = await engine.removeMargin(uid, String(vaultId), String(posId), amt);
+      return res.json({ success: true, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/margin/remove error', err);
+      if (err?.message === 'position_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (err?.message === 'margin_withdraw_exceeds_max') {
+        return res.status(400).json({ success: false, error: err.message, maxWithdrawSol: err.maxWithdrawSol, mrBps: err.mrBps, imrBps: err.imrBps });
+      }
+      if (err?.message === 'invalid_amount') return res.status(400).json({ success: false, error: err.message });
+      if (['position_not_open', 'position_changed'].includes(err?.message)) {
+        return res.status(409).json({ success: false, error: err.message });
       }
+      if (err?.message === 'mark_unavailable') return res.status(503).json({ success: false, error: err.message });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-      // Import the engine implementation from the frontend package so we share logic
+  // Set, replace or clear SL/TP/trailing-stop triggers on an open position.
+  // Omitted fields keep their current value; send null to clear one.
+  app.post('/api/engine/positions/triggers', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'TRIGGERS');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, posId } = req.body || {};
+      if (!vaultId || !posId) return res.status(400).json({ success: false, error: 'vaultId and posId required' });
+      const input: any = {};
+      for (const k of ['stopLossUsd', 'takeProfitUsd', 'trailingStopBps']) {
+        if (k in (req.body || {})) input[k] = req.body[k] == null ? null : Number(req.body[k]);
+      }
       const engine = await import('./lib/engine');
-      if (!engine || typeof engine.closeLong !== 'function') {
-        return res.status(500).json({ success: false, error: 'engine.closeLong unavailable' });
+      const result = await engine.setTriggers(uid, String(vaultId), String(posId), input);
+      return res.json({ success: true, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/positions/triggers error', err);
+      if (err?.message === 'position_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (err?.message === 'invalid_triggers') return res.status(400).json({ success: false, error: err.message, reasons: err.reasons });
+      if (err?.message === 'position_not_open') return res.status(409).json({ success: false, error: err.message });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Trigger watcher status, including the last run's fired triggers
+  app.get('/api/engine/triggers/status', async (_req: any, res) => {
+    return res.json({ success: true, watcher: triggerWatcher.getStatus() });
+  });
+
+  // Place a limit order: opens `side` on the vault once the mark crosses `limitPriceUsd`.
+  // Collateral plus the open fee is reserved from the balance until fill, cancel or expiry.
+  app.post('/api/engine/orders/place', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'ORDER_PLACE');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, side, collateralSol, leverageBps, limitPriceUsd, expiresAt, ttlSec, stopLossUsd, takeProfitUsd, trailingStopBps } = req.body || {};
+      const orderSide = String(side || 'LONG').toUpperCase();
+      const coll = Number(collateralSol);
+      const lever = Number(leverageBps);
+      const limit = Number(limitPriceUsd);
+      if (!vaultId || !['LONG', 'SHORT'].includes(orderSide) || !Number.isFinite(coll) || coll <= 0 || !Number.isFinite(lever) || lever <= 0 || !Number.isFinite(limit) || limit <= 0) {
+        return res.status(400).json({ success: false, error: 'vaultId, side, collateralSol, leverageBps and limitPriceUsd required' });
+      }
+      let expiry: number | null = null;
+      if (expiresAt != null) expiry = Number(expiresAt);
+      else if (ttlSec != null) expiry = Date.now() + Number(ttlSec) * 1000;
+      const optNum = (v: any) => v != null ? Number(v) : undefined;
+      const triggers = (stopLossUsd != null || takeProfitUsd != null || trailingStopBps != null)
+        ? { stopLossUsd: optNum(stopLossUsd), takeProfitUsd: optNum(takeProfitUsd), trailingStopBps: optNum(trailingStopBps) }
+        : undefined;
+      const orders = await import('./lib/orders');
+      const order = await orders.placeOrder(uid, String(vaultId), { side: orderSide as any, collateralSol: coll, leverageBps: lever, limitPriceUsd: limit, expiresAt: expiry, triggers });
+      return res.json({ success: true, order });
+    } catch (err: any) {
+      console.error('/api/engine/orders/place error', err);
+      if (err?.message === 'vault_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (err?.message === 'risk_limit_exceeded') {
+        return res.status(400).json({ success: false, error: err.message, reasons: err.reasons, maxLeverageBps: err.maxLeverageBps });
       }
+      if (err?.message === 'invalid_triggers') return res.status(400).json({ success: false, error: err.message, reasons: err.reasons });
+      if (err?.message === 'vault_not_active') return res.status(409).json({ success: false, error: err.message, vaultStatus: err.vaultStatus });
+      if (err?.message === 'sol_price_unavailable') return res.status(503).json({ success: false, error: err.message });
+      if (['insufficient_balance', 'invalid_amount', 'invalid_limit_price', 'invalid_expiry'].includes(err?.message)) {
+        return res.status(400).json({ success: false, error: err.message });
+      }
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-      // Pass currentValueSol from frontend - this is the source of truth for PnL calculation
-      const result = await engine.closeLong(uid, resolvedVaultId, posId, {
-        liquidated: isLiquidation,
-        currentValueSol,
-        solPriceUsd: solPriceUsd ?? undefined,
-        markUsd: markUsd ?? undefined
-      });
-      return res.json(result);
+  // Cancel an open limit order and release its reserved balance
+  app.post('/api/engine/orders/cancel', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'ORDER_CANCEL');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, orderId } = req.body || {};
+      if (!vaultId || !orderId) return res.status(400).json({ success: false, error: 'vaultId and orderId required' });
+      const orders = await import('./lib/orders');
+      const order = await orders.cancelOrder(uid, String(vaultId), String(orderId));
+      return res.json({ success: true, order });
     } catch (err: any) {
-      console.error('/api/engine/close-long error', err);
+      console.error('/api/engine/orders/cancel error', err);
+      if (err?.message === 'order_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (err?.message === 'order_not_open') return res.status(409).json({ success: false, error: err.message });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // The caller's limit orders across vaults (optionally filtered by ?status=)
+  app.get('/api/engine/orders/mine', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'ORDER_LIST');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const status = req.query?.status ? String(req.query.status).toUpperCase() : undefined;
+      const orders = await import('./lib/orders');
+      const list = await orders.listUserOrders(uid, { status: status as any });
+      return res.json({ success: true, orders: list });
+    } catch (err: any) {
+      console.error('/api/engine/orders/mine error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // A vault's order book (optionally filtered by ?status=), plus matcher status
+  app.get('/api/engine/orders/vault/:vaultId', async (req: any, res) => {
+    try {
+      const status = req.query?.status ? String(req.query.status).toUpperCase() : undefined;
+      const orders = await import('./lib/orders');
+      const list = await orders.listVaultOrders(String(req.params.vaultId), { status: status as any });
+      return res.json({ success: true, orders: list, matcher: orderMatcher.getStatus() });
+    } catch (err: any) {
+      console.error('/api/engine/orders/vault/:vaultId error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Positions whose margin ratio is under (or within `bufferBps` of) their vault's mmrBps
+  app.get('/api/engine/positions/at-risk', async (req: any, res) => {
+    try {
+      const vaultId = req.query?.vaultId ? String(req.query.vaultId) : undefined;
+      const bufferBps = req.query?.bufferBps != null ? Number(req.query.bufferBps) : 0;
+      if (!Number.isFinite(bufferBps) || bufferBps < 0) return res.status(400).json({ success: false, error: 'invalid bufferBps' });
+      const { positions, unpriced } = await liquidationKeeper.listAtRisk({ vaultId, bufferBps });
+      return res.json({ success: true, positions, unpriced, keeper: liquidationKeeper.getStatus() });
+    } catch (err: any) {
+      console.error('/api/engine/positions/at-risk error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Trigger a keeper pass (engine admins only). Runs in dry-run mode unless `dryRun: false` is sent explicitly.
+  app.post('/api/engine/keeper/run', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineAdminUid(req, 'KEEPER');
+      if (!uid) return res.status(403).json({ success: false, error: 'admin only' });
+      const dryRun = req.body?.dryRun !== false;
+      const result = await liquidationKeeper.runOnce({ dryRun });
+      return res.json({ success: true, result });
+    } catch (err: any) {
+      console.error('/api/engine/keeper/run error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Read a single position with live `accruedInterestSol` (borrow carrying cost).
+  // Users can read their own positions; admins any.
+  app.get('/api/engine/positions/:uid/:vaultId/:posId', async (req: any, res) => {
+    try {
+      const caller = await resolveEngineUid(req, 'POSITION');
+      if (!caller) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { uid, vaultId, posId } = req.params as { uid: string, vaultId: string, posId: string };
+      if (uid !== caller && (await resolveEngineAdminUid(req, 'POSITION')) !== caller) return res.status(403).json({ success: false, error: 'forbidden' });
+      const engine = await import('./lib/engine');
+      const position = await engine.getPosition(uid, vaultId, posId);
+      return res.json({ success: true, position });
+    } catch (err: any) {
+      if (err?.message === 'position_not_found') return res.status(404).json({ success: false, error: err.message });
+      console.error('/api/engine/positions/:uid/:vaultId/:posId error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // The caller's positions, open and closed, newest first (?vaultId=&status=&from=&to=&cursor=&limit=).
+  // Open positions carry live unrealizedPnlSol and accruedInterestSol.
+  app.get('/api/engine/positions', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'POSITIONS');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const query = historyQuery(req.query);
+      if (!query) return res.status(400).json({ success: false, error: 'invalid from/to' });
+      const status = req.query?.status ? String(req.query.status).toUpperCase() : undefined;
+      if (status && status !== 'OPEN' && status !== 'CLOSED') return res.status(400).json({ success: false, error: 'invalid status' });
+      const vaultId = req.query?.vaultId ? String(req.query.vaultId) : undefined;
+      const history = await import('./lib/history');
+      const page = await history.listPositions(uid, { ...query, vaultId, status: status as any });
+      return res.json({ success: true, uid, positions: page.items, nextCursor: page.nextCursor });
+    } catch (err: any) {
+      if (err?.message === 'invalid_cursor') return res.status(400).json({ success: false, error: err.message });
+      console.error('/api/engine/positions error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // A vault's trades, newest first (?from=&to=&cursor=&limit=)
+  app.get('/api/engine/vaults/:vaultId/trades', async (req: any, res) => {
+    try {
+      const query = historyQuery(req.query);
+      if (!query) return res.status(400).json({ success: false, error: 'invalid from/to' });
+      const history = await import('./lib/history');
+      const page = await history.listVaultTrades(String(req.params.vaultId), query);
+      return res.json({ success: true, vaultId: req.params.vaultId, trades: page.items, nextCursor: page.nextCursor });
+    } catch (err: any) {
+      if (err?.message === 'invalid_cursor') return res.status(400).json({ success: false, error: err.message });
+      console.error('/api/engine/vaults/:vaultId/trades error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // A user's trades across vaults, newest first (?vaultId=&from=&to=&cursor=&limit=).
+  // Users can read their own trades; admins any.
+  app.get('/api/engine/users/:uid/trades', async (req: any, res) => {
+    try {
+      const caller = await resolveEngineUid(req, 'USER_TRADES');
+      if (!caller) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const uid = String(req.params.uid);
+      if (uid !== caller && (await resolveEngineAdminUid(req, 'USER_TRADES')) !== caller) return res.status(403).json({ success: false, error: 'forbidden' });
+      const query = historyQuery(req.query);
+      if (!query) return res.status(400).json({ success: false, error: 'invalid from/to' });
+      const vaultId = req.query?.vaultId ? String(req.query.vaultId) : undefined;
+      const history = await import('./lib/history');
+      const page = await history.listUserTrades(uid, { ...query, vaultId });
+      return res.json({ success: true, uid, trades: page.items, nextCursor: page.nextCursor });
+    } catch (err: any) {
+      if (err?.message === 'invalid_cursor') return res.status(400).json({ success: false, error: err.message });
+      console.error('/api/engine/users/:uid/trades error', err);
       return res.status(500).json({ success: false, error: err?.message || String(err) });
     }
   });
@@ -1740,19 +2047,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Simple flattened list for client discovery: returns array of { vaultId, tokenMint, name, creatorUid, tvlSol }
+  // Simple flattened list for client discovery: returns array of
+  // { vaultId, tokenMint, name, creatorUid, tvlSol, totalBorrowsSol, utilBps, borrowAprBps, supplyAprBps, navSol, totalShares, sharePriceSol }
   app.get('/api/engine/vaults/list-simple', async (_req: any, res) => {
     try {
       const db = getAdminDb();
       const snap = await db.ref('/vaults').get();
       const vaults = snap && snap.exists() ? snap.val() : {};
-      const list = Object.entries(vaults || {}).map(([id, v]: any) => ({
-        vaultId: id,
-        tokenMint: v && v.tokenMint ? v.tokenMint : id,
-        name: v && v.name ? v.name : null,
-        creatorUid: v && v.creatorUid ? v.creatorUid : null,
-        tvlSol: v && typeof v.tvlSol === 'number' ? v.tvlSol : null,
-      }));
+      const list = Object.entries(vaults || {}).map(([id, v]: any) => {
+        const { navSol, totalShares, sharePriceSol } = navSnapshot(v);
+        return {
+          vaultId: id,
+          tokenMint: v && v.tokenMint ? v.tokenMint : id,
+          name: v && v.name ? v.name : null,
+          creatorUid: v && v.creatorUid ? v.creatorUid : null,
+          status: vaultStatus(v),
+          tvlSol: v && typeof v.tvlSol === 'number' ? v.tvlSol : null,
+          totalBorrowsSol: v && typeof v.totalBorrowsSol === 'number' ? v.totalBorrowsSol : 0,
+          // Computed live so vaults written before utilBps was maintained still report correctly
+          ...vaultRates(v),
+          navSol,
+          totalShares,
+          sharePriceSol,
+        };
+      });
       return res.json({ success: true, list });
     } catch (err: any) {
       console.error('/api/engine/vaults/list-simple error', err);
@@ -1760,67 +2078,334 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create a new vault (PADD) - accept session auth, Firebase idToken, or wallet-session
-  app.post("/api/engine/vaults/create", async (req: any, res) => {
+  // Current NAV and share price for a vault plus its share price history (?limit=, newest last)
+  app.get('/api/engine/vaults/:vaultId/nav', async (req: any, res) => {
     try {
-      console.log('[API][ENGINE][VAULT_CREATE] incoming', { path: req.path });
+      const vaultId = String(req.params.vaultId);
+      const db = getAdminDb();
+      const snap = await db.ref(`/vaults/${vaultId}`).get();
+      if (!snap.exists()) return res.status(404).json({ success: false, error: 'vault_not_found' });
+      const limit = req.query?.limit != null ? Number(req.query.limit) : undefined;
+      if (limit != null && (!Number.isFinite(limit) || limit <= 0)) return res.status(400).json({ success: false, error: 'invalid limit' });
+      const nav = await import('./lib/nav');
+      const history = await nav.getNavHistory(vaultId, { limit });
+      return res.json({ success: true, vaultId, current: nav.navSnapshot(snap.val()), history });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/:vaultId/nav error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-      // Determine caller identity: prefer session (passport), then Authorization Bearer idToken, then session-based wallet user
-      let uid: string | undefined | null = undefined;
-      if (req.isAuthenticated && typeof req.isAuthenticated === 'function' && req.isAuthenticated()) {
-        uid = req.user?.claims?.sub || req.user?.id;
-        console.log('[API][ENGINE][VAULT_CREATE] session auth detected', { uid });
-      } else {
-        const auth = (req.headers?.authorization || '') as string;
-        if (auth.startsWith('Bearer ')) {
-          const idToken = auth.replace('Bearer ', '');
-          try {
-            if (!admin.apps || admin.apps.length === 0) {
-              try {
-                const loadSvc = () => {
-                  const rawJson = process.env.SERVICE_ACCOUNT_JSON || process.env.FIREBASE_SERVICE_ACCOUNT;
-                  if (rawJson) {
-                    try { return JSON.parse(rawJson); } catch (e) { }
-                  }
-                  const b64 = process.env.SERVICE_ACCOUNT_BASE64 || process.env.SERVICEACC_B64 || process.env.SERVICE_JSON_B64;
-                  if (b64) {
-                    try { return JSON.parse(Buffer.from(b64, 'base64').toString('utf8')); } catch (e) { }
-                  }
-                  try { return require('../serviceacc.json'); } catch (e) { return null; }
-                };
-                const svc = loadSvc();
-                if (svc) {
-                  admin.initializeApp({ credential: admin.credential.cert(svc as any) });
-                } else {
-                  try { admin.initializeApp(); } catch { }
-                }
-              } catch (e) {
-                try { admin.initializeApp(); } catch { }
-              }
-            }
-            const decoded = await admin.auth().verifyIdToken(idToken);
-            uid = decoded?.uid;
-            console.log('[API][ENGINE][VAULT_CREATE] firebase token verified', { uid });
-          } catch (e) {
-            console.error('[API][ENGINE][VAULT_CREATE] Firebase token verification failed', e);
-            uid = null;
-          }
-        }
-      }
+  // Current params, pending timelocked changes and param history for a vault (?limit= history entries)
+  app.get('/api/engine/vaults/:vaultId/params', async (req: any, res) => {
+    try {
+      const vaultId = String(req.params.vaultId);
+      const snap = await getAdminDb().ref(`/vaults/${vaultId}`).get();
+      if (!snap.exists()) return res.status(404).json({ success: false, error: 'vault_not_found' });
+      const limit = req.query?.limit != null ? Number(req.query.limit) : undefined;
+      if (limit != null && (!Number.isFinite(limit) || limit <= 0)) return res.status(400).json({ success: false, error: 'invalid limit' });
+      const vaultParams = await import('./lib/vaultParams');
+      const vault = snap.val();
+      const pending = Object.values(vault.pendingParams || {}).sort((a: any, b: any) => a.effectiveAt - b.effectiveAt);
+      const history = await vaultParams.getParamHistory(vaultId, { limit });
+      return res.json({ success: true, vaultId, params: vault.params || {}, pending, timelockMs: vaultParams.paramTimelockMs(), history });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/:vaultId/params error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-      // Fallback to session user set by /api/auth/wallet-connect
-      if (!uid && req.session && req.session.user) {
-        uid = req.session.user.id || req.session.user?.publicKey || null;
-        console.log('[API][ENGINE][VAULT_CREATE] wallet-session detected', { uid });
-      }
+  // Propose new vault params: applied now unless a change hurts traders or LPs, else timelocked
+  app.post('/api/engine/vaults/params/propose', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'VAULT_PARAMS_PROPOSE');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, params } = req.body || {};
+      if (!vaultId || !params || typeof params !== 'object') return res.status(400).json({ success: false, error: 'vaultId and params required' });
+      const vaultParams = await import('./lib/vaultParams');
+      const result = await vaultParams.proposeParams(String(vaultId), { uid, admin: (await resolveEngineAdminUid(req, 'VAULT_PARAMS_PROPOSE')) === uid }, params);
+      return res.json({ success: true, vaultId, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/params/propose error', err);
+      return sendVaultParamsError(res, err);
+    }
+  });
+
+  // Apply a timelocked param change once its effectiveAt has passed
+  app.post('/api/engine/vaults/params/execute', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'VAULT_PARAMS_EXECUTE');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, changeId } = req.body || {};
+      if (!vaultId || !changeId) return res.status(400).json({ success: false, error: 'vaultId and changeId required' });
+      const vaultParams = await import('./lib/vaultParams');
+      const result = await vaultParams.executeParamChange(String(vaultId), String(changeId), { uid, admin: (await resolveEngineAdminUid(req, 'VAULT_PARAMS_EXECUTE')) === uid });
+      return res.json({ success: true, vaultId, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/params/execute error', err);
+      return sendVaultParamsError(res, err);
+    }
+  });
+
+  app.post('/api/engine/vaults/params/cancel', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'VAULT_PARAMS_CANCEL');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, changeId } = req.body || {};
+      if (!vaultId || !changeId) return res.status(400).json({ success: false, error: 'vaultId and changeId required' });
+      const vaultParams = await import('./lib/vaultParams');
+      const cancelled = await vaultParams.cancelParamChange(String(vaultId), String(changeId), { uid, admin: (await resolveEngineAdminUid(req, 'VAULT_PARAMS_CANCEL')) === uid });
+      return res.json({ success: true, vaultId, cancelled });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/params/cancel error', err);
+      return sendVaultParamsError(res, err);
+    }
+  });
+
+  // The caller's 30-day trade volume, fee tier and the platform's tier table
+  app.get('/api/engine/fee-tier', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'FEE_TIER');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const platformConfig = await import('./lib/platformConfig');
+      const { feeTiers } = await platformConfig.getPlatformConfig();
+      return res.json({ success: true, feeTier: await getTraderFeeTier(uid), feeTiers });
+    } catch (err: any) {
+      console.error('/api/engine/fee-tier error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Create the caller's referral code (body `code` to choose one); returns the existing code if they have one
+  app.post('/api/engine/referrals/create', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'REFERRAL_CREATE');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const referrals = await import('./lib/referrals');
+      const { code, created } = await referrals.createReferralCode(uid, req.body?.code ?? null);
+      return res.json({ success: true, uid, code, created });
+    } catch (err: any) {
+      console.error('/api/engine/referrals/create error', err);
+      return sendReferralError(res, err);
+    }
+  });
+
+  // Redeem a referral code for the caller (signups that did not pass one at wallet connect)
+  app.post('/api/engine/referrals/redeem', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'REFERRAL_REDEEM');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { code } = req.body || {};
+      if (!code) return res.status(400).json({ success: false, error: 'code required' });
+      const referral = await redeemReferralCode(uid, String(code));
+      return res.json({ success: true, uid, referral });
+    } catch (err: any) {
+      console.error('/api/engine/referrals/redeem error', err);
+      return sendReferralError(res, err);
+    }
+  });
+
+  // The caller's referral code, referred volume and rebate earnings, plus their referees (?limit=)
+  app.get('/api/engine/referrals/stats', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'REFERRAL_STATS');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const limit = req.query?.limit != null ? Number(req.query.limit) : undefined;
+      const referrals = await import('./lib/referrals');
+      const [stats, referees, referredBy] = await Promise.all([
+        referrals.getReferrerStats(uid),
+        referrals.listReferees(uid, { limit: Number.isFinite(limit) ? limit : undefined }),
+        referrals.getReferral(uid),
+      ]);
+      return res.json({ success: true, uid, stats, referees, referredBy });
+    } catch (err: any) {
+      console.error('/api/engine/referrals/stats error', err);
+      return sendReferralError(res, err);
+    }
+  });
+
+  // Move the caller's claimable referral rebates into their balance
+  app.post('/api/engine/referrals/claim', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'REFERRAL_CLAIM');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const claims = await import('./lib/claims');
+      const claim = await claims.claimReferralRebates(uid);
+      return res.json({ success: true, claimed: claim.amountSol, feeId: claim.feeId, uid });
+    } catch (err: any) {
+      console.error('/api/engine/referrals/claim error', err);
+      return sendReferralError(res, err);
+    }
+  });
 
-      // Allow client to provide `userId` (wallet public key stored as user id in Firebase)
-      // This is used when no session or idToken is available (wallet-only flow).
-      if (!uid && req.body && req.body.userId) {
-        uid = String(req.body.userId);
-        console.log('[API][ENGINE][VAULT_CREATE] using userId from body as uid', { uid });
+  // Insurance fund balance and recent bad debt events (?vaultId= to filter, ?limit=)
+  app.get('/api/engine/insurance', async (req: any, res) => {
+    try {
+      const limit = req.query?.limit != null ? Number(req.query.limit) : undefined;
+      if (limit != null && (!Number.isFinite(limit) || limit <= 0)) return res.status(400).json({ success: false, error: 'invalid limit' });
+      const vaultId = req.query?.vaultId ? String(req.query.vaultId) : undefined;
+      const insurance = await import('./lib/insurance');
+      const fund = await insurance.getInsuranceFund();
+      const badDebt = await insurance.listBadDebt({ vaultId, limit });
+      return res.json({ success: true, fund, badDebt });
+    } catch (err: any) {
+      console.error('/api/engine/insurance error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Rebuild a ledger account's balance from the journal and compare it with the stored balance
+  // (?entries=true for its latest journal entries, ?limit=). Users can read their own accounts; admins any.
+  app.get('/api/engine/ledger/accounts/:account', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'LEDGER_ACCOUNT');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const account = String(req.params.account);
+      const own = account === ledgerAccount.user(uid) || account === ledgerAccount.referral(uid);
+      if (!own && (await resolveEngineAdminUid(req, 'LEDGER_ACCOUNT')) !== uid) return res.status(403).json({ success: false, error: 'forbidden' });
+      const limit = req.query?.limit != null ? Number(req.query.limit) : undefined;
+      if (limit != null && (!Number.isFinite(limit) || limit <= 0)) return res.status(400).json({ success: false, error: 'invalid limit' });
+      const ledger = await import('./lib/ledger');
+      const balance = await ledger.rebuildAccountBalance(account);
+      const entries = req.query?.entries === 'true' ? await ledger.listAccountEntries(account, { limit }) : undefined;
+      return res.json({ success: true, ...balance, entries });
+    } catch (err: any) {
+      console.error('/api/engine/ledger/accounts/:account error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Platform-wide engine settings (engine admins only)
+  app.get('/api/engine/admin/platform-config', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineAdminUid(req, 'PLATFORM_CONFIG');
+      if (!uid) return res.status(403).json({ success: false, error: 'admin only' });
+      const platformConfig = await import('./lib/platformConfig');
+      return res.json({ success: true, config: await platformConfig.getPlatformConfig() });
+    } catch (err: any) {
+      console.error('/api/engine/admin/platform-config error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  app.post('/api/engine/admin/platform-config', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineAdminUid(req, 'PLATFORM_CONFIG');
+      if (!uid) return res.status(403).json({ success: false, error: 'admin only' });
+      const { config } = req.body || {};
+      if (!config || typeof config !== 'object') return res.status(400).json({ success: false, error: 'config required' });
+      const platformConfig = await import('./lib/platformConfig');
+      return res.json({ success: true, config: await platformConfig.updatePlatformConfig(config, uid) });
+    } catch (err: any) {
+      console.error('/api/engine/admin/platform-config error', err);
+      if (err?.message === 'invalid_config') return res.status(400).json({ success: false, error: err.message, reasons: err.reasons });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Engine sagas (see lib/saga.ts), for finding opens and closes a crash left
+  // half-finished. `status=STUCK` lists the ones that need an admin.
+  app.get('/api/engine/admin/sagas', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineAdminUid(req, 'SAGAS');
+      if (!uid) return res.status(403).json({ success: false, error: 'admin only' });
+      const status = req.query?.status ? String(req.query.status) : undefined;
+      if (status && !['RUNNING', 'DONE', 'COMPENSATED', 'STUCK'].includes(status)) return res.status(400).json({ success: false, error: 'invalid status' });
+      const limit = req.query?.limit != null ? Number(req.query.limit) : undefined;
+      const sagas = await listSagas({ status: status as SagaStatus | undefined, limit: Number.isFinite(limit) ? limit : undefined });
+      return res.json({ success: true, sagas, recovery: sagaRecovery.getStatus() });
+    } catch (err: any) {
+      console.error('/api/engine/admin/sagas error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  app.get('/api/engine/admin/sagas/:sagaId', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineAdminUid(req, 'SAGAS');
+      if (!uid) return res.status(403).json({ success: false, error: 'admin only' });
+      const saga = await getSaga(String(req.params.sagaId));
+      if (!saga) return res.status(404).json({ success: false, error: 'saga_not_found' });
+      return res.json({ success: true, saga });
+    } catch (err: any) {
+      console.error('/api/engine/admin/sagas/:sagaId error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Recover a stale or STUCK saga now. For a STUCK saga, send `step` and
+  // `landed` once you have checked whether its in-doubt write went through.
+  app.post('/api/engine/admin/sagas/:sagaId/recover', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineAdminUid(req, 'SAGAS');
+      if (!uid) return res.status(403).json({ success: false, error: 'admin only' });
+      const { step, landed } = req.body || {};
+      if (step != null && typeof landed !== 'boolean') return res.status(400).json({ success: false, error: 'landed (boolean) required with step' });
+      const result = await sagaRecovery.recover(String(req.params.sagaId), step != null ? { step: String(step), landed } : undefined);
+      return res.json({ success: !result.error, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/admin/sagas/:sagaId/recover error', err);
+      if (err?.message === 'saga_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (['saga_not_recoverable', 'step_not_in_doubt'].includes(err?.message)) return res.status(409).json({ success: false, error: err.message });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Move a vault between ACTIVE, PAUSED and CLOSE_ONLY (vault creator or engine admin)
+  app.post('/api/engine/vaults/status', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'VAULT_STATUS');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, status, reason } = req.body || {};
+      if (!vaultId || !isVaultStatus(status)) return res.status(400).json({ success: false, error: 'vaultId and a valid status required' });
+      const lifecycle = await import('./lib/lifecycle');
+      const result = await lifecycle.setVaultStatus(String(vaultId), status, { uid, admin: (await resolveEngineAdminUid(req, 'VAULT_STATUS')) === uid }, { reason: reason != null ? String(reason) : undefined });
+      return res.json({ success: true, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/status error', err);
+      if (err?.message === 'vault_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (err?.message === 'not_creator') return res.status(403).json({ success: false, error: err.message });
+      if (err?.message === 'invalid_status_transition') return res.status(409).json({ success: false, error: err.message, from: err.from, to: err.to });
+      if (err?.message === 'use_wind_down') return res.status(400).json({ success: false, error: err.message });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Wind down a CLOSE_ONLY vault: force-settle its positions and pay out its LPs.
+  // Only an engine admin may supply `settlePriceUsd` for tokens with no mark left.
+  app.post('/api/engine/vaults/wind-down', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'VAULT_WIND_DOWN');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, settlePriceUsd } = req.body || {};
+      if (!vaultId) return res.status(400).json({ success: false, error: 'vaultId required' });
+      const admin = (await resolveEngineAdminUid(req, 'VAULT_WIND_DOWN')) === uid;
+      let settle: number | undefined = undefined;
+      if (settlePriceUsd != null) {
+        if (!admin) return res.status(403).json({ success: false, error: 'settlePriceUsd requires an engine admin' });
+        settle = Number(settlePriceUsd);
+        if (!Number.isFinite(settle) || settle < 0) return res.status(400).json({ success: false, error: 'invalid settlePriceUsd' });
+      }
+      const lifecycle = await import('./lib/lifecycle');
+      const result = await lifecycle.windDownVault(String(vaultId), { uid, admin }, { settlePriceUsd: settle });
+      return res.status(result.complete ? 200 : 409).json({ success: result.complete, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/wind-down error', err);
+      if (err?.message === 'vault_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (err?.message === 'not_creator') return res.status(403).json({ success: false, error: err.message });
+      if (['vault_not_close_only', 'vault_wound_down', 'positions_still_open'].includes(err?.message)) {
+        return res.status(409).json({ success: false, error: err.message });
       }
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
+  // Create a new vault (PADD) - accept session auth, Firebase idToken, or wallet-session
+  app.post("/api/engine/vaults/create", async (req: any, res) => {
+    try {
+      console.log('[API][ENGINE][VAULT_CREATE] incoming', { path: req.path });
+
+      const uid = await resolveEngineUid(req, 'VAULT_CREATE');
       if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
 
       const { mint, params, name, currency } = req.body || {};
@@ -1828,7 +2413,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // If the client provided an initial SOL amount as part of the create request,
       // attempt to deduct it from the user's stored off-chain balance atomically
-      const initialSol = Number(req.body?.initialAmount ?? req.body?.amountSol ?? 0) || 0;
+      const initialSol = roundSol(Number(req.body?.initialAmount ?? req.body?.amountSol ?? 0) || 0);
       if (initialSol > 0) {
         try {
           const db = getAdminDb();
@@ -1868,6 +2453,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       try {
         const result = await engine.createVault(String(mint), String(uid), params, name, currency);
+        if (result?.ok && initialSol > 0) {
+          await recordJournal('vault_create_deposit', { type: 'vault', id: result.vaultId }, [{ from: ledgerAccount.user(String(uid)), to: ledgerAccount.vault(result.vaultId), amountSol: initialSol }]);
+        }
         if (!result || !result.ok) {
           // refund deducted initial amount if present
           if (initialSol > 0) {
@@ -1904,67 +2492,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Deposit into a vault (creator deposit or contributor deposit) - accepts same auth methods
-  app.post('/api/engine/vaults/deposit', async (req: any, res) => {
+  app.post('/api/engine/vaults/deposit', idempotent('VAULT_DEPOSIT'), async (req: any, res) => {
     try {
       console.log('[API][ENGINE][VAULT_DEPOSIT] incoming', { path: req.path });
 
-      let uid: string | undefined | null = undefined;
-      if (req.isAuthenticated && typeof req.isAuthenticated === 'function' && req.isAuthenticated()) {
-        uid = req.user?.claims?.sub || req.user?.id;
-      } else {
-        const auth = (req.headers?.authorization || '') as string;
-        if (auth.startsWith('Bearer ')) {
-          const idToken = auth.replace('Bearer ', '');
-          try {
-            if (!admin.apps || admin.apps.length === 0) {
-              try {
-                const loadSvc = () => {
-                  const rawJson = process.env.SERVICE_ACCOUNT_JSON || process.env.FIREBASE_SERVICE_ACCOUNT;
-                  if (rawJson) {
-                    try { return JSON.parse(rawJson); } catch (e) { }
-                  }
-                  const b64 = process.env.SERVICE_ACCOUNT_BASE64 || process.env.SERVICEACC_B64 || process.env.SERVICE_JSON_B64;
-                  if (b64) {
-                    try { return JSON.parse(Buffer.from(b64, 'base64').toString('utf8')); } catch (e) { }
-                  }
-                  try { return require('../serviceacc.json'); } catch (e) { return null; }
-                };
-                const svc = loadSvc();
-                if (svc) {
-                  admin.initializeApp({ credential: admin.credential.cert(svc as any) });
-                } else {
-                  try { admin.initializeApp(); } catch { }
-                }
-              } catch (e) {
-                try { admin.initializeApp(); } catch { }
-              }
-            }
-            const decoded = await admin.auth().verifyIdToken(idToken);
-            uid = decoded?.uid;
-          } catch (e) {
-            console.error('[API][ENGINE][VAULT_DEPOSIT] Firebase token verification failed', e);
-            uid = null;
-          }
-        }
-      }
-      if (!uid && req.session && req.session.user) {
-        uid = req.session.user.id || req.session.user?.publicKey || null;
-        console.log('[API][ENGINE][VAULT_DEPOSIT] wallet-session detected', { uid });
-      }
-
-      // Allow client to provide `userId` in deposit requests when no session or idToken is present
-      if (!uid && req.body && req.body.userId) {
-        uid = String(req.body.userId);
-        console.log('[API][ENGINE][VAULT_DEPOSIT] using userId from body as uid', { uid });
-      }
-
+      const uid = await resolveEngineUid(req, 'VAULT_DEPOSIT');
       if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
 
       const { vaultId: bodyVaultId, mint: bodyMint, amountSol, feeKeepPct } = req.body || {};
       const mint = (bodyVaultId && String(bodyVaultId).trim() !== '') ? bodyVaultId : bodyMint;
-      const amt = Number(amountSol);
+      const amt = Number.isFinite(Number(amountSol)) ? roundSol(Number(amountSol)) : NaN;
       if (!mint || !Number.isFinite(amt) || amt <= 0) return res.status(400).json({ success: false, error: 'invalid vaultId/mint or amount' });
 
+      // Reject before touching the balance when the vault no longer takes deposits
+      try {
+        const vaultSnap = await getAdminDb().ref(`/vaults/${mint}`).get();
+        if (vaultSnap.exists() && !canDeposit(vaultSnap.val())) {
+          return res.status(409).json({ success: false, error: 'vault_not_accepting_deposits', vaultStatus: vaultStatus(vaultSnap.val()) });
+        }
+      } catch (e) {
+        console.warn('[API][ENGINE][VAULT_DEPOSIT] failed to read vault status', e);
+      }
+
       // Atomically deduct the user's stored balance (off-chain) before performing the deposit
       try {
         const db = getAdminDb();
@@ -2050,66 +2599,122 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Claim fees endpoint
-  app.post('/api/engine/vaults/claim-fees', async (req: any, res) => {
+  // Withdraw LP capital. Up to the caller's share of unborrowed liquidity is paid to their
+  // balance now; the rest is queued (unless `queue: false`) and filled as liquidity frees up.
+  app.post('/api/engine/vaults/withdraw', async (req: any, res) => {
     try {
-      const { vaultId, uid } = req.body;
-
-      if (!vaultId || !uid) {
-        return res.status(400).json({ success: false, error: 'vaultId and uid are required' });
+      const uid = await resolveEngineUid(req, 'VAULT_WITHDRAW');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, amountSol, queue } = req.body || {};
+      const amt = Number(amountSol);
+      if (!vaultId || !Number.isFinite(amt) || amt <= 0) return res.status(400).json({ success: false, error: 'vaultId and amountSol required' });
+      const withdrawals = await import('./lib/withdrawals');
+      const result = await withdrawals.withdrawFromVault(String(vaultId), uid, amt, { queue: queue !== false });
+      return res.json({ success: true, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/withdraw error', err);
+      if (err?.message === 'vault_not_found') return res.status(404).json({ success: false, error: err.message });
+      if (['withdraw_exceeds_deposit', 'insufficient_vault_liquidity'].includes(err?.message)) {
+        return res.status(400).json({ success: false, error: err.message, maxWithdrawSol: err.maxWithdrawSol });
       }
+      if (['not_a_depositor', 'invalid_amount'].includes(err?.message)) return res.status(400).json({ success: false, error: err.message });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-      console.log('[API][ENGINE][CLAIM_FEES] request', { vaultId, uid });
-
-      const db = getAdminDb();
-
-      // Get vault and verify user is the creator
-      const vaultRef = db.ref(`/vaults/${vaultId}`);
-      const vaultSnap = await vaultRef.once('value');
-      const vault = vaultSnap.val();
+  // The caller's withdrawal requests on a vault, newest first
+  app.get('/api/engine/vaults/withdrawals', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'VAULT_WITHDRAWALS');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const vaultId = req.query?.vaultId ? String(req.query.vaultId) : null;
+      if (!vaultId) return res.status(400).json({ success: false, error: 'vaultId required' });
+      const withdrawals = await import('./lib/withdrawals');
+      const list = await withdrawals.listWithdrawals(vaultId, { uid });
+      return res.json({ success: true, withdrawals: list });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/withdrawals error', err);
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-      if (!vault) {
-        return res.status(404).json({ success: false, error: 'Vault not found' });
-      }
+  // Cancel the unfilled part of a queued withdrawal
+  app.post('/api/engine/vaults/withdraw/cancel', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'VAULT_WITHDRAW_CANCEL');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId, requestId } = req.body || {};
+      if (!vaultId || !requestId) return res.status(400).json({ success: false, error: 'vaultId and requestId required' });
+      const withdrawals = await import('./lib/withdrawals');
+      const request = await withdrawals.cancelQueuedWithdrawal(String(vaultId), uid, String(requestId));
+      return res.json({ success: true, request });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/withdraw/cancel error', err);
+      if (err?.message === 'withdrawal_not_queued') return res.status(409).json({ success: false, error: err.message });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
 
-      const creatorUid = vault?.composition?.creatorUid || vault?.creatorUid;
-      if (creatorUid !== uid) {
-        return res.status(403).json({ success: false, error: 'Only vault creator can claim fees' });
-      }
+  // Claim fees endpoint (vault creator: feesForCreator -> balance)
+  app.post('/api/engine/vaults/claim-fees', idempotent('CLAIM_FEES'), async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'CLAIM_FEES');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId } = req.body || {};
 
-      const feesForCreator = Number(vault.feesForCreator) || 0;
-      if (feesForCreator <= 0) {
-        return res.status(400).json({ success: false, error: 'No fees to claim' });
+      if (!vaultId) {
+        return res.status(400).json({ success: false, error: 'vaultId is required' });
       }
 
-      console.log('[API][ENGINE][CLAIM_FEES] claiming fees', { vaultId, uid, feesForCreator });
-
-      // Add fees to user balance
-      const balanceRef = db.ref(`/users/${uid}/balance`);
-      await balanceTx.transactionWithReadGuard(
-        balanceRef,
-        (cur) => {
-          const currentBalance = Number(cur) || 0;
-          return currentBalance + feesForCreator;
-        },
-        { attempts: 6, backoffMs: 50, tag: 'claim_fees' }
-      );
-
-      console.log('[API][ENGINE][CLAIM_FEES] added fees to user balance', { uid, feesForCreator });
-
-      // Reset feesForCreator to 0 in vault
-      await vaultRef.child('feesForCreator').set(0);
-      console.log('[API][ENGINE][CLAIM_FEES] reset vault feesForCreator to 0', { vaultId });
+      console.log('[API][ENGINE][CLAIM_FEES] request', { vaultId, uid });
+      const claims = await import('./lib/claims');
+      const claim = await claims.claimCreatorFees(String(vaultId), uid);
 
       return res.json({
         success: true,
-        claimed: feesForCreator,
+        claimed: claim.amountSol,
+        feeId: claim.feeId,
         vaultId,
         uid
       });
 
     } catch (err: any) {
       console.error('[API][ENGINE][CLAIM_FEES] error', err);
+      if (err?.message === 'vault_not_found') return res.status(404).json({ success: false, error: 'Vault not found' });
+      if (err?.message === 'not_creator') return res.status(403).json({ success: false, error: 'Only vault creator can claim fees' });
+      if (err?.message === 'no_fees_to_claim') return res.status(400).json({ success: false, error: 'No fees to claim' });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Contributor fee claim: moves the caller's `claimable` on one vault into their balance
+  app.post('/api/engine/vaults/claim-contributor-fees', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'CLAIM_CONTRIBUTOR_FEES');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const { vaultId } = req.body || {};
+      if (!vaultId) return res.status(400).json({ success: false, error: 'vaultId required' });
+      const claims = await import('./lib/claims');
+      const claim = await claims.claimContributorFees(String(vaultId), uid);
+      return res.json({ success: true, claimed: claim.amountSol, feeId: claim.feeId, vaultId, uid });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/claim-contributor-fees error', err);
+      if (err?.message === 'not_a_contributor') return res.status(403).json({ success: false, error: err.message });
+      if (err?.message === 'no_fees_to_claim') return res.status(400).json({ success: false, error: err.message });
+      return res.status(500).json({ success: false, error: err?.message || String(err) });
+    }
+  });
+
+  // Claim every creator and contributor fee the caller has accrued, across all vaults
+  app.post('/api/engine/vaults/claim-all', async (req: any, res) => {
+    try {
+      const uid = await resolveEngineUid(req, 'CLAIM_ALL_FEES');
+      if (!uid) return res.status(401).json({ success: false, error: 'unauthenticated' });
+      const claims = await import('./lib/claims');
+      const result = await claims.claimAllFees(uid);
+      return res.json({ success: true, uid, ...result });
+    } catch (err: any) {
+      console.error('/api/engine/vaults/claim-all error', err);
       return res.status(500).json({ success: false, error: err?.message || String(err) });
     }
   });
@@ -0,0 +1,50 @@
+import 'dotenv/config';
+import { getAdminDb } from '../lib/firebaseAdmin';
+import { roundSol } from '../lib/lamports';
+import { lamportMigrationFixes } from '../lib/lamportMigration';
+
+// Round SOL amounts stored before lamport accounting to whole lamports.
+// Dry run by default; pass --apply to write the changes.
+async function main() {
+    const apply = process.argv.includes('--apply');
+    const db = getAdminDb();
+    const read = async (path: string) => {
+        const snap = await db.ref(path).get();
+        return snap.exists() ? snap.val() : null;
+    };
+
+    const fixes = lamportMigrationFixes({
+        users: await read('/users'),
+        vaults: await read('/vaults'),
+        positions: await read('/positions'),
+        orders: await read('/orders'),
+        treasuryFees: await read('/platform/treasury/fees'),
+        insurance: await read('/platform/insurance'),
+    });
+    const dustSol = fixes.reduce((s, f) => s + (f.to - f.from), 0);
+    console.log(`${fixes.length} amount(s) to round, net change ${dustSol} SOL`);
+    for (const f of fixes) console.log(`  ${f.path}: ${f.from} -> ${f.to}`);
+
+    if (!apply) {
+        console.log('Dry run; re-run with --apply to write these changes.');
+        process.exit(0);
+    }
+
+    // Round each leaf in its own transaction so a concurrent engine write is never overwritten
+    let failed = 0;
+    for (const f of fixes) {
+        const res = await db.ref(f.path).transaction((cur: any) => (typeof cur === 'number' && Number.isFinite(cur) ? roundSol(cur) : cur));
+        if (!res.committed) {
+            failed++;
+            console.warn(`  failed to update ${f.path}`);
+        }
+    }
+    await db.ref('/platform/migrations/lamports').set({ appliedAt: Date.now(), fixed: fixes.length - failed, failed });
+    console.log(`Rounded ${fixes.length - failed} amount(s), ${failed} failed.`);
+    process.exit(failed ? 1 : 0);
+}
+
+main().catch((err) => {
+    console.error('Lamport migration failed:', err);
+    process.exit(1);
+});
@@ -0,0 +1,53 @@
+import 'dotenv/config';
+import { getAdminDb } from '../lib/firebaseAdmin';
+import { openingBalanceTransfers, postingsFor, recordJournal } from '../lib/ledger';
+
+// Open the balance journal at the balances stored before it existed, as one
+// `opening_balance` entry from the `external` account. Runs once; dry run by
+// default, pass --apply to write the entry.
+async function main() {
+    const apply = process.argv.includes('--apply');
+    const db = getAdminDb();
+    const read = async (path: string) => {
+        const snap = await db.ref(path).get();
+        return snap.exists() ? snap.val() : null;
+    };
+
+    const done = await read('/platform/migrations/ledger');
+    if (done) {
+        console.log(`Ledger already seeded at ${new Date(done.appliedAt).toISOString()} (entry ${done.entryId}).`);
+        process.exit(0);
+    }
+
+    const transfers = openingBalanceTransfers({
+        users: await read('/users'),
+        vaults: await read('/vaults'),
+        positions: await read('/positions'),
+        orders: await read('/orders'),
+        referrals: await read('/referrals'),
+        treasuryFees: await read('/platform/treasury/fees'),
+        insurance: await read('/platform/insurance'),
+    });
+    const postings = postingsFor(transfers).filter((p) => p.account !== 'external');
+    console.log(`${postings.length} account(s) to open`);
+    for (const p of postings) console.log(`  ${p.account}: ${p.creditSol - p.debitSol}`);
+
+    if (!apply) {
+        console.log('Dry run; re-run with --apply to write the opening entry.');
+        process.exit(0);
+    }
+
+    const entry = await recordJournal('opening_balance', { type: 'migration', id: 'ledger' }, transfers);
+    if (!entry) {
+        console.error('Failed to write the opening entry.');
+        process.exit(1);
+    }
+    await db.ref('/platform/migrations/ledger').set({ appliedAt: entry.ts, entryId: entry.entryId, accounts: postings.length });
+    console.log(`Opened ${postings.length} account(s) in entry ${entry.entryId}.`);
+    process.exit(0);
+}
+
+main().catch((err) => {
+    console.error('Ledger seed failed:', err);
+    process.exit(1);
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { claimAllFees, claimContributorFees, claimCreatorFees } from '../lib/claims';
+import { ledgerAccount, listAccountEntries } from '../lib/ledger';
+import { MemoryStore } from '../lib/memoryStore';
+import { setStore } from '../lib/store';
+
+function seed() {
+    return new MemoryStore({
+        vaults: {
+            v1: {
+                creatorUid: 'creator',
+                feesForCreator: 0.5,
+                composition: { contributors: { alice: { uid: 'alice', shares: 4, claimable: 0.2 } } },
+            },
+            v2: {
+                creatorUid: 'alice',
+                feesForCreator: 0.3,
+                composition: { contributors: { bob: { uid: 'bob', shares: 1, claimable: 0.1 } } },
+            },
+        },
+        referrals: { alice: { claimableSol: 0.05 } },
+        users: { alice: { balance: 1 } },
+    });
+}
+
+let store: MemoryStore;
+
+beforeEach(() => {
+    store = seed();
+    setStore(store);
+});
+
+afterEach(() => {
+    setStore(null);
+});
+
+describe('claimContributorFees', () => {
+    it('moves the contributor share to their balance and records the claim', async () => {
+        const res = await claimContributorFees('v1', 'alice');
+        expect(res).toMatchObject({ vaultId: 'v1', role: 'contributor', amountSol: 0.2 });
+        expect(store.value('/users/alice/balance')).toBe(1.2);
+        expect(store.value('/vaults/v1/composition/contributors/alice/claimable')).toBe(0);
+        expect(store.value(`/fees/${res.feeId}`)).toMatchObject({ event: 'CLAIM', role: 'contributor', uid: 'alice', vaultId: 'v1', amountSol: 0.2 });
+
+        const [entry] = await listAccountEntries(ledgerAccount.user('alice'));
+        expect(entry).toMatchObject({ reason: 'fee_claim', ref: { type: 'fee', id: res.feeId } });
+    });
+
+    it('refuses a non-contributor', async () => {
+        await expect(claimContributorFees('v1', 'bob')).rejects.toThrow('not_a_contributor');
+    });
+
+    it('has nothing to claim twice', async () => {
+        await claimContributorFees('v1', 'alice');
+        await expect(claimContributorFees('v1', 'alice')).rejects.toThrow('no_fees_to_claim');
+        expect(store.value('/users/alice/balance')).toBe(1.2);
+    });
+});
+
+describe('claimCreatorFees', () => {
+    it('has nothing to claim once the fees are taken', async () => {
+        await claimCreatorFees('v1', 'creator');
+        await expect(claimCreatorFees('v1', 'creator')).rejects.toThrow('no_fees_to_claim');
+    });
+});
+
+describe('claimAllFees', () => {
+    it('claims every role across vaults plus referral rebates', async () => {
+        const res = await claimAllFees('alice');
+        expect(res.failed).toEqual([]);
+        expect(res.claims.map((c) => `${c.vaultId}:${c.role}`).sort()).toEqual(['null:referrer', 'v1:contributor', 'v2:creator']);
+        expect(res.totalSol).toBe(0.55);
+        expect(store.value('/users/alice/balance')).toBe(1.55);
+        expect(store.value('/referrals/alice')).toMatchObject({ claimableSol: 0, claimedSol: 0.05 });
+        for (const c of res.claims) {
+            expect(store.value(`/fees/${c.feeId}`)).toMatchObject({ event: 'CLAIM', role: c.role, amountSol: c.amountSol });
+        }
+    });
+
+    it('skips vaults with nothing accrued', async () => {
+        await claimAllFees('alice');
+        const res = await claimAllFees('alice');
+        expect(res).toEqual({ totalSol: 0, claims: [], failed: [] });
+    });
+});
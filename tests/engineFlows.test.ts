@@ -0,0 +1,296 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { claimCreatorFees } from '../lib/claims';
+import { addMargin, closePosition, contributorDeposit, createVault, creatorDeposit, openLong, removeMargin, resolveCloseFraction } from '../lib/engine';
+import { MemoryStore } from '../lib/memoryStore';
+import { listSagas } from '../lib/saga';
+import { setStore } from '../lib/store';
+
+const TOKEN = 'TokenMint111';
+
+// 1 SOL = $100, 1 token = $0.01
+function seed() {
+    return new MemoryStore({
+        price_cache: {
+            WSOL_MINT: { priceUsd: 100, updatedAt: Date.now() },
+            [TOKEN]: { priceUsd: 0.01, updatedAt: Date.now() },
+        },
+        users: {
+            trader: { balance: 5 },
+        },
+    });
+}
+
+let store: MemoryStore;
+let vaultId: string;
+
+beforeEach(async () => {
+    store = seed();
+    setStore(store);
+    vaultId = (await createVault(TOKEN, 'creator', {}, 'Test vault')).vaultId;
+});
+
+afterEach(() => {
+    setStore(null);
+    vi.restoreAllMocks();
+});
+
+// Run `action` the first time the token mark is read, i.e. while a close is valuing the position
+function whileValuing(action: () => Promise<unknown>) {
+    const ref = store.ref.bind(store);
+    let armed = true;
+    vi.spyOn(store, 'ref').mockImplementation((path?: string) => {
+        const r = ref(path);
+        if (armed && path === `/price_cache/${TOKEN}`) {
+            armed = false;
+            const get = r.get.bind(r);
+            r.get = async () => {
+                await action();
+                return get();
+            };
+        }
+        return r;
+    });
+}
+
+describe('deposit', () => {
+    it('mints shares at par into a fresh vault', async () => {
+        const res = await creatorDeposit(vaultId, 10, 'creator');
+        expect(res.shares).toBeCloseTo(10);
+        const vault = store.value(`/vaults/${vaultId}`);
+        expect(vault.tvlSol).toBe(10);
+        expect(vault.composition.creator.shares).toBeCloseTo(10);
+    });
+
+    it('adds contributors alongside the creator', async () => {
+        await creatorDeposit(vaultId, 6, 'creator');
+        await contributorDeposit(vaultId, 4, 'alice', { feeKeepPct: 0.5 });
+        const vault = store.value(`/vaults/${vaultId}`);
+        expect(vault.tvlSol).toBe(10);
+        expect(vault.totalShares).toBeCloseTo(10);
+        expect(vault.composition.contributors.alice.keepPct).toBe(0.5);
+    });
+
+    it('keeps a committed deposit when its trade record fails', async () => {
+        const ref = store.ref.bind(store);
+        vi.spyOn(store, 'ref').mockImplementation((path?: string) => {
+            const r = ref(path);
+            if (path?.startsWith(`/trades/${vaultId}/`)) r.set = async () => { throw new Error('write_failed'); };
+            return r;
+        });
+        const res = await creatorDeposit(vaultId, 10, 'creator');
+        expect(res.shares).toBeCloseTo(10);
+        expect(store.value(`/vaults/${vaultId}/tvlSol`)).toBe(10);
+    });
+
+    it('only lets the creator make a creator deposit', async () => {
+        await expect(creatorDeposit(vaultId, 1, 'mallory')).rejects.toThrow('not creator');
+    });
+});
+
+describe('open and close', () => {
+    beforeEach(async () => {
+        await creatorDeposit(vaultId, 10, 'creator');
+    });
+
+    it('opens a long: takes collateral and fee, borrows from the vault', async () => {
+        const res = await openLong('trader', vaultId, 1, 20000);
+        expect(res.ok).toBe(true);
+        const position = store.value(`/positions/trader/${vaultId}/${res.posId}`);
+        expect(position).toMatchObject({ side: 'LONG', status: 'OPEN', collateralSol: 1, borrowSol: 1 });
+        expect(store.value('/users/trader/balance')).toBeCloseTo(5 - 1 - res.feeBreak.feeSol, 9);
+        expect(store.value(`/vaults/${vaultId}/totalBorrowsSol`)).toBe(1);
+
+        const [saga] = await listSagas({ limit: 10 });
+        expect(saga).toMatchObject({ kind: 'open', status: 'DONE', posId: res.posId });
+    });
+
+    it('refuses an open the balance cannot cover and leaves nothing borrowed', async () => {
+        await expect(openLong('trader', vaultId, 5, 20000)).rejects.toThrow('insufficient_balance');
+        expect(store.value('/users/trader/balance')).toBe(5);
+        expect(store.value(`/vaults/${vaultId}/totalBorrowsSol`)).toBe(0);
+        const [saga] = await listSagas({ limit: 10 });
+        expect(saga.status).toBe('COMPENSATED');
+        expect(store.value('/positions')).toBeNull();
+    });
+
+    it('closes a long at a profit and repays the vault', async () => {
+        const { posId } = await openLong('trader', vaultId, 1, 20000);
+        const balanceOpen = store.value('/users/trader/balance');
+        await store.ref(`/price_cache/${TOKEN}`).set({ priceUsd: 0.011, updatedAt: Date.now() });
+
+        const res = await closePosition('trader', vaultId, posId);
+        expect(res.pnlSol).toBeGreaterThan(0);
+        expect(store.value(`/positions/trader/${vaultId}/${posId}/status`)).toBe('CLOSED');
+        expect(store.value('/users/trader/balance')).toBeCloseTo(balanceOpen + res.userPayoutSol, 9);
+        expect(store.value(`/vaults/${vaultId}/totalBorrowsSol`)).toBe(0);
+        expect(store.value(`/trades/${vaultId}/${res.tradeId}`)).toMatchObject({ type: 'CLOSE LONG', posId });
+    });
+
+    it('covers booked interest from insurance but not a loss beyond collateral', async () => {
+        await store.ref('/platform/insurance').set({ fundSol: 1, contributedSol: 1, paidOutSol: 0 });
+        const { posId } = await openLong('trader', vaultId, 1, 20000);
+        const fundOpen = store.value('/platform/insurance/fundSol');
+        await store.ref(`/price_cache/${TOKEN}`).set({ priceUsd: 0.004, updatedAt: Date.now() });
+
+        const res = await closePosition('trader', vaultId, posId);
+        expect(res.userPayoutSol).toBe(0);
+        // Only the unpaid (booked) interest is covered
+        expect(store.value('/platform/insurance/fundSol')).toBeCloseTo(fundOpen, 6);
+        // The vault keeps the lost collateral; its lent SOL never left tvlSol
+        expect(store.value(`/vaults/${vaultId}/tvlSol`)).toBeCloseTo(11, 6);
+    });
+
+    it('prices the open from the server mark and rejects client prices off it', async () => {
+        const res = await openLong('trader', vaultId, 1, 20000, { entryPriceUsd: 0.0101 });
+        expect(res.position.entryPriceUsd).toBe(0.01);
+        await expect(openLong('trader', vaultId, 1, 20000, { entryPriceUsd: 0.005 })).rejects.toThrow('price_out_of_tolerance');
+        await expect(openLong('trader', vaultId, 1, 20000, { solPriceUsd: 50 })).rejects.toThrow('price_out_of_tolerance');
+    });
+
+    it('rejects a close whose client value strays from the mark', async () => {
+        const { posId } = await openLong('trader', vaultId, 1, 20000);
+        await expect(closePosition('trader', vaultId, posId, { currentValueSol: 3 })).rejects.toThrow('current_value_out_of_tolerance');
+        expect(store.value(`/positions/trader/${vaultId}/${posId}/status`)).toBe('OPEN');
+    });
+
+    it('settles on the collateral left after a margin withdrawal made while closing', async () => {
+        const { posId } = await openLong('trader', vaultId, 1, 20000);
+        whileValuing(() => removeMargin('trader', vaultId, posId, 0.3));
+        const res = await closePosition('trader', vaultId, posId);
+
+        expect(store.value(`/trades/${vaultId}/${res.tradeId}/collateralSol`)).toBe(0.7);
+        expect(store.value(`/positions/trader/${vaultId}/${posId}/status`)).toBe('CLOSED');
+        expect(store.value(`/vaults/${vaultId}/totalBorrowsSol`)).toBe(0);
+    });
+
+    it('refuses margin changes on a position being closed', async () => {
+        const { posId } = await openLong('trader', vaultId, 1, 20000);
+        const balanceOpen = store.value('/users/trader/balance');
+        await store.ref(`/positions/trader/${vaultId}/${posId}/status`).set('CLOSING');
+
+        await expect(addMargin('trader', vaultId, posId, 0.2)).rejects.toThrow('position_not_open');
+        await expect(removeMargin('trader', vaultId, posId, 0.2)).rejects.toThrow('position_not_open');
+        expect(store.value(`/positions/trader/${vaultId}/${posId}/collateralSol`)).toBe(1);
+        expect(store.value('/users/trader/balance')).toBe(balanceOpen);
+    });
+
+    it('pays a margin withdrawal to the user rather than back onto a position a close has claimed', async () => {
+        const { posId } = await openLong('trader', vaultId, 1, 20000);
+        const balanceOpen = store.value('/users/trader/balance');
+        const ref = store.ref.bind(store);
+        let armed = true;
+        vi.spyOn(store, 'ref').mockImplementation((path?: string) => {
+            const r = ref(path);
+            if (armed && path === '/users/trader/balance') {
+                armed = false;
+                // The first credit fails while a close claims the position
+                r.transaction = async () => {
+                    await ref(`/positions/trader/${vaultId}/${posId}/status`).set('CLOSING');
+                    return { committed: false, snapshot: await r.get() };
+                };
+            }
+            return r;
+        });
+
+        await removeMargin('trader', vaultId, posId, 0.3);
+        expect(store.value(`/positions/trader/${vaultId}/${posId}`)).toMatchObject({ status: 'CLOSING', collateralSol: 0.7 });
+        expect(store.value('/users/trader/balance')).toBeCloseTo(balanceOpen + 0.3, 9);
+    });
+
+    it('does not close the same position twice', async () => {
+        const { posId } = await openLong('trader', vaultId, 1, 20000);
+        await closePosition('trader', vaultId, posId);
+        await expect(closePosition('trader', vaultId, posId)).rejects.toThrow('position_not_open');
+    });
+});
+
+describe('resolveCloseFraction', () => {
+    it('closes everything without an amount', () => {
+        expect(resolveCloseFraction(100)).toBe(1);
+    });
+
+    it('takes a percentage or a token amount', () => {
+        expect(resolveCloseFraction(100, { closePct: 25 })).toBe(0.25);
+        expect(resolveCloseFraction(100, { closeSizeToken: 40 })).toBe(0.4);
+    });
+
+    it('rejects invalid and oversized amounts', () => {
+        for (const closePct of [0, -5, 101, NaN]) {
+            expect(() => resolveCloseFraction(100, { closePct })).toThrow('invalid_close_amount');
+        }
+        expect(() => resolveCloseFraction(100, { closeSizeToken: 0 })).toThrow('invalid_close_amount');
+        expect(() => resolveCloseFraction(100, { closeSizeToken: 100.1 })).toThrow('close_amount_exceeds_position');
+    });
+
+    it('rounds a close leaving only dust up to the whole position', () => {
+        expect(resolveCloseFraction(100, { closeSizeToken: 100 * (1 - 1e-12) })).toBe(1);
+        expect(resolveCloseFraction(100, { closePct: 99.9999999999 })).toBe(1);
+    });
+});
+
+describe('partial close', () => {
+    beforeEach(async () => {
+        await creatorDeposit(vaultId, 10, 'creator');
+    });
+
+    it('reduces collateral, borrow and size pro rata and leaves the rest open', async () => {
+        const { posId, position } = await openLong('trader', vaultId, 1, 20000);
+        const res = await closePosition('trader', vaultId, posId, { closePct: 25 });
+        expect(res).toMatchObject({ partial: true, closedFraction: 0.25 });
+
+        const remaining = store.value(`/positions/trader/${vaultId}/${posId}`);
+        expect(remaining).toMatchObject({ status: 'OPEN', collateralSol: 0.75, borrowSol: 0.75, partialCloses: 1 });
+        expect(remaining.sizeToken).toBeCloseTo(position.sizeToken * 0.75);
+        expect(store.value(`/vaults/${vaultId}/totalBorrowsSol`)).toBe(0.75);
+        expect(store.value(`/trades/${vaultId}/${res.tradeId}`)).toMatchObject({ type: 'PARTIAL CLOSE LONG', collateralSol: 0.25, borrowedSol: 0.25 });
+    });
+
+    it('closes by token amount', async () => {
+        const { posId, position } = await openLong('trader', vaultId, 1, 20000);
+        await closePosition('trader', vaultId, posId, { closeSizeToken: position.sizeToken / 2 });
+        expect(store.value(`/positions/trader/${vaultId}/${posId}`)).toMatchObject({ status: 'OPEN', collateralSol: 0.5, borrowSol: 0.5 });
+    });
+
+    it('closes the whole position when the remainder would be dust', async () => {
+        const { posId, position } = await openLong('trader', vaultId, 1, 20000);
+        const res = await closePosition('trader', vaultId, posId, { closeSizeToken: position.sizeToken * (1 - 1e-12) });
+        expect(res.partial).toBe(false);
+        expect(store.value(`/positions/trader/${vaultId}/${posId}/status`)).toBe('CLOSED');
+        expect(store.value(`/vaults/${vaultId}/totalBorrowsSol`)).toBe(0);
+    });
+
+    it('re-values a partial close when another one lands first', async () => {
+        const { posId } = await openLong('trader', vaultId, 1, 20000);
+        whileValuing(() => closePosition('trader', vaultId, posId, { closePct: 50 }));
+        const res = await closePosition('trader', vaultId, posId, { closePct: 50 });
+
+        expect(store.value(`/trades/${vaultId}/${res.tradeId}`)).toMatchObject({ collateralSol: 0.25, borrowedSol: 0.25 });
+        expect(store.value(`/positions/trader/${vaultId}/${posId}`)).toMatchObject({ status: 'OPEN', collateralSol: 0.25, borrowSol: 0.25, partialCloses: 2 });
+        expect(store.value(`/vaults/${vaultId}/totalBorrowsSol`)).toBe(0.25);
+    });
+
+    it('leaves the position untouched when the amount is too large', async () => {
+        const { posId, position } = await openLong('trader', vaultId, 1, 20000);
+        await expect(closePosition('trader', vaultId, posId, { closeSizeToken: position.sizeToken * 2 })).rejects.toThrow('close_amount_exceeds_position');
+        expect(store.value(`/positions/trader/${vaultId}/${posId}`)).toMatchObject({ status: 'OPEN', collateralSol: 1 });
+    });
+});
+
+describe('claim', () => {
+    it('moves accrued creator fees to the creator balance', async () => {
+        await creatorDeposit(vaultId, 10, 'creator');
+        await openLong('trader', vaultId, 1, 20000);
+        const accrued = store.value(`/vaults/${vaultId}/feesForCreator`);
+        expect(accrued).toBeGreaterThan(0);
+
+        const res = await claimCreatorFees(vaultId, 'creator');
+        expect(res.amountSol).toBe(accrued);
+        expect(store.value('/users/creator/balance')).toBe(accrued);
+        expect(store.value(`/vaults/${vaultId}/feesForCreator`)).toBe(0);
+        expect(store.value(`/fees/${res.feeId}`)).toMatchObject({ event: 'CLAIM', role: 'creator', amountSol: accrued });
+    });
+
+    it('refuses anyone but the creator', async () => {
+        await expect(claimCreatorFees(vaultId, 'trader')).rejects.toThrow('not_creator');
+    });
+});
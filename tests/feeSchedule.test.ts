@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { closeFees, feeSchedule, openFee } from '../lib/feeSchedule';
+import { addSol } from '../lib/lamports';
+import { DEFAULT_PLATFORM_CONFIG } from '../lib/platformConfig';
+
+const platform = { ...DEFAULT_PLATFORM_CONFIG, minFeeUsd: 0, maxFeeUsd: 0 };
+
+describe('feeSchedule', () => {
+    it('uses vault params over platform defaults', () => {
+        const s = feeSchedule({ openFeeBps: 25, vaultSharePct: 0.5 }, platform);
+        expect(s.openFeeBps).toBe(25);
+        expect(s.closeFeeBps).toBe(platform.closeFeeBps);
+        expect(s.perfFeeBps).toBe(platform.perfFeeBps);
+        expect(s.vaultSharePct).toBe(0.5);
+        expect(s.maxFeeUsd).toBeNull();
+    });
+});
+
+describe('openFee', () => {
+    it('charges openFeeBps of the notional and splits it exactly', () => {
+        // 1 SOL collateral at 5x: 5 SOL notional, 10 bps = 0.005 SOL
+        const fee = openFee(feeSchedule({ openFeeBps: 10 }, platform), 1, 4, 100);
+        expect(fee.notionalSol).toBe(5);
+        expect(fee.feeSol).toBe(0.005);
+        expect(fee.feeVaultSol).toBe(0.0035);
+        expect(addSol(fee.feeVaultSol, fee.feePlatformSol)).toBe(fee.feeSol);
+    });
+
+    it('applies the USD caps', () => {
+        const capped = feeSchedule({ openFeeBps: 10 }, { ...platform, minFeeUsd: 1, maxFeeUsd: 0.2 });
+        // 0.5 USD fee capped to 0.2 USD at 100 USD/SOL
+        expect(openFee(capped, 1, 4, 100).feeSol).toBe(0.002);
+        const floored = feeSchedule({ openFeeBps: 10 }, { ...platform, minFeeUsd: 1 });
+        expect(openFee(floored, 1, 4, 100).feeSol).toBe(0.01);
+    });
+});
+
+describe('closeFees', () => {
+    const schedule = feeSchedule({ closeFeeBps: 10, perfFeeBps: 1000 }, { ...platform, platformPerfFeeBps: 500 });
+
+    it('charges the close fee and performance fees on profit', () => {
+        const f = closeFees(schedule, 10, 2, 3, 100);
+        expect(f.closeFee.feeSol).toBe(0.01);
+        expect(f.creatorPerfFeeSol).toBe(0.2);
+        expect(f.platformPerfFeeSol).toBe(0.1);
+        expect(f.totalFeeSol).toBe(0.31);
+    });
+
+    it('charges no performance fee on a loss', () => {
+        const f = closeFees(schedule, 10, -1, 0.5, 100);
+        expect(f.creatorPerfFeeSol).toBe(0);
+        expect(f.totalFeeSol).toBe(f.closeFee.feeSol);
+    });
+
+    it('never takes more than the payout', () => {
+        const f = closeFees(schedule, 10, 2, 0.05, 100);
+        expect(f.totalFeeSol).toBe(0.05);
+        expect(f.platformPerfFeeSol).toBe(0);
+    });
+});
+
+describe('volume discounts', () => {
+    it('take the tier discount off open and close fee rates only', () => {
+        const s = feeSchedule({ openFeeBps: 10, closeFeeBps: 20, perfFeeBps: 1000 }, platform, 2500);
+        expect(s.openFeeBps).toBe(7.5);
+        expect(s.closeFeeBps).toBe(15);
+        expect(s.perfFeeBps).toBe(1000);
+        expect(openFee(s, 1, 4, 100)).toMatchObject({ feeSol: 0.00375, discountBps: 2500 });
+    });
+});
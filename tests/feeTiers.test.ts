@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { feeTierFor, tradeVolumeSol } from '../lib/feeTiers';
+import { feeTierReasons, platformConfig } from '../lib/platformConfig';
+
+const tiers = [
+    { minVolumeSol: 0, discountBps: 0 },
+    { minVolumeSol: 100, discountBps: 1000 },
+    { minVolumeSol: 1000, discountBps: 2500 },
+];
+
+describe('tradeVolumeSol', () => {
+    it('counts opens at their size and closes at their value', () => {
+        expect(tradeVolumeSol({ type: 'OPEN LONG', totalSol: 5 })).toBe(5);
+        expect(tradeVolumeSol({ type: 'PARTIAL CLOSE SHORT', closedValueSol: 2.5 })).toBe(2.5);
+        expect(tradeVolumeSol({ type: 'LIQUIDATE', closedValueSol: 1 })).toBe(1);
+    });
+
+    it('ignores deposits, margin changes and payouts', () => {
+        expect(tradeVolumeSol({ type: 'CONTRIBUTOR_DEPOSIT', amount: 10 })).toBe(0);
+        expect(tradeVolumeSol({ type: 'MARGIN_ADD', amount: 1 })).toBe(0);
+        expect(tradeVolumeSol({ type: 'WIND_DOWN_PAYOUT', amount: 3 })).toBe(0);
+    });
+});
+
+describe('feeTierFor', () => {
+    it('picks the highest tier the volume reaches', () => {
+        expect(feeTierFor(50, tiers)).toMatchObject({ tier: 0, discountBps: 0, nextTier: tiers[1] });
+        expect(feeTierFor(100, tiers)).toMatchObject({ tier: 1, discountBps: 1000 });
+        expect(feeTierFor(5000, tiers)).toMatchObject({ tier: 2, discountBps: 2500, nextTier: null });
+    });
+
+    it('gives no discount below the first tier', () => {
+        expect(feeTierFor(5, [{ minVolumeSol: 10, discountBps: 500 }])).toMatchObject({ tier: -1, discountBps: 0 });
+    });
+});
+
+describe('fee tier config', () => {
+    it('rejects unordered or out of range tiers', () => {
+        expect(feeTierReasons(tiers)).toEqual([]);
+        expect(feeTierReasons([])).toHaveLength(1);
+        expect(feeTierReasons([{ minVolumeSol: 100, discountBps: 0 }, { minVolumeSol: 50, discountBps: 100 }])).toHaveLength(1);
+        expect(feeTierReasons([{ minVolumeSol: 0, discountBps: 20000 }])).toHaveLength(1);
+    });
+
+    it('reads tiers stored as an index-keyed object', () => {
+        expect(platformConfig({ feeTiers: { 0: tiers[0], 1: tiers[1] } }).feeTiers).toEqual(tiers.slice(0, 2));
+    });
+});
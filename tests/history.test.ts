@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCursor, encodeCursor, MAX_PAGE_LIMIT, pageLimit, paginate } from '../lib/history';
+
+const key = (t: { ts: number; id: string }) => t;
+const trades = [
+    { ts: 100, id: 'a' },
+    { ts: 300, id: 'c' },
+    { ts: 200, id: 'b' },
+    { ts: 300, id: 'd' },
+    { ts: 50, id: 'e' },
+];
+
+describe('cursors', () => {
+    it('round-trips a timestamp and id', () => {
+        expect(decodeCursor(encodeCursor({ ts: 123, id: '-Nabc' }))).toEqual({ ts: 123, id: '-Nabc' });
+    });
+
+    it('rejects garbage', () => {
+        expect(() => decodeCursor('not-a-cursor')).toThrow('invalid_cursor');
+    });
+
+    it('clamps the page limit', () => {
+        expect(pageLimit(undefined)).toBe(50);
+        expect(pageLimit(0)).toBe(50);
+        expect(pageLimit(10_000)).toBe(MAX_PAGE_LIMIT);
+    });
+});
+
+describe('paginate', () => {
+    it('walks every item newest first without repeats', () => {
+        const first = paginate(trades, key, { limit: 2 });
+        expect(first.items.map((t) => t.id)).toEqual(['d', 'c']);
+        const second = paginate(trades, key, { limit: 2, cursor: first.nextCursor });
+        expect(second.items.map((t) => t.id)).toEqual(['b', 'a']);
+        const last = paginate(trades, key, { limit: 2, cursor: second.nextCursor });
+        expect(last.items.map((t) => t.id)).toEqual(['e']);
+        expect(last.nextCursor).toBeNull();
+    });
+
+    it('filters by an inclusive time range', () => {
+        const page = paginate(trades, key, { from: 100, to: 200 });
+        expect(page.items.map((t) => t.id)).toEqual(['b', 'a']);
+        expect(page.nextCursor).toBeNull();
+    });
+
+    it('keeps a page stable when newer items arrive', () => {
+        const first = paginate(trades, key, { limit: 2 });
+        const second = paginate([...trades, { ts: 400, id: 'f' }], key, { limit: 2, cursor: first.nextCursor });
+        expect(second.items.map((t) => t.id)).toEqual(['b', 'a']);
+    });
+});
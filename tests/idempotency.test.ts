@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { finishIdempotent, IDEMPOTENCY_PENDING_MS, isKeyHeld, isReplayableStatus, isValidIdempotencyKey, releaseIdempotent, requestFingerprint, startIdempotent } from '../lib/idempotency';
+import { MemoryStore } from '../lib/memoryStore';
+import { setStore } from '../lib/store';
+
+describe('isValidIdempotencyKey', () => {
+    it('accepts printable keys up to 255 characters', () => {
+        expect(isValidIdempotencyKey('3f1c2a7e-8d4b-4c1e-9b0a-6f2d5e7c8a91')).toBe(true);
+        expect(isValidIdempotencyKey('k'.repeat(255))).toBe(true);
+    });
+
+    it('rejects empty, oversized and non-printable keys', () => {
+        expect(isValidIdempotencyKey('')).toBe(false);
+        expect(isValidIdempotencyKey('k'.repeat(256))).toBe(false);
+        expect(isValidIdempotencyKey('has space')).toBe(false);
+        expect(isValidIdempotencyKey(['a', 'b'])).toBe(false);
+    });
+});
+
+describe('requestFingerprint', () => {
+    it('ignores body key order', () => {
+        const a = requestFingerprint('post', '/api/engine/open-long', { vaultId: 'v1', collateralSol: 1, leverageBps: 20000 });
+        const b = requestFingerprint('POST', '/api/engine/open-long', { leverageBps: 20000, collateralSol: 1, vaultId: 'v1' });
+        expect(a).toBe(b);
+    });
+
+    it('differs for a different request', () => {
+        const a = requestFingerprint('POST', '/api/engine/open-long', { vaultId: 'v1', collateralSol: 1 });
+        expect(requestFingerprint('POST', '/api/engine/open-long', { vaultId: 'v1', collateralSol: 2 })).not.toBe(a);
+        expect(requestFingerprint('POST', '/api/engine/open-short', { vaultId: 'v1', collateralSol: 1 })).not.toBe(a);
+    });
+});
+
+describe('isReplayableStatus', () => {
+    it('replays client errors but not server errors', () => {
+        expect(isReplayableStatus(200)).toBe(true);
+        expect(isReplayableStatus(400)).toBe(true);
+        expect(isReplayableStatus(503)).toBe(false);
+    });
+});
+
+describe('isKeyHeld', () => {
+    const atMs = 1_000_000;
+
+    it('holds a claim until its lease runs out', () => {
+        expect(isKeyHeld({ status: 'PENDING', pendingUntil: atMs + 1, expiresAt: atMs + 10 }, atMs)).toBe(true);
+        expect(isKeyHeld({ status: 'PENDING', pendingUntil: atMs, expiresAt: atMs + 10 }, atMs)).toBe(false);
+        expect(isKeyHeld({ status: 'PENDING', createdAt: atMs - IDEMPOTENCY_PENDING_MS, expiresAt: atMs + 10 }, atMs)).toBe(false);
+    });
+
+    it('holds a stored response until it expires', () => {
+        expect(isKeyHeld({ status: 'DONE', pendingUntil: atMs - 1, expiresAt: atMs + 1 }, atMs)).toBe(true);
+        expect(isKeyHeld({ status: 'DONE', expiresAt: atMs }, atMs)).toBe(false);
+        expect(isKeyHeld(null, atMs)).toBe(false);
+    });
+});
+
+describe('startIdempotent', () => {
+    let store: MemoryStore;
+    const fingerprint = requestFingerprint('POST', '/api/engine/open-long', { vaultId: 'v1' });
+
+    beforeEach(() => {
+        store = new MemoryStore();
+        setStore(store);
+    });
+
+    afterEach(() => {
+        setStore(null);
+    });
+
+    const records = () => Object.values<any>(store.value('/idempotency/alice') || {});
+
+    // Claim k1 and return the claim's token
+    async function claim() {
+        const started = await startIdempotent('alice', 'k1', fingerprint);
+        if (started.state !== 'new') throw new Error(`key not claimed: ${started.state}`);
+        return started.token;
+    }
+
+    it('replays a stored response and rejects a retry still running', async () => {
+        const token = await claim();
+        expect((await startIdempotent('alice', 'k1', fingerprint)).state).toBe('in_progress');
+
+        await finishIdempotent('alice', 'k1', token, 200, { success: true });
+        expect(await startIdempotent('alice', 'k1', fingerprint)).toEqual({ state: 'replay', statusCode: 200, body: { success: true } });
+        expect((await startIdempotent('alice', 'k1', 'other')).state).toBe('mismatch');
+    });
+
+    it('lets a retry reclaim a key whose claim lapsed', async () => {
+        await claim();
+        const [hash] = Object.keys(store.value('/idempotency/alice'));
+        await store.ref(`/idempotency/alice/${hash}/pendingUntil`).set(Date.now() - 1);
+
+        const token = await claim();
+        expect(records()).toMatchObject([{ status: 'PENDING', token }]);
+    });
+
+    it('frees the key on release and ignores a release from a lapsed claim', async () => {
+        const first = await claim();
+        await releaseIdempotent('alice', 'k1', first);
+        expect(records()).toEqual([]);
+
+        const second = await claim();
+        await releaseIdempotent('alice', 'k1', first);
+        await finishIdempotent('alice', 'k1', first, 200, { stale: true });
+        expect(records()).toMatchObject([{ status: 'PENDING', token: second }]);
+    });
+
+    it('releases the key after a server error', async () => {
+        await finishIdempotent('alice', 'k1', await claim(), 503, { success: false });
+        expect(records()).toEqual([]);
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { closeShortfall, insuranceSplit } from '../lib/insurance';
+import { DEFAULT_PLATFORM_CONFIG, platformConfig } from '../lib/platformConfig';
+
+describe('insuranceSplit', () => {
+    it('sends the configured slice of a platform fee to the fund', () => {
+        expect(insuranceSplit(1, 2000)).toEqual({ insuranceSol: 0.2, treasurySol: 0.8 });
+        expect(insuranceSplit(1, 0)).toEqual({ insuranceSol: 0, treasurySol: 1 });
+        expect(insuranceSplit(0, 2000)).toEqual({ insuranceSol: 0, treasurySol: 0 });
+    });
+});
+
+describe('closeShortfall', () => {
+    it('is zero while the collateral covers the loss and interest', () => {
+        expect(closeShortfall(1, -0.5, 0.1, 0.1).shortfallSol).toBe(0);
+    });
+
+    it('is only the unpaid booked interest, not the loss beyond collateral', () => {
+        // 1 SOL collateral, 1.5 SOL loss, 0.1 interest of which nothing could be paid
+        const s = closeShortfall(1, -1.5, 0.1, 0);
+        expect(s.lossShortfallSol).toBeCloseTo(0.5);
+        expect(s.unpaidInterestSol).toBeCloseTo(0.1);
+        expect(s.shortfallSol).toBeCloseTo(0.1);
+    });
+
+    it('is zero when the interest was never booked into NAV', () => {
+        expect(closeShortfall(1, -1.5, 0.1, 0, false).shortfallSol).toBe(0);
+    });
+});
+
+describe('platformConfig', () => {
+    it('falls back to defaults for missing or out of range values', () => {
+        expect(platformConfig(null)).toEqual(DEFAULT_PLATFORM_CONFIG);
+        expect(platformConfig({ insuranceFundBps: 20000 }).insuranceFundBps).toBe(DEFAULT_PLATFORM_CONFIG.insuranceFundBps);
+        expect(platformConfig({ insuranceFundBps: 500 }).insuranceFundBps).toBe(500);
+    });
+});
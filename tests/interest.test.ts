@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { accruedInterestSol, checkpointInterest } from '../lib/interest';
+import { YEAR_SECONDS } from '../lib/math';
+
+describe('accruedInterestSol', () => {
+    const entryTs = 1_700_000_000_000;
+
+    it('accrues simple interest on borrowSol from entry', () => {
+        // 10 SOL borrowed at 10% APR for a full year => 1 SOL
+        const position = { borrowSol: 10, debtAprBps: 1000, entryTs };
+        expect(accruedInterestSol(position, entryTs + YEAR_SECONDS * 1000)).toBeCloseTo(1);
+    });
+
+    it('returns zero before entry or without a rate', () => {
+        expect(accruedInterestSol({ borrowSol: 10, debtAprBps: 1000, entryTs }, entryTs - 1000)).toBe(0);
+        expect(accruedInterestSol({ borrowSol: 10, entryTs }, entryTs + 86_400_000)).toBe(0);
+    });
+
+    it('continues from a checkpoint after the principal changes', () => {
+        const halfYearMs = (YEAR_SECONDS * 1000) / 2;
+        const position: any = { borrowSol: 10, debtAprBps: 1000, entryTs };
+        Object.assign(position, checkpointInterest(position, entryTs + halfYearMs));
+        expect(position.interestAccruedSol).toBeCloseTo(0.5);
+
+        // borrow halves (e.g. partial close) for the second half-year
+        position.borrowSol = 5;
+        expect(accruedInterestSol(position, entryTs + 2 * halfYearMs)).toBeCloseTo(0.75);
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { distributeFeeProRataSol } from '../lib/fees';
+import { insuranceSplit } from '../lib/insurance';
+import { lamportMigrationFixes } from '../lib/lamportMigration';
+import { addSol, roundSol, splitLamports, toLamports } from '../lib/lamports';
+
+describe('toLamports', () => {
+    it('rounds by the requested policy', () => {
+        expect(toLamports(1.0000000004)).toBe(1_000_000_000);
+        expect(toLamports(1.0000000004, 'up')).toBe(1_000_000_001);
+        expect(toLamports(1.0000000006, 'down')).toBe(1_000_000_000);
+    });
+
+    it('ignores float noise instead of rounding it away from the value', () => {
+        expect(toLamports(0.3, 'down')).toBe(300_000_000);
+        expect(toLamports(0.1 + 0.2, 'down')).toBe(300_000_000);
+        expect(toLamports(0.7, 'up')).toBe(700_000_000);
+    });
+});
+
+describe('addSol', () => {
+    it('sums without float drift', () => {
+        expect(addSol(0.1, 0.2)).toBe(0.3);
+        let tvl = 0;
+        for (let i = 0; i < 1000; i++) tvl = addSol(tvl, 0.001);
+        expect(tvl).toBe(1);
+    });
+});
+
+describe('splitLamports', () => {
+    it('always sums to the total', () => {
+        const parts = splitLamports(1_000_000_001, [1, 1, 1]);
+        expect(parts).toEqual([333_333_333, 333_333_333, 333_333_335]);
+        expect(parts.reduce((s, p) => s + p, 0)).toBe(1_000_000_001);
+    });
+
+    it('gives everything to the remainder part when there is no weight', () => {
+        expect(splitLamports(10, [0, 0])).toEqual([0, 10]);
+    });
+});
+
+describe('lamport-exact fee splits', () => {
+    it('pays out exactly the fee across creator, contributors and platform', () => {
+        const fee = 0.0123456789;
+        const d = distributeFeeProRataSol(fee, {
+            creator: { uid: 'c', sol: 3 },
+            contributors: [{ uid: 'a', sol: 1 }, { uid: 'b', sol: 2 }],
+        }, 0.7);
+        const lamports = toLamports(d.creatorSol) + d.contributors.reduce((s, c) => s + toLamports(c.sol), 0) + toLamports(d.platformSol);
+        expect(lamports).toBe(toLamports(fee));
+        for (const v of [d.creatorSol, d.platformSol, ...d.contributors.map((c) => c.sol)]) expect(roundSol(v)).toBe(v);
+    });
+
+    it('splits platform fees between insurance and treasury without dust', () => {
+        const { insuranceSol, treasurySol } = insuranceSplit(0.000000007, 2000);
+        expect(insuranceSol).toBe(0.000000001);
+        expect(addSol(insuranceSol, treasurySol)).toBe(0.000000007);
+    });
+});
+
+describe('lamportMigrationFixes', () => {
+    it('rounds stored float amounts and leaves aligned ones alone', () => {
+        const fixes = lamportMigrationFixes({
+            users: { u1: { balance: 0.30000000000000004 }, u2: { balance: 2 } },
+            vaults: { v1: { tvlSol: 1.0000000004, accruedInterestSol: 0.12345678901, composition: { contributors: { a: { uid: 'a', claimable: 0.1000000006 } } } } },
+            positions: { u1: { v1: { p1: { status: 'OPEN', collateralSol: 0.5 }, p2: { status: 'CLOSED', collateralSol: 0.1234567891 } } } },
+        });
+        expect(fixes).toEqual([
+            { path: '/users/u1/balance', from: 0.30000000000000004, to: 0.3 },
+            { path: '/vaults/v1/tvlSol', from: 1.0000000004, to: 1 },
+            { path: '/vaults/v1/composition/contributors/a/claimable', from: 0.1000000006, to: 0.100000001 },
+        ]);
+    });
+});
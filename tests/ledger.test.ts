@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { accountBalance, isBalanced, JournalEntry, ledgerAccount, openingBalanceTransfers, postingsFor } from '../lib/ledger';
+
+const user = ledgerAccount.user('u1');
+const margin = ledgerAccount.margin('v1');
+const vault = ledgerAccount.vault('v1');
+
+function entry(postings: JournalEntry['postings']): JournalEntry {
+    return { entryId: 'e', reason: 'position_close', ref: { type: 'trade', id: 't' }, postings, ts: 1 };
+}
+
+describe('postingsFor', () => {
+    it('nets transfers into one balanced posting per account', () => {
+        const postings = postingsFor([
+            { from: user, to: margin, amountSol: 1 },
+            { from: user, to: ledgerAccount.treasury, amountSol: 0.001 },
+            { from: user, to: ledgerAccount.vaultFees('v1'), amountSol: 0 },
+        ]);
+        expect(postings).toEqual([
+            { account: user, debitSol: 1.001, creditSol: 0 },
+            { account: margin, debitSol: 0, creditSol: 1 },
+            { account: ledgerAccount.treasury, debitSol: 0, creditSol: 0.001 },
+        ]);
+        expect(isBalanced(postings)).toBe(true);
+    });
+
+    it('moves a negative amount the other way', () => {
+        // A profitable close: the vault pays the trader's gain out through the margin account
+        const postings = postingsFor([
+            { from: margin, to: vault, amountSol: -0.5 },
+            { from: margin, to: user, amountSol: 1.5 },
+        ]);
+        expect(postings).toEqual([
+            { account: margin, debitSol: 1, creditSol: 0 },
+            { account: vault, debitSol: 0.5, creditSol: 0 },
+            { account: user, debitSol: 0, creditSol: 1.5 },
+        ]);
+        expect(isBalanced(postings)).toBe(true);
+    });
+});
+
+describe('accountBalance', () => {
+    it('is credits less debits across entries', () => {
+        const entries = [
+            entry(postingsFor([{ from: ledgerAccount.external, to: user, amountSol: 2 }])),
+            entry(postingsFor([{ from: user, to: margin, amountSol: 0.3 }])),
+            entry(postingsFor([{ from: margin, to: user, amountSol: 0.1 }])),
+        ];
+        expect(accountBalance(entries, user)).toBe(1.8);
+        expect(accountBalance(entries, margin)).toBe(0.2);
+    });
+});
+
+describe('openingBalanceTransfers', () => {
+    it('opens every stored balance from the external account', () => {
+        const transfers = openingBalanceTransfers({
+            users: { u1: { balance: 2 }, u2: { balance: 0 } },
+            vaults: { v1: { tvlSol: 10, feesForCreator: 0.1, composition: { contributors: { a: { claimable: 0.2 } } } } },
+            positions: { u1: { v1: { p1: { status: 'OPEN', collateralSol: 1 }, p2: { status: 'CLOSED', collateralSol: 5 } } } },
+            orders: { v1: { o1: { status: 'OPEN', reservedSol: 0.5 }, o2: { status: 'FILLED', reservedSol: 9 } } },
+            treasuryFees: 0.03,
+        });
+        expect(transfers.map((t) => [t.to, t.amountSol])).toEqual([
+            [user, 2],
+            [vault, 10],
+            [ledgerAccount.vaultFees('v1'), 0.3],
+            [margin, 1],
+            [ledgerAccount.orders('v1'), 0.5],
+            [ledgerAccount.treasury, 0.03],
+        ]);
+    });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gmgnService } from '../gmgnService';
+import { cachedPriceUsd, deviationBps, getSolPriceUsd, getTokenMarkUsd, PRICE_CACHE_MAX_AGE_MS, valuePositionSol } from '../lib/mark';
+import { MemoryStore } from '../lib/memoryStore';
+import { setStore } from '../lib/store';
+import { priceService } from '../priceService';
+import { fetchJupiterQuoteServer } from '../services/jupiterService';
+
+vi.mock('../services/jupiterService', () => ({ fetchJupiterQuoteServer: vi.fn() }));
+
+const TOKEN = 'TokenMint111';
+
+describe('cachedPriceUsd', () => {
+    const atMs = 10 * PRICE_CACHE_MAX_AGE_MS;
+
+    it('uses a fresh entry', () => {
+        expect(cachedPriceUsd({ priceUsd: 2, updatedAt: atMs - 1000 }, atMs)).toBe(2);
+        expect(cachedPriceUsd({ price: 3, ts: atMs }, atMs)).toBe(3);
+    });
+
+    it('rejects stale, undated and invalid entries', () => {
+        expect(cachedPriceUsd({ priceUsd: 2, updatedAt: atMs - PRICE_CACHE_MAX_AGE_MS - 1 }, atMs)).toBeNull();
+        expect(cachedPriceUsd({ priceUsd: 2 }, atMs)).toBeNull();
+        expect(cachedPriceUsd({ priceUsd: 0, updatedAt: atMs }, atMs)).toBeNull();
+        expect(cachedPriceUsd(null, atMs)).toBeNull();
+    });
+});
+
+describe('deviationBps', () => {
+    it('measures the client value against the server value', () => {
+        expect(deviationBps(103, 100)).toBeCloseTo(300);
+        expect(deviationBps(97, 100)).toBeCloseTo(300);
+        expect(deviationBps(1, 0)).toBe(Infinity);
+    });
+});
+
+describe('mark source fallback', () => {
+    let store: MemoryStore;
+
+    beforeEach(() => {
+        store = new MemoryStore();
+        setStore(store);
+        vi.spyOn(priceService, 'getPrice').mockReturnValue(null as any);
+        vi.spyOn(gmgnService, 'lookup').mockResolvedValue([] as any);
+        vi.mocked(fetchJupiterQuoteServer).mockResolvedValue(null);
+    });
+
+    afterEach(() => {
+        setStore(null);
+        vi.restoreAllMocks();
+    });
+
+    it('prefers the price service for SOL, then a fresh cache entry', async () => {
+        await store.ref('/price_cache/WSOL_MINT').set({ priceUsd: 90, updatedAt: Date.now() });
+        expect(await getSolPriceUsd()).toEqual({ priceUsd: 90, source: 'price_cache' });
+        vi.spyOn(priceService, 'getPrice').mockReturnValue({ price: 100 } as any);
+        expect(await getSolPriceUsd()).toEqual({ priceUsd: 100, source: 'price_service' });
+    });
+
+    it('has no SOL price when the only cache entry is stale', async () => {
+        await store.ref('/price_cache/WSOL_MINT').set({ priceUsd: 90, updatedAt: Date.now() - PRICE_CACHE_MAX_AGE_MS - 1 });
+        expect(await getSolPriceUsd()).toBeNull();
+    });
+
+    it('falls back from a stale cache entry to gmgn', async () => {
+        await store.ref(`/price_cache/${TOKEN}`).set({ priceUsd: 0.01, updatedAt: Date.now() - PRICE_CACHE_MAX_AGE_MS - 1 });
+        vi.spyOn(gmgnService, 'lookup').mockResolvedValue([{ price_usd: 0.02 }] as any);
+        expect(await getTokenMarkUsd(TOKEN)).toEqual({ markUsd: 0.02, source: 'gmgn' });
+    });
+
+    it('values from a Jupiter quote when no USD mark is available', async () => {
+        vi.mocked(fetchJupiterQuoteServer).mockResolvedValue({ ok: true, outAmount: '2000000000' } as any);
+        const valuation = await valuePositionSol(TOKEN, 100);
+        expect(valuation.source).toBe('jupiter_quote');
+        expect(valuation.valueSol).toBe(2);
+    });
+
+    it('values a short from a buy quote sized by the buy-back estimate', async () => {
+        // 1 SOL buys 50 tokens, so 100 tokens cost 2 SOL to buy back
+        vi.mocked(fetchJupiterQuoteServer).mockResolvedValue({ ok: true, outAmount: String(50 * 1e6) } as any);
+        const valuation = await valuePositionSol(TOKEN, 100, { side: 'SHORT', buybackSol: 1, decimals: 6 });
+        expect(valuation.valueSol).toBeCloseTo(2);
+        expect(vi.mocked(fetchJupiterQuoteServer)).toHaveBeenLastCalledWith(expect.objectContaining({ outMint: TOKEN, amount: 1e9 }));
+    });
+
+    it('fails when no source has a price', async () => {
+        await expect(valuePositionSol(TOKEN, 100)).rejects.toThrow('mark_unavailable');
+    });
+});
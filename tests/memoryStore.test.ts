@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryStore } from '../lib/memoryStore';
+
+describe('MemoryStore', () => {
+    it('drops nulls and the parents they leave empty', async () => {
+        const store = new MemoryStore({ a: { b: { c: 1 } }, d: 2 });
+        await store.ref('/a/b/c').set(null);
+        expect(store.value()).toEqual({ d: 2 });
+        await store.ref('/').update({ 'e/f': 3, d: null });
+        expect(store.value()).toEqual({ e: { f: 3 } });
+    });
+
+    it('rejects undefined without writing anything', async () => {
+        const store = new MemoryStore({ a: 1 });
+        await expect(store.ref().update({ a: 2, b: { c: undefined } })).rejects.toThrow('undefined');
+        expect(store.value('/a')).toBe(1);
+    });
+
+    it('hands out copies, not the stored value', async () => {
+        const store = new MemoryStore({ v: { n: 1 } });
+        const snap = await store.ref('/v').get();
+        snap.val().n = 2;
+        await store.ref('/v/n').set(3);
+        expect(snap.val()).toEqual({ n: 1 });
+    });
+
+    it('commits a transaction, or aborts when the update returns undefined', async () => {
+        const store = new MemoryStore({ balance: 5 });
+        const ref = store.ref('/balance');
+        const res = await ref.transaction((cur: number) => cur - 2);
+        expect(res.committed).toBe(true);
+        expect(res.snapshot.val()).toBe(3);
+        const aborted = await ref.transaction((cur: number) => (cur < 10 ? undefined : cur - 10));
+        expect(aborted.committed).toBe(false);
+        expect(store.value('/balance')).toBe(3);
+    });
+
+    it('orders and filters queries like the database', async () => {
+        const store = new MemoryStore({
+            trades: {
+                t1: { ts: 30, type: 'OPEN' },
+                t2: { ts: 10, type: 'CLOSE' },
+                t3: { ts: 20, type: 'OPEN' },
+                t4: { type: 'OPEN' },
+            },
+        });
+        const keys = async (q: any) => {
+            const out: string[] = [];
+            (await q.get()).forEach((c: any) => { out.push(c.key); });
+            return out;
+        };
+        const trades = store.ref('/trades');
+        expect(await keys(trades.orderByChild('ts'))).toEqual(['t4', 't2', 't3', 't1']);
+        expect(await keys(trades.orderByChild('ts').startAt(15).limitToLast(1))).toEqual(['t1']);
+        expect(await keys(trades.orderByChild('ts').endAt(20))).toEqual(['t4', 't2', 't3']);
+        expect(await keys(trades.orderByChild('type').equalTo('OPEN'))).toEqual(['t1', 't3', 't4']);
+        expect(await keys(trades.orderByKey().startAt('t2').limitToFirst(2))).toEqual(['t2', 't3']);
+    });
+
+    it('gives push keys that sort in insertion order', async () => {
+        const store = new MemoryStore();
+        const ref = store.ref('/log');
+        for (let i = 0; i < 5; i++) await ref.push({ i });
+        const seen: number[] = [];
+        (await ref.orderByKey().get()).forEach((c) => { seen.push(c.val().i); });
+        expect(seen).toEqual([0, 1, 2, 3, 4]);
+    });
+});
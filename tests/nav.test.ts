@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { YEAR_SECONDS } from '../lib/math';
+import { accrueVaultInterest, burnShares, ensureShares, mintShares, navSnapshot, sharePriceSol, vaultNavSol } from '../lib/nav';
+
+describe('vault NAV', () => {
+    const t0 = 1_700_000_000_000;
+
+    it('counts vault capital and accrued interest', () => {
+        // 10 SOL capital, 2 lent at 10% APR for a year => 0.2 interest
+        const v = { tvlSol: 10, totalBorrowsSol: 2, borrowAprWeight: 2 * 1000, interestCheckpointTs: t0 };
+        expect(vaultNavSol(v, t0)).toBeCloseTo(10);
+        expect(vaultNavSol(v, t0 + YEAR_SECONDS * 1000)).toBeCloseTo(10.2);
+        accrueVaultInterest(v, t0 + YEAR_SECONDS * 1000);
+        expect((v as any).accruedInterestSol).toBeCloseTo(0.2);
+    });
+
+    it('mints shares at NAV so later depositors do not dilute earlier ones', () => {
+        const v: any = { tvlSol: 0, totalBorrowsSol: 0, totalShares: 0, composition: { creator: { uid: 'c', sol: 0 }, contributors: {} } };
+        expect(mintShares(v, v.composition.creator, 10, t0)).toBeCloseTo(10);
+        // vault earns 10% from a losing trader
+        v.tvlSol += 1;
+        expect(sharePriceSol(v, t0)).toBeCloseTo(1.1);
+        v.composition.contributors.a = { uid: 'a', sol: 0 };
+        expect(mintShares(v, v.composition.contributors.a, 11, t0)).toBeCloseTo(10);
+        expect(navSnapshot(v, t0)).toMatchObject({ navSol: 22, totalShares: 20 });
+    });
+
+    it('burns shares at the current price and reduces cost basis pro-rata', () => {
+        const v: any = { tvlSol: 12, totalBorrowsSol: 0, totalShares: 10, composition: { creator: { uid: 'c', sol: 10, shares: 10 } } };
+        expect(burnShares(v, v.composition.creator, 5, t0)).toBeCloseTo(6);
+        expect(v.composition.creator).toMatchObject({ shares: 5, sol: 5 });
+        expect(v.tvlSol).toBeCloseTo(6);
+    });
+
+    it('issues one share per deposited SOL for legacy vaults', () => {
+        const v: any = { tvlSol: 6, composition: { creator: { uid: 'c', sol: 4 }, contributors: { a: { uid: 'a', sol: 2 } } } };
+        ensureShares(v);
+        expect(v.totalShares).toBe(6);
+        expect(v.composition.contributors.a.shares).toBe(2);
+    });
+});
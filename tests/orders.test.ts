@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createVault, creatorDeposit, openCostSol } from '../lib/engine';
+import { MemoryStore } from '../lib/memoryStore';
+import { fillOrder, limitCrossed, placeOrder, recoverStaleFill } from '../lib/orders';
+import { setStore } from '../lib/store';
+
+const TOKEN = 'TokenMint111';
+
+describe('limitCrossed', () => {
+    it('fills a long at or below the limit', () => {
+        expect(limitCrossed('LONG', 1, 0.99)).toBe(true);
+        expect(limitCrossed('LONG', 1, 1)).toBe(true);
+        expect(limitCrossed('LONG', 1, 1.01)).toBe(false);
+    });
+
+    it('fills a short at or above the limit', () => {
+        expect(limitCrossed('SHORT', 1, 1.01)).toBe(true);
+        expect(limitCrossed('SHORT', 1, 0.99)).toBe(false);
+    });
+});
+
+describe('openCostSol', () => {
+    it('reserves collateral plus the open fee', () => {
+        expect(openCostSol(2, 0.004)).toBe(2.004);
+    });
+});
+
+describe('fills', () => {
+    let store: MemoryStore;
+    let vaultId: string;
+
+    // 1 SOL = $100, 1 token = $0.01
+    beforeEach(async () => {
+        store = new MemoryStore({
+            price_cache: {
+                WSOL_MINT: { priceUsd: 100, updatedAt: Date.now() },
+                [TOKEN]: { priceUsd: 0.01, updatedAt: Date.now() },
+            },
+            users: { trader: { balance: 5 } },
+        });
+        setStore(store);
+        vaultId = (await createVault(TOKEN, 'creator', {}, 'Test vault')).vaultId;
+        await creatorDeposit(vaultId, 10, 'creator');
+    });
+
+    afterEach(() => {
+        setStore(null);
+    });
+
+    it('opens from the reservation without touching the balance again', async () => {
+        const order = await placeOrder('trader', vaultId, { side: 'LONG', collateralSol: 1, leverageBps: 20000, limitPriceUsd: 0.01 });
+        const balancePlaced = store.value('/users/trader/balance');
+        expect(balancePlaced).toBeCloseTo(5 - order.reservedSol, 9);
+
+        const res = await fillOrder(vaultId, order.orderId, 0.01, 100);
+        expect(store.value(`/orders/${vaultId}/${order.orderId}`)).toMatchObject({ status: 'FILLED', posId: res.posId });
+        expect(store.value(`/positions/trader/${vaultId}/${res.posId}/status`)).toBe('OPEN');
+        expect(store.value('/users/trader/balance')).toBe(balancePlaced);
+    });
+
+    it('releases the reservation when the open fails', async () => {
+        const order = await placeOrder('trader', vaultId, { side: 'LONG', collateralSol: 1, leverageBps: 20000, limitPriceUsd: 0.01 });
+        await store.ref(`/vaults/${vaultId}/tvlSol`).set(0);
+
+        await expect(fillOrder(vaultId, order.orderId, 0.01, 100)).rejects.toThrow();
+        expect(store.value(`/orders/${vaultId}/${order.orderId}/status`)).toBe('FAILED');
+        expect(store.value('/users/trader/balance')).toBe(5);
+    });
+
+    it('does not fill past the limit when the server mark has moved', async () => {
+        const order = await placeOrder('trader', vaultId, { side: 'LONG', collateralSol: 1, leverageBps: 20000, limitPriceUsd: 0.0099 });
+
+        // The matcher saw 0.0099; the server mark is 0.01, inside the tolerance but above the limit
+        await expect(fillOrder(vaultId, order.orderId, 0.0099, 100)).rejects.toThrow('limit_not_met');
+        expect(store.value(`/orders/${vaultId}/${order.orderId}/status`)).toBe('FAILED');
+        expect(store.value('/users/trader/balance')).toBe(5);
+    });
+
+    it('fails a stale fill no open consumed and releases its reservation', async () => {
+        const order = await placeOrder('trader', vaultId, { side: 'LONG', collateralSol: 1, leverageBps: 20000, limitPriceUsd: 0.01 });
+        await store.ref(`/orders/${vaultId}/${order.orderId}/status`).set('FILLING');
+
+        expect(await recoverStaleFill(vaultId, order.orderId)).toBe('FAILED');
+        expect(store.value(`/orders/${vaultId}/${order.orderId}/error`)).toBe('fill_interrupted');
+        expect(store.value('/users/trader/balance')).toBe(5);
+        expect(await recoverStaleFill(vaultId, order.orderId)).toBeNull();
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { borrowAprBps, DEFAULT_RATE_MODEL, rateModel, supplyAprBps, utilizationBps, vaultRates } from '../lib/rates';
+
+describe('utilizationBps', () => {
+    it('is borrows over tvl, capped at 100%', () => {
+        expect(utilizationBps(100, 0)).toBe(0);
+        expect(utilizationBps(100, 25)).toBe(2500);
+        expect(utilizationBps(100, 150)).toBe(10000);
+        expect(utilizationBps(0, 1)).toBe(10000);
+        expect(utilizationBps(0, 0)).toBe(0);
+    });
+});
+
+describe('borrowAprBps', () => {
+    const params = { rateBaseBps: 200, rateSlope1Bps: 800, rateKinkBps: 8000, rateSlope2Bps: 5000 };
+
+    it('rises along slope1 up to the kink', () => {
+        expect(borrowAprBps(params, 0)).toBe(200);
+        expect(borrowAprBps(params, 4000)).toBe(600);
+        expect(borrowAprBps(params, 8000)).toBe(1000);
+    });
+
+    it('rises along slope2 past the kink', () => {
+        expect(borrowAprBps(params, 9000)).toBe(3500);
+        expect(borrowAprBps(params, 10000)).toBe(6000);
+    });
+
+    it('falls back to the default curve', () => {
+        expect(rateModel(undefined)).toEqual(DEFAULT_RATE_MODEL);
+        expect(borrowAprBps({}, 0)).toBe(DEFAULT_RATE_MODEL.rateBaseBps);
+    });
+});
+
+describe('supplyAprBps', () => {
+    it('pays LPs the borrow APR on the lent-out share', () => {
+        const params = { rateBaseBps: 200, rateSlope1Bps: 800, rateKinkBps: 8000, rateSlope2Bps: 5000 };
+        expect(supplyAprBps(params, 0)).toBe(0);
+        expect(supplyAprBps(params, 5000)).toBe(350);
+        expect(vaultRates({ tvlSol: 10, totalBorrowsSol: 5, params })).toEqual({ utilBps: 5000, borrowAprBps: 700, supplyAprBps: 350 });
+    });
+});
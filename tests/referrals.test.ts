@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { combineDiscountBps } from '../lib/feeSchedule';
+import { addSol } from '../lib/lamports';
+import { normalizeReferralCode, referralRebateSplit } from '../lib/referrals';
+
+describe('normalizeReferralCode', () => {
+    it('upper-cases and trims valid codes', () => {
+        expect(normalizeReferralCode(' moon_42 ')).toBe('MOON_42');
+    });
+
+    it('rejects codes that are too short, too long or use other characters', () => {
+        expect(normalizeReferralCode('abc')).toBeNull();
+        expect(normalizeReferralCode('a'.repeat(21))).toBeNull();
+        expect(normalizeReferralCode('to the moon')).toBeNull();
+        expect(normalizeReferralCode(1234)).toBeNull();
+    });
+});
+
+describe('referralRebateSplit', () => {
+    it('rebates the referrer share rounded down and leaves the rest to the platform', () => {
+        const { referrerSol, platformSol } = referralRebateSplit(0.000000007, 2000);
+        expect(referrerSol).toBe(0.000000001);
+        expect(addSol(referrerSol, platformSol)).toBe(0.000000007);
+    });
+
+    it('rebates nothing without a platform fee', () => {
+        expect(referralRebateSplit(0, 2000)).toEqual({ referrerSol: 0, platformSol: 0 });
+    });
+});
+
+describe('combineDiscountBps', () => {
+    it('stacks discounts on what the previous one left', () => {
+        expect(combineDiscountBps(1000, 500)).toBe(1450);
+        expect(combineDiscountBps(0, 500)).toBe(500);
+        expect(combineDiscountBps(10000, 500)).toBe(10000);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { assessPosition, checkOpenRisk, DEFAULT_RISK_PARAMS, riskParams } from '../lib/risk';
+
+describe('assessPosition', () => {
+    const entryTs = Date.now();
+    // 1 SOL collateral at 5x => 4 SOL borrowed, 5 SOL notional
+    const position = { collateralSol: 1, borrowSol: 4, sizeToken: 1000, entryTs, debtAprBps: 0 };
+
+    it('is healthy at entry value', () => {
+        const h = assessPosition(position, { mmrBps: 800 }, 5, entryTs);
+        expect(h.pnlSol).toBeCloseTo(0);
+        expect(h.equitySol).toBeCloseTo(1);
+        // equity 1 / value 5 = 20%
+        expect(h.mrBps).toBe(2000);
+        expect(h.liquidatable).toBe(false);
+    });
+
+    it('flags positions under mmrBps', () => {
+        // value 4.3 => equity 0.3 => mr ~6.97% < 8%
+        const h = assessPosition(position, { mmrBps: 800 }, 4.3, entryTs);
+        expect(h.mrBps).toBeLessThan(800);
+        expect(h.liquidatable).toBe(true);
+    });
+
+    it('inverts PnL for shorts', () => {
+        const short = { ...position, side: 'SHORT' };
+        // value fell from 5 to 4 SOL => short gains 1 SOL
+        const h = assessPosition(short, { mmrBps: 800 }, 4, entryTs);
+        expect(h.pnlSol).toBeCloseTo(1);
+        expect(h.equitySol).toBeCloseTo(2);
+        expect(h.liquidatable).toBe(false);
+        // value rose to 5.9 SOL => equity 0.1 => liquidatable
+        expect(assessPosition(short, { mmrBps: 800 }, 5.9, entryTs).liquidatable).toBe(true);
+    });
+
+    it('counts added margin as equity, not PnL', () => {
+        // 0.5 SOL margin added after entry: notional stays at the 5 SOL entry value
+        const topped = { ...position, collateralSol: 1.5, entryNotionalSol: 5 };
+        const h = assessPosition(topped, { mmrBps: 800 }, 4.3, entryTs);
+        expect(h.pnlSol).toBeCloseTo(-0.7);
+        expect(h.equitySol).toBeCloseTo(0.8);
+        expect(h.liquidatable).toBe(false);
+    });
+
+    it('falls back to default risk params', () => {
+        expect(riskParams(undefined)).toEqual(DEFAULT_RISK_PARAMS);
+        expect(riskParams({ mmrBps: 500 }).mmrBps).toBe(500);
+        expect(assessPosition(position, {}, 5, entryTs).mmrBps).toBe(DEFAULT_RISK_PARAMS.mmrBps);
+    });
+});
+
+describe('checkOpenRisk', () => {
+    it('accepts leverage within maxLevBps and imrBps', () => {
+        const r = checkOpenRisk({ maxLevBps: 20000, imrBps: 1000 }, 1, 20000, 100);
+        expect(r.ok).toBe(true);
+        expect(r.reasons).toEqual([]);
+        expect(r.maxLeverageBps).toBe(20000);
+    });
+
+    it('rejects leverage above maxLevBps', () => {
+        const r = checkOpenRisk({ maxLevBps: 20000, imrBps: 1000 }, 1, 30000);
+        expect(r.ok).toBe(false);
+        expect(r.reasons.map(x => x.code)).toEqual(['leverage_exceeds_max']);
+    });
+
+    it('caps leverage by the initial margin requirement', () => {
+        // imr 25% => max 4x even though maxLevBps allows 10x
+        const r = checkOpenRisk({ maxLevBps: 100000, imrBps: 2500 }, 1, 50000);
+        expect(r.reasons.map(x => x.code)).toEqual(['initial_margin_below_imr']);
+        expect(r.maxLeverageBps).toBe(40000);
+    });
+
+    it('caps leverage by available vault liquidity', () => {
+        // 2 SOL collateral, vault can lend 1 SOL => max 1.5x
+        const r = checkOpenRisk({ maxLevBps: 20000, imrBps: 1000 }, 2, 20000, 1);
+        expect(r.reasons.map(x => x.code)).toEqual(['insufficient_vault_liquidity']);
+        expect(r.maxLeverageBps).toBe(15000);
+    });
+
+    it('rejects leverage below 1x', () => {
+        const r = checkOpenRisk({}, 1, 5000);
+        expect(r.reasons.map(x => x.code)).toContain('leverage_below_min');
+    });
+});
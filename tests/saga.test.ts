@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryStore } from '../lib/memoryStore';
+import { claimSaga, finishSaga, isRecoverable, recoveryAction, runStep, SAGA_STALE_MS, startSaga } from '../lib/saga';
+import { setStore } from '../lib/store';
+
+describe('recoveryAction', () => {
+    it('compensates an open that borrowed but never wrote its position', () => {
+        expect(recoveryAction({ kind: 'open', steps: { borrow: 'done', deduct: 'done' } })).toEqual({ action: 'compensate' });
+    });
+
+    it('completes an open once its position is written', () => {
+        expect(recoveryAction({ kind: 'open', steps: { borrow: 'done', deduct: 'done', position: 'done', creator_fee: 'done' } })).toEqual({ action: 'complete' });
+    });
+
+    it('completes a close only after the vault settled', () => {
+        expect(recoveryAction({ kind: 'close', steps: { claim: 'done', insurance: 'done' } })).toEqual({ action: 'compensate' });
+        expect(recoveryAction({ kind: 'close', steps: { claim: 'done', insurance: 'done', settle: 'done' } })).toEqual({ action: 'complete' });
+    });
+
+    it('resolves an in-doubt step first', () => {
+        expect(recoveryAction({ kind: 'open', steps: { borrow: 'done', deduct: 'done', position: 'pending' } })).toEqual({ action: 'resolve', step: 'position' });
+    });
+});
+
+describe('isRecoverable', () => {
+    const atMs = 10 * SAGA_STALE_MS;
+
+    it('takes over only RUNNING sagas idle past the stale window', () => {
+        expect(isRecoverable({ status: 'RUNNING', updatedAt: atMs - SAGA_STALE_MS, lease: null }, atMs)).toBe(true);
+        expect(isRecoverable({ status: 'RUNNING', updatedAt: atMs - 1, lease: null }, atMs)).toBe(false);
+        expect(isRecoverable({ status: 'STUCK', updatedAt: 0, lease: null }, atMs)).toBe(false);
+    });
+
+    it('respects a live lease', () => {
+        expect(isRecoverable({ status: 'RUNNING', updatedAt: 0, lease: { owner: 'a', until: atMs + 1 } }, atMs)).toBe(false);
+        expect(isRecoverable({ status: 'RUNNING', updatedAt: 0, lease: { owner: 'a', until: atMs } }, atMs)).toBe(true);
+    });
+});
+
+describe('saga lease', () => {
+    let store: MemoryStore;
+
+    beforeEach(() => {
+        store = new MemoryStore();
+        setStore(store);
+    });
+
+    afterEach(() => {
+        setStore(null);
+    });
+
+    const ids = { uid: 'trader', vaultId: 'v1', posId: 'p1' };
+
+    // Age a saga past the stale window and its lease
+    async function lapse(sagaId: string) {
+        const past = Date.now() - SAGA_STALE_MS - 1;
+        await store.ref(`/sagas/${sagaId}`).update({ updatedAt: past, 'lease/until': past });
+    }
+
+    it('is held by the starting request and renewed with each step', async () => {
+        const saga = await startSaga('open', ids, {});
+        const { until } = store.value(`/sagas/${saga.sagaId}/lease`);
+        expect(until).toBeGreaterThan(Date.now());
+        expect(await claimSaga(saga.sagaId, 'recoverer')).toBeNull();
+
+        await lapse(saga.sagaId);
+        await runStep(saga, 'borrow', async () => undefined);
+        expect(store.value(`/sagas/${saga.sagaId}/lease/until`)).toBeGreaterThan(Date.now());
+        expect(await claimSaga(saga.sagaId, 'recoverer')).toBeNull();
+    });
+
+    it('refuses writes from a request whose lease was taken over', async () => {
+        const saga = await startSaga('open', ids, {});
+        await lapse(saga.sagaId);
+        const claimed = await claimSaga(saga.sagaId, 'recoverer');
+        expect(claimed?.lease?.owner).toBe('recoverer');
+
+        let ran = false;
+        await expect(runStep(saga, 'borrow', async () => { ran = true; })).rejects.toThrow('saga_lease_lost');
+        expect(ran).toBe(false);
+        await finishSaga(saga, 'DONE');
+        expect(store.value(`/sagas/${saga.sagaId}`)).toMatchObject({ status: 'RUNNING', lease: { owner: 'recoverer' } });
+
+        await runStep(claimed!, 'borrow', async () => undefined);
+        await finishSaga(claimed!, 'COMPENSATED');
+        expect(store.value(`/sagas/${saga.sagaId}`)).toMatchObject({ status: 'COMPENSATED', steps: { borrow: 'done' } });
+        expect(store.value(`/sagas/${saga.sagaId}/lease`)).toBeNull();
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildTriggers, evaluateTriggers, trailingStopPriceUsd } from '../lib/triggers';
+
+describe('buildTriggers', () => {
+    it('requires a long stop below and take-profit above the mark', () => {
+        const t = buildTriggers('LONG', 1, { stopLossUsd: 0.9, takeProfitUsd: 1.5 }, null, 0);
+        expect(t).toMatchObject({ stopLossUsd: 0.9, takeProfitUsd: 1.5, trailingStopBps: null, trailingRefUsd: null });
+        expect(() => buildTriggers('LONG', 1, { stopLossUsd: 1.1 })).toThrow('invalid_triggers');
+        expect(() => buildTriggers('LONG', 1, { takeProfitUsd: 0.8 })).toThrow('invalid_triggers');
+    });
+
+    it('inverts the bounds for shorts', () => {
+        expect(buildTriggers('SHORT', 1, { stopLossUsd: 1.1, takeProfitUsd: 0.5 })).not.toBeNull();
+        expect(() => buildTriggers('SHORT', 1, { stopLossUsd: 0.9 })).toThrow('invalid_triggers');
+    });
+
+    it('merges over existing triggers and clears with null', () => {
+        const existing = buildTriggers('LONG', 1, { stopLossUsd: 0.9, trailingStopBps: 500 }, null, 0);
+        const next = buildTriggers('LONG', 1.2, { takeProfitUsd: 2 }, existing, 0);
+        expect(next).toMatchObject({ stopLossUsd: 0.9, takeProfitUsd: 2, trailingStopBps: 500, trailingRefUsd: 1 });
+        expect(buildTriggers('LONG', 1, { stopLossUsd: null, trailingStopBps: null }, existing)).toBeNull();
+    });
+
+    it('rejects an out-of-range trailing distance', () => {
+        expect(() => buildTriggers('LONG', 1, { trailingStopBps: 10000 })).toThrow('invalid_triggers');
+        expect(() => buildTriggers('LONG', 1, { trailingStopBps: 12.5 })).toThrow('invalid_triggers');
+    });
+});
+
+describe('evaluateTriggers', () => {
+    const long = buildTriggers('LONG', 1, { stopLossUsd: 0.9, takeProfitUsd: 1.5 }, null, 0)!;
+
+    it('fires stop-loss and take-profit for a long', () => {
+        expect(evaluateTriggers('LONG', long, 1.2).fired).toBeNull();
+        expect(evaluateTriggers('LONG', long, 0.85).fired?.type).toBe('STOP_LOSS');
+        expect(evaluateTriggers('LONG', long, 1.5).fired).toMatchObject({ type: 'TAKE_PROFIT', triggerPriceUsd: 1.5, markUsd: 1.5 });
+    });
+
+    it('fires stop-loss and take-profit for a short', () => {
+        const short = buildTriggers('SHORT', 1, { stopLossUsd: 1.1, takeProfitUsd: 0.5 }, null, 0)!;
+        expect(evaluateTriggers('SHORT', short, 1.2).fired?.type).toBe('STOP_LOSS');
+        expect(evaluateTriggers('SHORT', short, 0.4).fired?.type).toBe('TAKE_PROFIT');
+    });
+
+    it('trails the high for a long and fires on the pullback', () => {
+        const t = buildTriggers('LONG', 1, { trailingStopBps: 1000 }, null, 0)!;
+        expect(trailingStopPriceUsd('LONG', t)).toBeCloseTo(0.9);
+        const up = evaluateTriggers('LONG', t, 2);
+        expect(up.fired).toBeNull();
+        expect(up.trailingRefUsd).toBe(2);
+        // 10% below the 2.0 high
+        const fired = evaluateTriggers('LONG', { ...t, trailingRefUsd: up.trailingRefUsd }, 1.79).fired;
+        expect(fired?.type).toBe('TRAILING_STOP');
+        expect(fired?.triggerPriceUsd).toBeCloseTo(1.8);
+    });
+
+    it('trails the low for a short', () => {
+        const t = buildTriggers('SHORT', 1, { trailingStopBps: 1000 }, null, 0)!;
+        const down = evaluateTriggers('SHORT', t, 0.5);
+        expect(down.trailingRefUsd).toBe(0.5);
+        expect(evaluateTriggers('SHORT', { ...t, trailingRefUsd: 0.5 }, 0.56).fired?.type).toBe('TRAILING_STOP');
+    });
+});
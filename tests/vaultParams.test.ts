@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { isHarmfulChange, requiresTimelock, validateParamChanges } from '../lib/vaultParams';
+
+describe('validateParamChanges', () => {
+    const current = { openFeeBps: 10, imrBps: 1000, mmrBps: 800, maxLevBps: 20000 };
+
+    it('diffs only the params that change', () => {
+        const check = validateParamChanges(current, { openFeeBps: 20, maxLevBps: 20000 });
+        expect(check.ok).toBe(true);
+        expect(check.diff).toEqual({ openFeeBps: { from: 10, to: 20 } });
+        expect(check.merged).toMatchObject({ openFeeBps: 20, maxLevBps: 20000 });
+    });
+
+    it('rejects unknown keys, out of range values and mmr at or above imr', () => {
+        expect(validateParamChanges(current, { creatorUid: 'x' }).reasons[0]).toMatch(/not an adjustable param/);
+        expect(validateParamChanges(current, { vaultSharePct: 1.5 }).ok).toBe(false);
+        expect(validateParamChanges(current, { mmrBps: 1000 }).reasons).toContain('mmrBps must be below imrBps');
+    });
+});
+
+describe('timelock rules', () => {
+    it('flags changes that hurt traders', () => {
+        expect(isHarmfulChange('openFeeBps', 10, 20)).toBe(true);
+        expect(isHarmfulChange('maxLevBps', 20000, 10000)).toBe(true);
+        expect(isHarmfulChange('rateKinkBps', 9000, 8000)).toBe(true);
+        expect(isHarmfulChange('liqBonusBps', null, 50)).toBe(true);
+    });
+
+    it('flags changes that hurt LPs', () => {
+        expect(isHarmfulChange('openFeeBps', 20, 10)).toBe(true);
+        expect(isHarmfulChange('perfFeeBps', 1000, 500)).toBe(true);
+        expect(isHarmfulChange('rateSlope1Bps', 400, 200)).toBe(true);
+        expect(isHarmfulChange('mmrBps', 800, 500)).toBe(true);
+        expect(isHarmfulChange('maxLevBps', 20000, 50000)).toBe(true);
+        expect(isHarmfulChange('vaultSharePct', 0.7, 0.5)).toBe(true);
+    });
+
+    it('lets a change that hurts neither through', () => {
+        expect(isHarmfulChange('vaultSharePct', 0.5, 0.7)).toBe(false);
+        expect(isHarmfulChange('ownerKeepPct', 0.5, 0.6)).toBe(false);
+    });
+
+    it('timelocks a proposal when any one change is harmful', () => {
+        expect(requiresTimelock({ vaultSharePct: { from: 0.5, to: 0.7 } })).toBe(false);
+        expect(requiresTimelock({ vaultSharePct: { from: 0.5, to: 0.7 }, openFeeBps: { from: 20, to: 10 } })).toBe(true);
+    });
+});
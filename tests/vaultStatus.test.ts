@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { canDeposit, canOpenPositions, canTransition, vaultStatus } from '../lib/vaultStatus';
+
+describe('vaultStatus', () => {
+    it('treats a missing or unknown status as ACTIVE', () => {
+        expect(vaultStatus({})).toBe('ACTIVE');
+        expect(vaultStatus({ status: 'bogus' })).toBe('ACTIVE');
+        expect(vaultStatus({ status: 'PAUSED' })).toBe('PAUSED');
+    });
+});
+
+describe('canTransition', () => {
+    it('allows pausing and resuming', () => {
+        expect(canTransition('ACTIVE', 'PAUSED')).toBe(true);
+        expect(canTransition('PAUSED', 'ACTIVE')).toBe(true);
+    });
+
+    it('makes CLOSE_ONLY one way and never sets WOUND_DOWN directly', () => {
+        expect(canTransition('ACTIVE', 'CLOSE_ONLY')).toBe(true);
+        expect(canTransition('PAUSED', 'CLOSE_ONLY')).toBe(true);
+        expect(canTransition('CLOSE_ONLY', 'ACTIVE')).toBe(false);
+        expect(canTransition('CLOSE_ONLY', 'WOUND_DOWN')).toBe(false);
+        expect(canTransition('WOUND_DOWN', 'ACTIVE')).toBe(false);
+    });
+});
+
+describe('status gates', () => {
+    it('only opens positions on ACTIVE vaults', () => {
+        expect(canOpenPositions({ status: 'ACTIVE' })).toBe(true);
+        expect(canOpenPositions({ status: 'PAUSED' })).toBe(false);
+        expect(canOpenPositions({ status: 'CLOSE_ONLY' })).toBe(false);
+    });
+
+    it('takes deposits while ACTIVE or PAUSED', () => {
+        expect(canDeposit({ status: 'PAUSED' })).toBe(true);
+        expect(canDeposit({ status: 'CLOSE_ONLY' })).toBe(false);
+        expect(canDeposit({ status: 'WOUND_DOWN' })).toBe(false);
+    });
+});
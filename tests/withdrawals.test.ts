@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createVault, creatorDeposit } from '../lib/engine';
+import { MemoryStore } from '../lib/memoryStore';
+import { setStore } from '../lib/store';
+import { cancelQueuedWithdrawal, immediateWithdrawLimitSol, processWithdrawalQueue, withdrawFromVault } from '../lib/withdrawals';
+
+describe('immediateWithdrawLimitSol', () => {
+    // 10 SOL deposited (creator 6, contributor 4), 5 SOL lent out
+    const vault = {
+        tvlSol: 10,
+        totalBorrowsSol: 5,
+        composition: {
+            creator: { uid: 'creator', sol: 6 },
+            contributors: { alice: { uid: 'alice', sol: 4 } },
+        },
+    };
+
+    it('caps each LP at their share of unborrowed liquidity', () => {
+        expect(immediateWithdrawLimitSol(vault, 'creator').limitSol).toBeCloseTo(3);
+        expect(immediateWithdrawLimitSol(vault, 'alice').limitSol).toBeCloseTo(2);
+    });
+
+    it('holds back liquidity reserved for the queue', () => {
+        const queued = {
+            ...vault,
+            totalShares: 10,
+            withdrawQueueShares: 1,
+            composition: {
+                creator: { uid: 'creator', sol: 6, shares: 6 },
+                contributors: { alice: { uid: 'alice', sol: 4, shares: 4, queuedShares: 1 } },
+            },
+        };
+        const alice = immediateWithdrawLimitSol(queued, 'alice');
+        expect(alice.freeSol).toBeCloseTo(3);
+        expect(alice.limitSol).toBeCloseTo(1.6);
+    });
+
+    it('allows nothing for non-depositors', () => {
+        expect(immediateWithdrawLimitSol(vault, 'bob')).toEqual({ depositSol: 0, freeSol: 0, limitSol: 0 });
+    });
+});
+
+describe('processWithdrawalQueue', () => {
+    let store: MemoryStore;
+    let vaultId: string;
+    let requestId: string;
+
+    // 10 SOL deposited with 8 lent out: a 5 SOL withdrawal pays 2 now and queues 3
+    beforeEach(async () => {
+        store = new MemoryStore();
+        setStore(store);
+        vaultId = (await createVault('TokenMint111', 'creator', {}, 'Test vault')).vaultId;
+        await creatorDeposit(vaultId, 10, 'creator');
+        await store.ref(`/vaults/${vaultId}/totalBorrowsSol`).set(8);
+        const res = await withdrawFromVault(vaultId, 'creator', 5);
+        expect(res.withdrawnSol).toBeCloseTo(2);
+        requestId = res.request!.requestId;
+        await store.ref(`/vaults/${vaultId}/totalBorrowsSol`).set(0);
+    });
+
+    afterEach(() => {
+        setStore(null);
+        vi.restoreAllMocks();
+    });
+
+    it('fills the queue once liquidity returns', async () => {
+        const { filled } = await processWithdrawalQueue(vaultId);
+        expect(filled).toHaveLength(1);
+        expect(store.value('/users/creator/balance')).toBeCloseTo(5);
+        expect(store.value(`/vault_withdrawals/${vaultId}/${requestId}`)).toMatchObject({ status: 'FILLED', remainingShares: 0 });
+        expect(store.value(`/vaults/${vaultId}`)).toMatchObject({ totalShares: 5, withdrawQueueShares: 0 });
+        expect(store.value(`/vaults/${vaultId}/withdrawQueueFills`)).toBeNull();
+    });
+
+    it('does not burn shares again when the request update was lost', async () => {
+        const ref = store.ref.bind(store);
+        const crash = vi.spyOn(store, 'ref').mockImplementation((path?: string) => {
+            const r = ref(path);
+            if (!path) r.update = async () => { throw new Error('crash'); };
+            return r;
+        });
+        await expect(processWithdrawalQueue(vaultId)).rejects.toThrow('crash');
+        crash.mockRestore();
+        expect(store.value(`/vault_withdrawals/${vaultId}/${requestId}/status`)).toBe('QUEUED');
+
+        await processWithdrawalQueue(vaultId);
+        expect(store.value(`/vault_withdrawals/${vaultId}/${requestId}`)).toMatchObject({ status: 'FILLED', remainingShares: 0 });
+        expect(store.value(`/vaults/${vaultId}/totalShares`)).toBe(5);
+        expect(store.value('/users/creator/balance')).toBeCloseTo(5);
+    });
+
+    // Runs `action` once, after the next queue read has taken its snapshot
+    function afterQueueRead(action: () => Promise<unknown>) {
+        const ref = store.ref.bind(store);
+        const spy = vi.spyOn(store, 'ref').mockImplementation((path?: string) => {
+            const r = ref(path);
+            if (path === `/vault_withdrawals/${vaultId}`) {
+                const get = r.get.bind(r);
+                r.get = async () => {
+                    const snap = await get();
+                    spy.mockRestore();
+                    await action();
+                    return snap;
+                };
+            }
+            return r;
+        });
+    }
+
+    it('fills a request once when another run fills it after the queue was read', async () => {
+        afterQueueRead(() => processWithdrawalQueue(vaultId));
+        await processWithdrawalQueue(vaultId);
+        expect(store.value(`/vault_withdrawals/${vaultId}/${requestId}`)).toMatchObject({ status: 'FILLED', remainingShares: 0 });
+        expect(store.value(`/vaults/${vaultId}/totalShares`)).toBe(5);
+        expect(store.value(`/vaults/${vaultId}/withdrawQueueFills`)).toBeNull();
+        expect(store.value('/users/creator/balance')).toBeCloseTo(5);
+    });
+
+    it('does not fill a request cancelled after the queue was read', async () => {
+        afterQueueRead(() => cancelQueuedWithdrawal(vaultId, 'creator', requestId));
+        const { filled } = await processWithdrawalQueue(vaultId);
+        expect(filled).toHaveLength(0);
+        expect(store.value(`/vault_withdrawals/${vaultId}/${requestId}/status`)).toBe('CANCELLED');
+        expect(store.value(`/vaults/${vaultId}`)).toMatchObject({ totalShares: 8, withdrawQueueShares: 0 });
+        expect(store.value(`/vaults/${vaultId}/composition/creator/queuedShares`)).toBe(0);
+        expect(store.value(`/vaults/${vaultId}/withdrawQueueFills`)).toBeNull();
+        expect(store.value('/users/creator/balance')).toBeCloseTo(2);
+    });
+
+    it('re-queues the shares when the payout fails', async () => {
+        const ref = store.ref.bind(store);
+        vi.spyOn(store, 'ref').mockImplementation((path?: string) => {
+            const r = ref(path);
+            if (path === '/users/creator/balance') r.transaction = async () => ({ committed: false, snapshot: await r.get() });
+            return r;
+        });
+        const { filled } = await processWithdrawalQueue(vaultId);
+        expect(filled).toHaveLength(0);
+        expect(store.value(`/vault_withdrawals/${vaultId}/${requestId}/status`)).toBe('QUEUED');
+        expect(store.value(`/vaults/${vaultId}`)).toMatchObject({ totalShares: 8, withdrawQueueShares: 3 });
+        expect(store.value(`/vaults/${vaultId}/composition/creator/queuedShares`)).toBeCloseTo(3);
+    });
+});
@@ -109,8 +109,9 @@ export function calculateFees(
 export default calculateFees;
 
 export interface VaultComposition {
-    creator: { uid: string; lamports: number } | null;
-    contributors: Array<{ uid: string; lamports: number }>;
+    // `keepPct`, when set, overrides the default keep percentage for that owner
+    creator: { uid: string; lamports: number; keepPct?: number } | null;
+    contributors: Array<{ uid: string; lamports: number; keepPct?: number }>;
 }
 
 export interface DistributionResult {
@@ -184,13 +185,15 @@ export function distributeFeeProRata(
     }
 
     if (composition.creator) {
-        const { ownerKeep, ownerPlatform, ownerPortion } = allocateOwner(creatorLamports, creatorKeepPct);
+        const creatorKeep = typeof composition.creator.keepPct === "number" ? composition.creator.keepPct : creatorKeepPct;
+        const { ownerKeep, ownerPlatform, ownerPortion } = allocateOwner(creatorLamports, creatorKeep);
         creatorAcc += ownerKeep;
         platformAcc += ownerPlatform;
     }
 
     for (const c of composition.contributors) {
-        const { ownerKeep, ownerPlatform, ownerPortion } = allocateOwner(c.lamports, contributorKeepPct);
+        const contribKeep = typeof c.keepPct === "number" ? c.keepPct : contributorKeepPct;
+        const { ownerKeep, ownerPlatform, ownerPortion } = allocateOwner(c.lamports, contribKeep);
         contributorsAcc.push({ uid: c.uid, lamports: ownerKeep });
         platformAcc += ownerPlatform;
     }